@@ -4,12 +4,16 @@ import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import Admin from "./pages/Admin";
 import Home from "./pages/Home";
+import Receipt from "./pages/Receipt";
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/admin"} component={Admin} />
+      <Route path={"/tx/:ref"} component={Receipt} />
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
     </Switch>
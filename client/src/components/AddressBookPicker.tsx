@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { BookUser, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { trpc } from "@/lib/trpc";
+
+export type AddressBookRecipient = {
+  currency: string;
+  network: string;
+  address: string;
+  extraId?: string | null;
+};
+
+type Props = {
+  // Recipient currently in the form - offered for saving when it isn't saved yet
+  current: AddressBookRecipient;
+  onPick: (entry: AddressBookRecipient) => void;
+};
+
+/**
+ * Saved recipients of the signed-in wallet. Picking one fills the recipient
+ * and switches the form to the entry's currency and network.
+ */
+export function AddressBookPicker({ current, onPick }: Props) {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const utils = trpc.useUtils();
+
+  const { data: entries } = trpc.addressBook.list.useQuery(undefined, { refetchOnWindowFocus: false });
+
+  const createMutation = trpc.addressBook.create.useMutation({
+    onSuccess: entry => {
+      toast.success(`Saved "${entry.label}"`);
+      setLabel("");
+      utils.addressBook.list.invalidate();
+    },
+    onError: error => toast.error(error.message),
+  });
+
+  const removeMutation = trpc.addressBook.remove.useMutation({
+    onSuccess: () => utils.addressBook.list.invalidate(),
+    onError: error => toast.error(error.message),
+  });
+
+  const currentAddress = current.address.trim();
+  const currentExtraId = current.extraId?.trim() || null;
+  const isSaved = entries?.some(
+    e => e.network === current.network && e.address === currentAddress && (e.extraId ?? null) === currentExtraId
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="flex items-center gap-1 text-[10px] font-bold text-[#00D9FF] hover:underline">
+          <BookUser className="w-3 h-3" />
+          ADDRESS BOOK{entries?.length ? ` (${entries.length})` : ""}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-[#0a0a0f] border-white/10 p-3 space-y-3">
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {entries?.length ? (
+            entries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2 rounded-lg hover:bg-white/5">
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left px-2 py-1.5"
+                  onClick={() => {
+                    onPick(entry);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-white font-semibold truncate">{entry.label}</span>
+                    <span className="text-[10px] text-white/40 shrink-0">
+                      {entry.currency.toUpperCase()} · {entry.network.toUpperCase()}
+                    </span>
+                  </div>
+                  <div className="text-[10px] text-white/40 font-mono truncate">
+                    {entry.address}
+                    {entry.extraId && ` · tag ${entry.extraId}`}
+                  </div>
+                </button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 text-white/30 hover:text-red-400"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate({ id: entry.id })}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <p className="text-xs text-white/40 px-2 py-1.5">No saved recipients yet</p>
+          )}
+        </div>
+
+        {currentAddress && !isSaved && (
+          <form
+            className="flex gap-2 pt-3 border-t border-white/5"
+            onSubmit={e => {
+              e.preventDefault();
+              createMutation.mutate({ ...current, address: currentAddress, extraId: currentExtraId, label });
+            }}
+          >
+            <Input
+              placeholder="Label for this recipient"
+              value={label}
+              maxLength={64}
+              onChange={e => setLabel(e.target.value)}
+              className="bg-[#050508] border-white/10 text-white h-8 text-xs rounded-lg placeholder:text-white/20"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              className="h-8 bg-[#00D9FF] text-black hover:bg-[#00D9FF]/80 text-[10px] font-bold"
+              disabled={!label.trim() || createMutation.isPending}
+            >
+              SAVE
+            </Button>
+          </form>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,358 @@
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TokenGate } from "@/components/TokenGate";
+import { trpc } from "@/lib/trpc";
+import { usePendingBridges } from "@/hooks/usePendingBridges";
+import { getBatchStatusDisplay, getStatusDisplay, isFinalBatchStatus, receiptPath } from "@/lib/transferStatus";
+
+type LegDraft = {
+  key: number;
+  recipientAddress: string;
+  toCurrency: string;
+  toNetwork: string; // "" = the server's default for the currency
+  amount: string;
+  extraId: string;
+};
+
+const DEFAULT_NETWORK = "__default";
+let nextLegKey = 1;
+
+function emptyLeg(toCurrency: string): LegDraft {
+  return { key: nextLegKey++, recipientAddress: "", toCurrency, toNetwork: "", amount: "", extraId: "" };
+}
+
+/**
+ * Batch order form: several recipients, each paid in their own currency,
+ * funded from the selected source currency. Once created it turns into a
+ * deposit checklist - one deposit address per leg.
+ */
+export function BatchOrder({ currency, network, symbol }: { currency: string; network: string; symbol?: string }) {
+  const [legs, setLegs] = useState<LegDraft[]>(() => [emptyLeg(currency)]);
+  const [csvErrors, setCsvErrors] = useState<{ line: number; message: string }[]>([]);
+  const [sent, setSent] = useState<Record<string, boolean>>({});
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { addBridge } = usePendingBridges();
+
+  const { data: currencies } = trpc.transaction.getSupportedCurrencies.useQuery();
+
+  const parseCsvMutation = trpc.transaction.parseBatchCsv.useMutation({
+    onSuccess: data => {
+      setCsvErrors(data.errors);
+      if (data.legs.length === 0) {
+        toast.error("No legs found in the file");
+        return;
+      }
+      setLegs(
+        data.legs.map(leg => ({
+          key: nextLegKey++,
+          recipientAddress: leg.recipientAddress,
+          toCurrency: leg.toCurrency.toLowerCase(),
+          toNetwork: leg.toNetwork?.toLowerCase() ?? "",
+          amount: leg.amount,
+          extraId: leg.extraId ?? "",
+        }))
+      );
+      toast.success(`Loaded ${data.legs.length} legs`);
+    },
+    onError: error => toast.error(error.message),
+  });
+
+  const createBatchMutation = trpc.transaction.createBatch.useMutation({
+    onSuccess: data => {
+      // Track every leg in the pending bridges tray as well
+      data.legs.forEach(leg => {
+        addBridge({
+          reference: leg.reference,
+          receiptToken: leg.receiptToken,
+          routingTransactionId: leg.routingTransactionId,
+          payinAddress: leg.payinAddress,
+          payinExtraId: leg.payinExtraId,
+          amount: leg.amount,
+          currency: data.currency,
+          network: data.network,
+          receiveAmount: leg.receiveAmount,
+          toCurrency: leg.toCurrency.toUpperCase(),
+          toNetwork: leg.toNetwork,
+          isSwap: leg.toCurrency !== currency,
+        });
+      });
+      if (data.failed.length > 0) {
+        toast.error(`${data.failed.length} of ${data.failed.length + data.legs.length} legs could not be created`);
+      } else {
+        toast.success(`Batch ${data.batchId} created`);
+      }
+    },
+    onError: error => toast.error(error.message || "Batch creation failed"),
+  });
+  const batch = createBatchMutation.data;
+
+  const { data: batchStatus } = trpc.transaction.getBatch.useQuery(
+    { batchId: batch?.batchId ?? "", token: batch?.batchToken ?? undefined },
+    {
+      enabled: !!batch,
+      retry: false,
+      refetchInterval: query => (isFinalBatchStatus(query.state.data?.status) ? false : 10000),
+    }
+  );
+
+  const updateLeg = (key: number, changes: Partial<LegDraft>) => {
+    setLegs(current => current.map(leg => (leg.key === key ? { ...leg, ...changes } : leg)));
+  };
+
+  const total = legs.reduce((sum, leg) => sum + (parseFloat(leg.amount) || 0), 0);
+  const canSubmit = legs.length > 0 && legs.every(leg => leg.recipientAddress.trim() && parseFloat(leg.amount) > 0);
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    parseCsvMutation.mutate({ csv: await file.text() });
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const handleCreate = () => {
+    createBatchMutation.mutate({
+      currency,
+      network,
+      legs: legs.map(leg => ({
+        recipientAddress: leg.recipientAddress.trim(),
+        toCurrency: leg.toCurrency,
+        toNetwork: leg.toNetwork || null,
+        amount: leg.amount,
+        extraId: leg.extraId.trim() || null,
+      })),
+    });
+  };
+
+  if (batch) {
+    const statusByReference = new Map(batchStatus?.legs.map(leg => [leg.reference, leg.status]));
+    const display = getBatchStatusDisplay(batchStatus?.status ?? "awaiting_deposit");
+    const sentCount = batch.legs.filter(leg => sent[leg.reference]).length;
+
+    return (
+      <div className="bg-[#0a0a0f] rounded-xl border border-[#00D9FF]/30 p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-bold text-white mb-1" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+              Deposit Checklist
+            </h3>
+            <code className="text-xs text-[#00D9FF]">{batch.batchId}</code>
+          </div>
+          <span className={`text-xs font-bold ${display.color}`}>{display.label}</span>
+        </div>
+
+        <p className="text-xs text-white/50">
+          Send each amount to its own deposit address - {sentCount} of {batch.legs.length} marked sent, {" "}
+          {batch.totalDeposit.toFixed(6)} {batch.currency} in total.
+        </p>
+
+        <div className="space-y-2">
+          {batch.legs.map(leg => {
+            const legDisplay = getStatusDisplay(statusByReference.get(leg.reference) ?? "pending");
+            return (
+              <div key={leg.reference} className="p-3 rounded-lg bg-[#050508] border border-white/5 space-y-2">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <label className="flex items-center gap-2 text-white">
+                    <Checkbox
+                      checked={!!sent[leg.reference]}
+                      onCheckedChange={checked => setSent(current => ({ ...current, [leg.reference]: checked === true }))}
+                    />
+                    <span className="font-mono">{leg.amount.toFixed(6)} {batch.currency}</span>
+                    <span className="text-white/40">
+                      → {leg.receiveAmount.toFixed(6)} {leg.toCurrency.toUpperCase()}
+                    </span>
+                  </label>
+                  <span className={`font-bold ${legDisplay.color}`}>{legDisplay.label}</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    navigator.clipboard.writeText(leg.payinAddress);
+                    toast.success("Deposit address copied");
+                  }}
+                  className="block w-full text-left text-[10px] font-mono text-[#00D9FF] break-all hover:underline"
+                >
+                  {leg.payinAddress}
+                </button>
+                {leg.payinExtraId && (
+                  <p className="text-[10px] text-amber-400/90">
+                    Include memo / tag <span className="font-mono">{leg.payinExtraId}</span> with this deposit.
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-2 text-[10px] text-white/30">
+                  <span className="font-mono truncate">To {leg.recipientAddress}</span>
+                  <a href={receiptPath(leg.reference, leg.receiptToken)} className="shrink-0 text-white/60 hover:underline">
+                    Receipt
+                  </a>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {batch.failed.length > 0 && (
+          <div className="text-xs text-red-400 space-y-1">
+            {batch.failed.map(failure => (
+              <p key={failure.index}>Leg {failure.index + 1} was not created: {failure.error}</p>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full border-white/10 hover:bg-white/5"
+          onClick={() => {
+            createBatchMutation.reset();
+            setSent({});
+            setLegs([emptyLeg(currency)]);
+          }}
+        >
+          New Batch
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-[#00D9FF]"></div>
+          <h3 className="text-sm font-bold text-white">Recipients</h3>
+        </div>
+        <div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => handleUpload(e.target.files?.[0])}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-white/10 hover:bg-white/5 text-xs"
+            disabled={parseCsvMutation.isPending}
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            {parseCsvMutation.isPending ? "Reading..." : "Upload CSV"}
+          </Button>
+        </div>
+      </div>
+      <p className="text-[10px] text-white/40">
+        CSV columns: recipient, toCurrency, toNetwork, amount, extraId (optional). Amounts are in {symbol ?? currency.toUpperCase()}.
+      </p>
+
+      {csvErrors.length > 0 && (
+        <div className="text-[10px] text-red-400 space-y-0.5">
+          {csvErrors.map(error => (
+            <p key={error.line}>Line {error.line}: {error.message}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {legs.map((leg, index) => {
+          const networks = currencies?.find(c => c.ticker === leg.toCurrency)?.networks ?? [];
+          return (
+            <div key={leg.key} className="p-3 rounded-lg bg-[#050508] border border-white/5 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-white/40 uppercase tracking-wider">Leg {index + 1}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 text-white/30 hover:text-red-400"
+                  disabled={legs.length <= 1}
+                  onClick={() => setLegs(current => current.filter(l => l.key !== leg.key))}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              <Input
+                placeholder="Recipient address"
+                value={leg.recipientAddress}
+                onChange={e => updateLeg(leg.key, { recipientAddress: e.target.value })}
+                className="bg-[#0a0a0f] border-white/10 text-white h-10 font-mono text-xs rounded-lg placeholder:text-white/20"
+              />
+              <div className="grid grid-cols-4 gap-2">
+                <Select value={leg.toCurrency} onValueChange={value => updateLeg(leg.key, { toCurrency: value, toNetwork: "" })}>
+                  <SelectTrigger className="bg-[#0a0a0f] border-white/10 text-white h-10 rounded-lg text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#0a0a0f] border-white/10">
+                    {currencies?.map(c => (
+                      <SelectItem key={c.ticker} value={c.ticker} className="text-white">
+                        {c.symbol}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={leg.toNetwork || DEFAULT_NETWORK}
+                  onValueChange={value => updateLeg(leg.key, { toNetwork: value === DEFAULT_NETWORK ? "" : value })}
+                >
+                  <SelectTrigger className="bg-[#0a0a0f] border-white/10 text-white h-10 rounded-lg text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#0a0a0f] border-white/10">
+                    <SelectItem value={DEFAULT_NETWORK} className="text-white/60">
+                      Default network
+                    </SelectItem>
+                    {networks.map(n => (
+                      <SelectItem key={n.id} value={n.id} className="text-white">
+                        {n.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.000001"
+                  placeholder={`Amount (${symbol ?? currency.toUpperCase()})`}
+                  value={leg.amount}
+                  onChange={e => updateLeg(leg.key, { amount: e.target.value })}
+                  className="bg-[#0a0a0f] border-white/10 text-white h-10 text-xs rounded-lg placeholder:text-white/20"
+                />
+                <Input
+                  placeholder="Memo / tag"
+                  value={leg.extraId}
+                  onChange={e => updateLeg(leg.key, { extraId: e.target.value })}
+                  className="bg-[#0a0a0f] border-white/10 text-white h-10 font-mono text-xs rounded-lg placeholder:text-white/20"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-white/10 hover:bg-white/5 text-xs"
+          onClick={() => setLegs(current => [...current, emptyLeg(currency)])}
+        >
+          + Add Recipient
+        </Button>
+        <span className="text-sm text-white/70 font-mono">
+          Total {total.toFixed(6)} {symbol ?? currency.toUpperCase()}
+        </span>
+      </div>
+
+      <TokenGate>
+        <Button
+          onClick={handleCreate}
+          disabled={!canSubmit || createBatchMutation.isPending}
+          className="w-full h-14 rounded-lg text-sm font-bold tracking-wider bg-gradient-to-r from-[#00D9FF] to-[#00b3d9] hover:from-[#00e5ff] hover:to-[#00c4e5] text-black disabled:opacity-20 disabled:cursor-not-allowed transition-all"
+          style={{ fontFamily: "'Orbitron', sans-serif" }}
+        >
+          {createBatchMutation.isPending ? "CREATING ROUTES..." : `CREATE BATCH (${legs.length})`}
+        </Button>
+      </TokenGate>
+    </div>
+  );
+}
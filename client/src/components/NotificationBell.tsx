@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Bell, Copy } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * Inbox of the signed-in wallet (scheduled transfer runs, ...). Opening it
+ * marks everything read.
+ */
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const utils = trpc.useUtils();
+
+  const { data: notifications } = trpc.notifications.list.useQuery(undefined, { refetchInterval: 60000 });
+  const markReadMutation = trpc.notifications.markRead.useMutation({
+    onSuccess: () => utils.notifications.list.invalidate(),
+  });
+
+  const unread = notifications?.filter(n => !n.isRead).length ?? 0;
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={next => {
+        setOpen(next);
+        if (next && unread > 0) markReadMutation.mutate({});
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button type="button" className="relative p-2 text-white/50 hover:text-[#00D9FF] transition-colors" aria-label="Notifications">
+          <Bell className="w-4 h-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-[#00D9FF] text-black text-[9px] font-bold flex items-center justify-center">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-[#0a0a0f] border-white/10 p-3">
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {notifications?.length ? (
+            notifications.map(notification => {
+              const payinAddress = typeof notification.data?.payinAddress === "string" ? notification.data.payinAddress : null;
+              return (
+                <div
+                  key={notification.id}
+                  className={`rounded-lg px-3 py-2 border ${notification.isRead ? "border-white/5" : "border-[#00D9FF]/30 bg-[#00D9FF]/5"}`}
+                >
+                  <div className="text-xs text-white font-semibold">{notification.title}</div>
+                  <p className="text-[11px] text-white/60 break-words">{notification.body}</p>
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <span className="text-[10px] text-white/30">{new Date(notification.createdAt).toLocaleString()}</span>
+                    {payinAddress && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          navigator.clipboard.writeText(payinAddress);
+                          toast.success("Deposit address copied");
+                        }}
+                        className="flex items-center gap-1 text-[10px] text-[#00D9FF] hover:underline"
+                      >
+                        <Copy className="w-3 h-3" />
+                        Copy address
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-xs text-white/40 px-2 py-1.5">No notifications</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { usePendingBridges, type PendingBridge } from "@/hooks/usePendingBridges";
+import { getStatusDisplay, isFinalStatus, receiptPath } from "@/lib/transferStatus";
+
+// One tracked bridge - polls its routing status until it reaches a final state
+function PendingBridgeRow({ bridge, onResume }: { bridge: PendingBridge; onResume: (bridge: PendingBridge) => void }) {
+  const [, setLocation] = useLocation();
+  const { updateStatus, removeBridge } = usePendingBridges();
+
+  const { data } = trpc.transaction.getRoutingStatus.useQuery(
+    { routingTransactionId: bridge.routingTransactionId },
+    {
+      enabled: !isFinalStatus(bridge.status),
+      refetchInterval: query => {
+        const status = (query.state.data as { status?: string } | undefined)?.status;
+        return isFinalStatus(status) ? false : 10000;
+      },
+    }
+  );
+
+  const liveStatus = (data as { status?: string } | undefined)?.status;
+  useEffect(() => {
+    if (liveStatus) updateStatus(bridge.reference, liveStatus);
+  }, [liveStatus, bridge.reference, updateStatus]);
+
+  const status = liveStatus ?? bridge.status;
+  const display = getStatusDisplay(status);
+  const final = isFinalStatus(status);
+
+  return (
+    <div className="p-3 rounded-lg bg-[#050508] border border-white/5 space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-white font-mono">
+          {bridge.amount.toFixed(6)} {bridge.currency}
+          {bridge.toCurrency && bridge.toCurrency !== bridge.currency && ` → ${bridge.toCurrency}`}
+        </span>
+        <span className={`font-bold ${display.color}`}>{display.label}</span>
+      </div>
+      <Progress value={display.progress} className="h-1" />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] text-white/30">{new Date(bridge.createdAt).toLocaleString()}</span>
+        <div className="flex gap-1">
+          {!final && (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px] text-[#00D9FF]" onClick={() => onResume(bridge)}>
+              Resume
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-[10px] text-white/60"
+            onClick={() => setLocation(receiptPath(bridge.reference, bridge.receiptToken))}
+          >
+            Receipt
+          </Button>
+          {final && (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px] text-white/40" onClick={() => removeBridge(bridge.reference)}>
+              Dismiss
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Tray of bridges started in this browser that were still in flight when the
+ * page was left. Persisted by usePendingBridges.
+ */
+export function PendingBridges({ onResume }: { onResume: (bridge: PendingBridge) => void }) {
+  const { bridges } = usePendingBridges();
+  const [open, setOpen] = useState(true);
+
+  if (bridges.length === 0) return null;
+
+  const active = bridges.filter(b => !isFinalStatus(b.status)).length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-[#0a0a0f] rounded-xl border border-[#00D9FF]/30 shadow-2xl">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between px-4 py-3">
+        <span className="text-[10px] font-bold tracking-wider text-white" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+          PENDING BRIDGES
+        </span>
+        <span className="text-[10px] text-[#00D9FF] font-mono">
+          {active} active {open ? "▾" : "▴"}
+        </span>
+      </button>
+      {open && (
+        <div className="px-3 pb-3 space-y-2 max-h-80 overflow-y-auto">
+          {bridges.map(bridge => (
+            <PendingBridgeRow key={bridge.reference} bridge={bridge} onResume={onResume} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { BellPlus, Pause, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+
+// Route of the bridge form an alert can be created for
+export type AlertRoute = {
+  currency: string;
+  network: string;
+  toCurrency: string;
+  toNetwork: string;
+  amount: string; // Deposit in the source currency
+  currentReceiveAmount?: number | null; // Live estimate, to suggest a target
+};
+
+const COOLDOWNS = [
+  { label: "15m", minutes: 15 },
+  { label: "1h", minutes: 60 },
+  { label: "6h", minutes: 360 },
+  { label: "24h", minutes: 1440 },
+];
+
+const EXPIRIES = [
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+];
+
+function formatAmount(value: number | string) {
+  return String(Number(Number(value).toPrecision(8)));
+}
+
+/**
+ * Rate alerts of the signed-in wallet: "notify me when this deposit yields
+ * at least X". Prices are checked in the background; hits arrive as
+ * notifications.
+ */
+export function RateAlerts({ route }: { route: AlertRoute }) {
+  const [target, setTarget] = useState<string | null>(null); // null = form closed
+  const [cooldownMinutes, setCooldownMinutes] = useState(60);
+  const [expiryDays, setExpiryDays] = useState(7);
+  const utils = trpc.useUtils();
+
+  const { data: alerts } = trpc.alerts.list.useQuery(undefined, { refetchInterval: 60000 });
+
+  const createMutation = trpc.alerts.create.useMutation({
+    onSuccess: () => {
+      toast.success("Alert created");
+      setTarget(null);
+      utils.alerts.list.invalidate();
+    },
+    onError: error => toast.error(error.message),
+  });
+  const setActiveMutation = trpc.alerts.setActive.useMutation({
+    onSuccess: () => utils.alerts.list.invalidate(),
+    onError: error => toast.error(error.message),
+  });
+  const removeMutation = trpc.alerts.remove.useMutation({
+    onSuccess: () => utils.alerts.list.invalidate(),
+    onError: error => toast.error(error.message),
+  });
+
+  const canAlert = parseFloat(route.amount) > 0;
+
+  const handleCreate = () => {
+    if (target === null) return;
+    createMutation.mutate({
+      currency: route.currency,
+      network: route.network,
+      toCurrency: route.toCurrency,
+      toNetwork: route.toNetwork,
+      amount: route.amount,
+      targetReceiveAmount: target,
+      cooldownMinutes,
+      expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000),
+    });
+  };
+
+  return (
+    <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-bold text-white" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+          Rate Alerts
+        </h3>
+        {target === null && (
+          <button
+            type="button"
+            onClick={() => setTarget(route.currentReceiveAmount ? formatAmount(route.currentReceiveAmount * 1.01) : "")}
+            disabled={!canAlert}
+            title={canAlert ? undefined : "Enter an amount to send first"}
+            className="flex items-center gap-1 text-[10px] font-bold text-[#00D9FF] hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            <BellPlus className="w-3 h-3" />
+            ALERT ON THIS ROUTE
+          </button>
+        )}
+      </div>
+
+      {target !== null && (
+        <div className="space-y-3 p-3 rounded-lg bg-[#050508] border border-[#00D9FF]/20">
+          <div className="text-[10px] text-white/50">
+            When {route.amount} {route.currency.toUpperCase()} on {route.network.toUpperCase()} yields at least
+            {route.currentReceiveAmount ? ` (now ${formatAmount(route.currentReceiveAmount)})` : ""}:
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              aria-label="Target payout"
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+              className="bg-[#0a0a0f] border-white/10 text-white h-8 text-xs rounded-lg font-mono"
+            />
+            <span className="text-xs text-white/60 shrink-0">
+              {route.toCurrency.toUpperCase()} on {route.toNetwork.toUpperCase()}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 text-[10px]">
+            <div className="space-y-1">
+              <div className="text-white/40 uppercase tracking-wider">Cooldown</div>
+              <div className="flex gap-1">
+                {COOLDOWNS.map(option => (
+                  <button
+                    key={option.minutes}
+                    type="button"
+                    onClick={() => setCooldownMinutes(option.minutes)}
+                    className={`flex-1 py-1 rounded border ${
+                      cooldownMinutes === option.minutes ? "border-[#00D9FF] text-[#00D9FF]" : "border-white/10 text-white/40"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="text-white/40 uppercase tracking-wider">Expires in</div>
+              <div className="flex gap-1">
+                {EXPIRIES.map(option => (
+                  <button
+                    key={option.days}
+                    type="button"
+                    onClick={() => setExpiryDays(option.days)}
+                    className={`flex-1 py-1 rounded border ${
+                      expiryDays === option.days ? "border-[#00D9FF] text-[#00D9FF]" : "border-white/10 text-white/40"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1 h-8 bg-[#00D9FF] text-black hover:bg-[#00D9FF]/80 text-[10px] font-bold"
+              disabled={!(parseFloat(target) > 0) || createMutation.isPending}
+              onClick={handleCreate}
+            >
+              CREATE ALERT
+            </Button>
+            <Button size="sm" variant="ghost" className="h-8 text-[10px] text-white/50" onClick={() => setTarget(null)}>
+              CANCEL
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {alerts?.length ? (
+        <div className="space-y-2">
+          {alerts.map(alert => {
+            const isExpired = new Date(alert.expiresAt).getTime() <= Date.now();
+            const status = isExpired ? "EXPIRED" : alert.isActive === 1 ? "WATCHING" : "PAUSED";
+            const statusColor = isExpired ? "text-gray-500" : alert.isActive === 1 ? "text-emerald-400" : "text-amber-400";
+            return (
+              <div key={alert.id} className="p-3 rounded-lg bg-[#050508] border border-white/5 space-y-1">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-white font-mono">
+                    {formatAmount(alert.amount)} {alert.fromCurrency.toUpperCase()} → ≥ {formatAmount(alert.targetReceiveAmount)}{" "}
+                    {alert.toCurrency.toUpperCase()}
+                  </span>
+                  <span className={`text-[10px] font-bold ${statusColor}`}>{status}</span>
+                </div>
+                <div className="text-[10px] text-white/40">
+                  {alert.fromNetwork.toUpperCase()} → {alert.toNetwork.toUpperCase()}
+                  {alert.lastReceiveAmount !== null && ` · last ${formatAmount(alert.lastReceiveAmount)}`}
+                  {alert.triggerCount > 0 && ` · hit ${alert.triggerCount}×`}
+                  {` · until ${new Date(alert.expiresAt).toLocaleDateString()}`}
+                </div>
+                {alert.lastError && <div className="text-[10px] text-red-400/70">{alert.lastError}</div>}
+                <div className="flex items-center gap-1">
+                  {!isExpired && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-[10px] text-white/50 hover:text-white"
+                      disabled={setActiveMutation.isPending}
+                      onClick={() => setActiveMutation.mutate({ id: alert.id, active: alert.isActive !== 1 })}
+                    >
+                      {alert.isActive === 1 ? <Pause className="w-3 h-3 mr-1" /> : <Play className="w-3 h-3 mr-1" />}
+                      {alert.isActive === 1 ? "Pause" : "Resume"}
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 ml-auto text-white/30 hover:text-red-400"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate({ id: alert.id })}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        target === null && <p className="text-xs text-white/40">No rate alerts.</p>
+      )}
+    </div>
+  );
+}
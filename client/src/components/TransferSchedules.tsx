@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { CalendarClock, History, Pause, Pencil, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { getScheduleStatusDisplay } from "@/lib/transferStatus";
+
+// Transfer a schedule creates - the bridge form's current values for a new one
+export type ScheduleDraft = {
+  recipientAddress: string;
+  extraId?: string | null;
+  amount: string;
+  direction: "send" | "receive";
+  currency: string;
+  network: string;
+  toCurrency?: string | null;
+  toNetwork?: string | null;
+  refundAddress?: string | null;
+  refundExtraId?: string | null;
+};
+
+type FormState = {
+  id: number | null; // null = new schedule
+  draft: ScheduleDraft;
+  label: string;
+  mode: "once" | "recurring";
+  runAt: string; // datetime-local value
+  recurrence: string;
+};
+
+const RECURRENCE_PRESETS = [
+  { label: "Daily 09:00", value: "0 9 * * *" },
+  { label: "Mondays 09:00", value: "0 9 * * 1" },
+  { label: "1st of month", value: "0 9 1 * *" },
+];
+
+// datetime-local wants local time without seconds or zone
+function toLocalInput(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function ScheduleRuns({ scheduleId }: { scheduleId: number }) {
+  const { data: runs, isLoading } = trpc.schedules.runs.useQuery({ id: scheduleId });
+
+  if (isLoading) return <p className="text-[10px] text-white/40">Loading runs…</p>;
+  if (!runs?.length) return <p className="text-[10px] text-white/40">No runs yet.</p>;
+
+  return (
+    <div className="space-y-1">
+      {runs.map(run => (
+        <div key={run.id} className="text-[10px] bg-[#0a0a0f] rounded px-2 py-1.5 border border-white/5">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-white/60">{new Date(run.scheduledFor).toLocaleString()}</span>
+            <span className={run.status === "created" ? "text-emerald-400" : "text-red-400"}>{run.status.toUpperCase()}</span>
+          </div>
+          {run.status === "created" ? (
+            <div className="text-white/40 font-mono truncate">
+              {run.txSignature} · {Number(run.depositAmount)} → {run.payinAddress}
+            </div>
+          ) : (
+            <div className="text-red-400/70">{run.error}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Scheduled and recurring transfers of the signed-in wallet. When a run is
+ * due the server creates the transfer and notifies the wallet with the
+ * deposit address to fund.
+ */
+export function TransferSchedules({ draft }: { draft: ScheduleDraft | null }) {
+  const [form, setForm] = useState<FormState | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data: schedules } = trpc.schedules.list.useQuery(undefined, { refetchInterval: 60000 });
+
+  const onSaved = () => {
+    setForm(null);
+    utils.schedules.list.invalidate();
+  };
+  const createMutation = trpc.schedules.create.useMutation({
+    onSuccess: schedule => {
+      toast.success(`Scheduled "${schedule.label}"`);
+      onSaved();
+    },
+    onError: error => toast.error(error.message),
+  });
+  const updateMutation = trpc.schedules.update.useMutation({
+    onSuccess: schedule => {
+      toast.success(`Updated "${schedule.label}"`);
+      onSaved();
+    },
+    onError: error => toast.error(error.message),
+  });
+  const pauseMutation = trpc.schedules.setPaused.useMutation({
+    onSuccess: () => utils.schedules.list.invalidate(),
+    onError: error => toast.error(error.message),
+  });
+  const removeMutation = trpc.schedules.remove.useMutation({
+    onSuccess: () => utils.schedules.list.invalidate(),
+    onError: error => toast.error(error.message),
+  });
+
+  const canScheduleDraft = !!draft && !!draft.recipientAddress.trim() && parseFloat(draft.amount) > 0;
+
+  const openNew = () => {
+    if (!draft) return;
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    setForm({ id: null, draft, label: "", mode: "recurring", runAt: toLocalInput(tomorrow), recurrence: "0 9 1 * *" });
+  };
+
+  const openEdit = (schedule: NonNullable<typeof schedules>[number]) => {
+    setForm({
+      id: schedule.id,
+      draft: {
+        recipientAddress: schedule.recipientAddress,
+        extraId: schedule.extraId,
+        amount: String(Number(schedule.amount)),
+        direction: schedule.direction === "receive" ? "receive" : "send",
+        currency: schedule.fromCurrency,
+        network: schedule.fromNetwork,
+        toCurrency: schedule.toCurrency,
+        toNetwork: schedule.toNetwork,
+        refundAddress: schedule.refundAddress,
+        refundExtraId: schedule.refundExtraId,
+      },
+      label: schedule.label,
+      mode: schedule.recurrence ? "recurring" : "once",
+      runAt: schedule.nextRunAt ? toLocalInput(new Date(schedule.nextRunAt)) : "",
+      recurrence: schedule.recurrence ?? "0 9 1 * *",
+    });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const payload = {
+      ...form.draft,
+      label: form.label,
+      recurrence: form.mode === "recurring" ? form.recurrence : null,
+      runAt: form.mode === "once" && form.runAt ? new Date(form.runAt) : null,
+    };
+    if (form.id === null) {
+      createMutation.mutate(payload);
+    } else {
+      updateMutation.mutate({ ...payload, id: form.id });
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-bold text-white" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+          Schedules
+        </h3>
+        {!form && (
+          <button
+            type="button"
+            onClick={openNew}
+            disabled={!canScheduleDraft}
+            title={canScheduleDraft ? undefined : "Enter a recipient and amount first"}
+            className="flex items-center gap-1 text-[10px] font-bold text-[#00D9FF] hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            <CalendarClock className="w-3 h-3" />
+            SCHEDULE THIS TRANSFER
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="space-y-3 p-3 rounded-lg bg-[#050508] border border-[#00D9FF]/20">
+          <div className="text-[10px] text-white/50 font-mono break-all">
+            {form.draft.currency.toUpperCase()} → {(form.draft.toCurrency || form.draft.currency).toUpperCase()} · to{" "}
+            {form.draft.recipientAddress}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Label (e.g. Payroll)"
+              value={form.label}
+              maxLength={64}
+              onChange={e => setForm({ ...form, label: e.target.value })}
+              className="bg-[#0a0a0f] border-white/10 text-white h-8 text-xs rounded-lg placeholder:text-white/20"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              aria-label="Amount"
+              value={form.draft.amount}
+              onChange={e => setForm({ ...form, draft: { ...form.draft, amount: e.target.value } })}
+              className="bg-[#0a0a0f] border-white/10 text-white h-8 text-xs rounded-lg font-mono"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(["recurring", "once"] as const).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setForm({ ...form, mode })}
+                className={`py-1.5 rounded-lg text-[10px] font-bold border transition-all ${
+                  form.mode === mode ? "border-[#00D9FF] text-[#00D9FF] bg-[#00D9FF]/10" : "border-white/10 text-white/40"
+                }`}
+              >
+                {mode === "recurring" ? "RECURRING" : "ONCE"}
+              </button>
+            ))}
+          </div>
+
+          {form.mode === "once" ? (
+            <Input
+              type="datetime-local"
+              aria-label="Run at"
+              value={form.runAt}
+              onChange={e => setForm({ ...form, runAt: e.target.value })}
+              className="bg-[#0a0a0f] border-white/10 text-white h-8 text-xs rounded-lg"
+            />
+          ) : (
+            <div className="space-y-2">
+              <Input
+                aria-label="Recurrence"
+                placeholder="minute hour day month weekday"
+                value={form.recurrence}
+                onChange={e => setForm({ ...form, recurrence: e.target.value })}
+                className="bg-[#0a0a0f] border-white/10 text-white h-8 text-xs rounded-lg font-mono"
+              />
+              <div className="flex flex-wrap gap-1">
+                {RECURRENCE_PRESETS.map(preset => (
+                  <button
+                    key={preset.value}
+                    type="button"
+                    onClick={() => setForm({ ...form, recurrence: preset.value })}
+                    className="px-2 py-0.5 rounded text-[10px] border border-white/10 text-white/50 hover:text-[#00D9FF] hover:border-[#00D9FF]/40"
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-white/30">Cron-style, in UTC. Runs at most once an hour.</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1 h-8 bg-[#00D9FF] text-black hover:bg-[#00D9FF]/80 text-[10px] font-bold"
+              disabled={!form.label.trim() || isSaving}
+              onClick={handleSave}
+            >
+              {form.id === null ? "CREATE SCHEDULE" : "SAVE CHANGES"}
+            </Button>
+            <Button size="sm" variant="ghost" className="h-8 text-[10px] text-white/50" onClick={() => setForm(null)}>
+              CANCEL
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {schedules?.length ? (
+        <div className="space-y-2">
+          {schedules.map(schedule => {
+            const display = getScheduleStatusDisplay(schedule.status);
+            return (
+              <div key={schedule.id} className="p-3 rounded-lg bg-[#050508] border border-white/5 space-y-2">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-white font-semibold truncate">{schedule.label}</span>
+                  <span className={`text-[10px] font-bold ${display.color}`}>{display.label}</span>
+                </div>
+                <div className="text-[10px] text-white/50 font-mono">
+                  {Number(schedule.amount)} {(schedule.direction === "receive" ? schedule.toCurrency : schedule.fromCurrency).toUpperCase()}
+                  {" · "}
+                  {schedule.fromCurrency.toUpperCase()} → {schedule.toCurrency.toUpperCase()} on {schedule.toNetwork.toUpperCase()}
+                </div>
+                <div className="text-[10px] text-white/40">
+                  {schedule.recurrence ? <span className="font-mono">{schedule.recurrence} UTC</span> : "Once"}
+                  {schedule.nextRunAt && schedule.status !== "completed" && (
+                    <> · next {new Date(schedule.nextRunAt).toLocaleString()}</>
+                  )}
+                  {schedule.consecutiveFailures > 0 && (
+                    <span className="text-red-400"> · {schedule.consecutiveFailures} failed in a row</span>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-1">
+                  {schedule.status !== "completed" && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-[10px] text-white/50 hover:text-white"
+                      disabled={pauseMutation.isPending}
+                      onClick={() => pauseMutation.mutate({ id: schedule.id, paused: schedule.status === "active" })}
+                    >
+                      {schedule.status === "active" ? <Pause className="w-3 h-3 mr-1" /> : <Play className="w-3 h-3 mr-1" />}
+                      {schedule.status === "active" ? "Pause" : "Resume"}
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-[10px] text-white/50 hover:text-white"
+                    onClick={() => openEdit(schedule)}
+                  >
+                    <Pencil className="w-3 h-3 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-[10px] text-white/50 hover:text-white"
+                    onClick={() => setExpanded(expanded === schedule.id ? null : schedule.id)}
+                  >
+                    <History className="w-3 h-3 mr-1" />
+                    Runs
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 ml-auto text-white/30 hover:text-red-400"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate({ id: schedule.id })}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                {expanded === schedule.id && <ScheduleRuns scheduleId={schedule.id} />}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        !form && <p className="text-xs text-white/40">No scheduled transfers.</p>
+      )}
+    </div>
+  );
+}
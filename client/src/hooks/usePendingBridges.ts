@@ -0,0 +1,95 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+/**
+ * Bridges whose deposit address was shown to the user, kept in localStorage
+ * so a closed tab doesn't lose the deposit address or the status tracking.
+ * Entries are dropped once dismissed after reaching a final status, or when
+ * they pass `expiresAt`.
+ */
+
+const STORAGE_KEY = "invsol.pendingBridges";
+// How long an unfinished bridge is kept around
+export const PENDING_BRIDGE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type PendingBridge = {
+  reference: string;
+  receiptToken?: string | null;
+  routingTransactionId: string;
+  payinAddress: string;
+  payinExtraId?: string | null;
+  amount: number;
+  currency: string;
+  network: string;
+  receiveAmount?: number;
+  toCurrency?: string;
+  toNetwork?: string;
+  isSwap?: boolean;
+  createdAt: number;
+  expiresAt: number;
+  status?: string; // Last status seen while polling
+};
+
+const EMPTY: PendingBridge[] = [];
+const listeners = new Set<() => void>();
+let cache: PendingBridge[] | null = null;
+
+function read(): PendingBridge[] {
+  if (cache) return cache;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    const now = Date.now();
+    cache = Array.isArray(parsed) ? parsed.filter((b: PendingBridge) => b?.reference && b.expiresAt > now) : [];
+  } catch {
+    cache = [];
+  }
+  return cache;
+}
+
+function write(bridges: PendingBridge[]) {
+  cache = bridges;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bridges));
+  } catch {
+    // Storage full or disabled - keep the in-memory copy for this tab
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  // Keep other tabs in sync
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function usePendingBridges() {
+  const bridges = useSyncExternalStore(subscribe, read, () => EMPTY);
+
+  const addBridge = useCallback((bridge: Omit<PendingBridge, "createdAt" | "expiresAt">) => {
+    const createdAt = Date.now();
+    const others = read().filter(b => b.reference !== bridge.reference);
+    write([{ ...bridge, createdAt, expiresAt: createdAt + PENDING_BRIDGE_TTL_MS }, ...others]);
+  }, []);
+
+  const updateStatus = useCallback((reference: string, status: string) => {
+    const current = read();
+    if (!current.some(b => b.reference === reference && b.status !== status)) return;
+    write(current.map(b => (b.reference === reference ? { ...b, status } : b)));
+  }, []);
+
+  const removeBridge = useCallback((reference: string) => {
+    write(read().filter(b => b.reference !== reference));
+  }, []);
+
+  return { bridges, addBridge, updateStatus, removeBridge };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react";
+import bs58 from "bs58";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * Sign-in-with-Solana session for the connected wallet.
+ * `isSignedIn` is only true when the server session belongs to the wallet
+ * that is currently connected.
+ */
+export function useWalletAuth() {
+  const { publicKey, signMessage } = useWallet();
+  const utils = trpc.useUtils();
+  const [signingIn, setSigningIn] = useState(false);
+
+  const meQuery = trpc.auth.me.useQuery(undefined, {
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const nonceMutation = trpc.auth.nonce.useMutation();
+  const verifyMutation = trpc.auth.verify.useMutation();
+  const logoutMutation = trpc.auth.logout.useMutation({
+    onSuccess: () => utils.auth.me.setData(undefined, null),
+  });
+
+  const walletAddress = publicKey?.toBase58() ?? null;
+  const session = meQuery.data ?? null;
+  const isSignedIn = !!session && session.publicKey === walletAddress;
+
+  const signIn = useCallback(async () => {
+    if (!walletAddress) throw new Error("Connect a wallet first");
+    if (!signMessage) throw new Error("This wallet does not support message signing");
+
+    setSigningIn(true);
+    try {
+      const { nonce, message } = await nonceMutation.mutateAsync({ publicKey: walletAddress });
+      const signature = await signMessage(new TextEncoder().encode(message));
+      await verifyMutation.mutateAsync({
+        publicKey: walletAddress,
+        nonce,
+        signature: bs58.encode(signature),
+      });
+      await utils.auth.me.invalidate();
+    } finally {
+      setSigningIn(false);
+    }
+  }, [walletAddress, signMessage, nonceMutation, verifyMutation, utils]);
+
+  const signOut = useCallback(async () => {
+    await logoutMutation.mutateAsync();
+  }, [logoutMutation]);
+
+  // Drop a session that belongs to a different wallet than the one connected
+  useEffect(() => {
+    if (session && walletAddress && session.publicKey !== walletAddress) {
+      logoutMutation.mutate();
+    }
+  }, [session?.publicKey, walletAddress]);
+
+  return {
+    session,
+    isSignedIn,
+    signingIn,
+    signIn,
+    signOut,
+    loading: meQuery.isLoading,
+  };
+}
@@ -0,0 +1,69 @@
+// Display helpers shared by the bridge view and the receipt page
+
+export function isFinalStatus(status?: string): boolean {
+  return status === "finished" || status === "failed" || status === "refunded" || status === "expired" || status === "confirmed";
+}
+
+// Shareable receipt link for a transfer reference
+export function receiptPath(reference: string, token?: string | null): string {
+  return token ? `/tx/${reference}?t=${encodeURIComponent(token)}` : `/tx/${reference}`;
+}
+
+export function getStatusDisplay(status?: string): { label: string; progress: number; color: string } {
+  switch (status) {
+    case "waiting":
+      return { label: "AWAITING DEPOSIT", progress: 10, color: "text-amber-400" };
+    case "confirming":
+      return { label: "VERIFYING", progress: 30, color: "text-amber-400" };
+    case "exchanging":
+      return { label: "BRIDGING", progress: 50, color: "text-cyan-400" };
+    case "sending":
+      return { label: "DELIVERING", progress: 75, color: "text-cyan-400" };
+    case "finished":
+      return { label: "DELIVERED", progress: 100, color: "text-emerald-400" };
+    case "failed":
+      return { label: "FAILED", progress: 0, color: "text-red-400" };
+    case "refunded":
+      return { label: "RETURNED", progress: 0, color: "text-orange-400" };
+    case "expired":
+      return { label: "EXPIRED", progress: 0, color: "text-gray-500" };
+    default:
+      return { label: "INITIALIZING", progress: 5, color: "text-gray-400" };
+  }
+}
+
+// Aggregate status of a batch order (see server/_core/batchOrders.ts)
+export function isFinalBatchStatus(status?: string): boolean {
+  return status === "finished" || status === "partially_finished" || status === "failed";
+}
+
+export function getBatchStatusDisplay(status?: string): { label: string; color: string } {
+  switch (status) {
+    case "awaiting_deposit":
+      return { label: "AWAITING DEPOSITS", color: "text-amber-400" };
+    case "processing":
+      return { label: "PROCESSING", color: "text-cyan-400" };
+    case "finished":
+      return { label: "ALL DELIVERED", color: "text-emerald-400" };
+    case "partially_finished":
+      return { label: "PARTIALLY DELIVERED", color: "text-orange-400" };
+    case "failed":
+      return { label: "FAILED", color: "text-red-400" };
+    default:
+      return { label: "INITIALIZING", color: "text-gray-400" };
+  }
+}
+
+// Status of a transfer schedule (see server/_core/transferScheduler.ts)
+export function getScheduleStatusDisplay(status?: string): { label: string; color: string } {
+  switch (status) {
+    case "active":
+      return { label: "ACTIVE", color: "text-emerald-400" };
+    case "paused":
+      return { label: "PAUSED", color: "text-amber-400" };
+    case "completed":
+      return { label: "COMPLETED", color: "text-gray-400" };
+    default:
+      return { label: "UNKNOWN", color: "text-gray-500" };
+  }
+}
@@ -5,27 +5,27 @@ import { httpBatchLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
-import { getLoginUrl } from "./const";
 import { WalletProvider } from "./components/WalletProvider";
 import "./index.css";
 
 const queryClient = new QueryClient();
 
-const redirectToLoginIfUnauthorized = (error: unknown) => {
+// A rejected session means the cookie expired or was cleared - refresh
+// auth.me so the header falls back to the SIGN IN prompt
+const refreshSessionIfUnauthorized = (error: unknown) => {
   if (!(error instanceof TRPCClientError)) return;
-  if (typeof window === "undefined") return;
 
   const isUnauthorized = error.message === UNAUTHED_ERR_MSG;
 
   if (!isUnauthorized) return;
 
-  window.location.href = getLoginUrl();
+  void queryClient.invalidateQueries({ queryKey: [["auth", "me"]] });
 };
 
 queryClient.getQueryCache().subscribe(event => {
   if (event.type === "updated" && event.action.type === "error") {
     const error = event.query.state.error;
-    redirectToLoginIfUnauthorized(error);
+    refreshSessionIfUnauthorized(error);
     console.error("[API Query Error]", error);
   }
 });
@@ -33,7 +33,7 @@ queryClient.getQueryCache().subscribe(event => {
 queryClient.getMutationCache().subscribe(event => {
   if (event.type === "updated" && event.action.type === "error") {
     const error = event.mutation.state.error;
-    redirectToLoginIfUnauthorized(error);
+    refreshSessionIfUnauthorized(error);
     console.error("[API Mutation Error]", error);
   }
 });
@@ -0,0 +1,1044 @@
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useLocation } from "wouter";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useWalletModal } from "@solana/wallet-adapter-react-ui";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Activity, AlertTriangle, BarChart3, Coins, List, Server } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useWalletAuth } from "@/hooks/useWalletAuth";
+import { trpc } from "@/lib/trpc";
+import { APP_LOGO } from "@/const";
+
+type Section = "overview" | "transactions" | "stuck" | "providers" | "currencies";
+
+const SECTIONS: { id: Section; label: string; icon: typeof Activity }[] = [
+  { id: "overview", label: "Overview", icon: BarChart3 },
+  { id: "transactions", label: "Transactions", icon: List },
+  { id: "stuck", label: "Stuck", icon: AlertTriangle },
+  { id: "providers", label: "Providers", icon: Server },
+  { id: "currencies", label: "Currencies", icon: Coins },
+];
+
+const STATUSES = [
+  "pending",
+  "waiting",
+  "confirming",
+  "exchanging",
+  "sending",
+  "finished",
+  "confirmed",
+  "failed",
+  "refunded",
+  "expired",
+] as const;
+
+type Status = (typeof STATUSES)[number];
+
+const RESOLVE_STATUSES = ["finished", "confirmed", "failed", "refunded", "expired"] as const;
+
+const STATUS_COLORS: Record<Status, string> = {
+  pending: "#9ca3af",
+  waiting: "#fbbf24",
+  confirming: "#f59e0b",
+  exchanging: "#22d3ee",
+  sending: "#06b6d4",
+  finished: "#34d399",
+  confirmed: "#10b981",
+  failed: "#f87171",
+  refunded: "#fb923c",
+  expired: "#6b7280",
+};
+
+const PAGE_SIZE = 25;
+const CURRENCY_ROWS_SHOWN = 100;
+
+const volumeChartConfig = {
+  count: { label: "Transfers", color: "#00D9FF" },
+} satisfies ChartConfig;
+
+const statusChartConfig = Object.fromEntries(
+  STATUSES.map(status => [status, { label: status, color: STATUS_COLORS[status] }])
+) satisfies ChartConfig;
+
+function shortKey(value: string | null | undefined) {
+  if (!value) return "—";
+  return value.length > 14 ? `${value.slice(0, 6)}…${value.slice(-6)}` : value;
+}
+
+function formatDate(value: Date | string | null | undefined) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString();
+}
+
+function formatAge(value: Date | string) {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 1440)}d`;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const color = STATUS_COLORS[status as Status] ?? "#9ca3af";
+  return (
+    <Badge variant="outline" className="font-mono text-[11px]" style={{ borderColor: color, color }}>
+      {status}
+    </Badge>
+  );
+}
+
+function AdminGate({ children }: { children: React.ReactNode }) {
+  const [, setLocation] = useLocation();
+  const { connected, connecting } = useWallet();
+  const { setVisible: setWalletModalVisible } = useWalletModal();
+  const walletAuth = useWalletAuth();
+  const adminQuery = trpc.admin.me.useQuery(undefined, {
+    enabled: walletAuth.isSignedIn,
+    retry: false,
+  });
+
+  const handleSignIn = async () => {
+    try {
+      await walletAuth.signIn();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Sign in failed");
+    }
+  };
+
+  let body: React.ReactNode = null;
+  if (!connected) {
+    body = (
+      <Button onClick={() => setWalletModalVisible(true)} disabled={connecting}>
+        {connecting ? "Connecting…" : "Connect admin wallet"}
+      </Button>
+    );
+  } else if (!walletAuth.isSignedIn) {
+    body = (
+      <Button onClick={handleSignIn} disabled={walletAuth.signingIn || walletAuth.loading}>
+        {walletAuth.signingIn ? "Waiting for signature…" : "Sign in with wallet"}
+      </Button>
+    );
+  } else if (adminQuery.isLoading) {
+    body = <p className="text-sm text-muted-foreground">Checking access…</p>;
+  } else if (!adminQuery.data?.isAdmin) {
+    body = (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">This wallet is not an admin.</p>
+        <Button variant="outline" onClick={() => setLocation("/")}>
+          Back to app
+        </Button>
+      </div>
+    );
+  }
+
+  if (body) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <Card className="w-full max-w-sm text-center">
+          <CardHeader>
+            <div className="flex justify-center mb-2">
+              <img src={APP_LOGO} alt="INVSOL" className="w-12 h-12 rounded-xl" />
+            </div>
+            <CardTitle>Admin Console</CardTitle>
+            <CardDescription>Sign in with an admin wallet to continue</CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center">{body}</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+function Overview() {
+  const [days, setDays] = useState(30);
+  const { data: stats, isLoading } = trpc.admin.stats.useQuery({ days });
+
+  const volumeData = useMemo(
+    () =>
+      (stats?.volume ?? []).map(row => ({
+        route: `${(row.currency ?? "?").toUpperCase()} / ${row.network ?? "?"}`,
+        count: row.count,
+        volume: Number(row.volume),
+      })),
+    [stats]
+  );
+  const statusData = useMemo(
+    () =>
+      (stats?.statusCounts ?? []).map(row => ({
+        status: row.status,
+        count: row.count,
+        fill: STATUS_COLORS[row.status],
+      })),
+    [stats]
+  );
+  const total = statusData.reduce((sum, row) => sum + row.count, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Overview</h2>
+        <Select value={String(days)} onValueChange={value => setDays(Number(value))}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">Last 24 hours</SelectItem>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardDescription>Transactions</CardDescription>
+            <CardTitle className="text-2xl">{isLoading ? "…" : total}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>Stuck</CardDescription>
+            <CardTitle className="text-2xl">{isLoading ? "…" : stats?.stuck.length ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>Providers</CardDescription>
+            <CardTitle className="text-2xl">{isLoading ? "…" : stats?.providers.length ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Volume by currency / network</CardTitle>
+            <CardDescription>Transfers by deposit currency</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {volumeData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transfers in this period.</p>
+            ) : (
+              <>
+                <ChartContainer config={volumeChartConfig} className="h-64 w-full">
+                  <BarChart data={volumeData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="route" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <Table className="mt-4">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Route</TableHead>
+                      <TableHead className="text-right">Transfers</TableHead>
+                      <TableHead className="text-right">Deposit volume</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {volumeData.map(row => (
+                      <TableRow key={row.route}>
+                        <TableCell>{row.route}</TableCell>
+                        <TableCell className="text-right">{row.count}</TableCell>
+                        <TableCell className="text-right font-mono">{row.volume.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Status breakdown</CardTitle>
+            <CardDescription>All transaction types</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statusData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions in this period.</p>
+            ) : (
+              <ChartContainer config={statusChartConfig} className="h-72 w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="status" hideLabel />} />
+                  <Pie data={statusData} dataKey="count" nameKey="status" innerRadius={50}>
+                    {statusData.map(row => (
+                      <Cell key={row.status} fill={row.fill} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="status" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function TransactionsSection({ onSelect }: { onSelect: (txSignature: string) => void }) {
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<Status | "all">("all");
+  const [page, setPage] = useState(0);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(query.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isLoading } = trpc.admin.transactions.useQuery({
+    query: search || undefined,
+    status: status === "all" ? undefined : status,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  });
+
+  const pageCount = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+  const pages = Array.from({ length: pageCount }, (_, i) => i).filter(i => Math.abs(i - page) <= 2);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Transactions</h2>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          placeholder="Reference, wallet, address, hash or routing ID"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <Select
+          value={status}
+          onValueChange={value => {
+            setStatus(value as Status | "all");
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {STATUSES.map(s => (
+              <SelectItem key={s} value={s}>
+                {s}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Route</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Wallet</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-muted-foreground">Loading…</TableCell>
+                </TableRow>
+              )}
+              {data?.items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-muted-foreground">No transactions found.</TableCell>
+                </TableRow>
+              )}
+              {data?.items.map(row => (
+                <TableRow
+                  key={row.transaction.id}
+                  className="cursor-pointer"
+                  onClick={() => onSelect(row.transaction.txSignature)}
+                >
+                  <TableCell className="font-mono text-xs">{shortKey(row.transaction.txSignature)}</TableCell>
+                  <TableCell>{row.transaction.type}</TableCell>
+                  <TableCell className="text-xs">
+                    {row.transaction.fromCurrency
+                      ? `${row.transaction.fromCurrency.toUpperCase()} → ${row.transaction.toCurrency?.toUpperCase()}`
+                      : "—"}
+                    {row.provider && <span className="text-muted-foreground"> · {row.provider}</span>}
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={row.transaction.status} />
+                    {row.transaction.resolvedAt && <Badge variant="secondary" className="ml-1">resolved</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{shortKey(row.walletPublicKey)}</TableCell>
+                  <TableCell className="text-xs">{formatDate(row.transaction.createdAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={e => {
+                  e.preventDefault();
+                  setPage(p => Math.max(0, p - 1));
+                }}
+              />
+            </PaginationItem>
+            {pages.map(i => (
+              <PaginationItem key={i}>
+                <PaginationLink
+                  href="#"
+                  isActive={i === page}
+                  onClick={e => {
+                    e.preventDefault();
+                    setPage(i);
+                  }}
+                >
+                  {i + 1}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={e => {
+                  e.preventDefault();
+                  setPage(p => Math.min(pageCount - 1, p + 1));
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
+
+function StuckSection({ onSelect }: { onSelect: (txSignature: string) => void }) {
+  const [stuckAfterMinutes, setStuckAfterMinutes] = useState(120);
+  const { data: stats, isLoading } = trpc.admin.stats.useQuery({ stuckAfterMinutes });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Stuck transactions</h2>
+          <p className="text-sm text-muted-foreground">Open, unresolved and unchanged for a while</p>
+        </div>
+        <Select value={String(stuckAfterMinutes)} onValueChange={value => setStuckAfterMinutes(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Idle 30+ min</SelectItem>
+            <SelectItem value="120">Idle 2+ hours</SelectItem>
+            <SelectItem value="720">Idle 12+ hours</SelectItem>
+            <SelectItem value="1440">Idle 1+ day</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Provider status</TableHead>
+                <TableHead>Checks</TableHead>
+                <TableHead>Last checked</TableHead>
+                <TableHead>Idle</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-muted-foreground">Loading…</TableCell>
+                </TableRow>
+              )}
+              {stats?.stuck.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-muted-foreground">Nothing stuck.</TableCell>
+                </TableRow>
+              )}
+              {stats?.stuck.map(row => (
+                <TableRow
+                  key={row.transaction.id}
+                  className="cursor-pointer"
+                  onClick={() => onSelect(row.transaction.txSignature)}
+                >
+                  <TableCell className="font-mono text-xs">{shortKey(row.transaction.txSignature)}</TableCell>
+                  <TableCell><StatusBadge status={row.transaction.status} /></TableCell>
+                  <TableCell className="text-xs">
+                    {row.routingStatus ?? "—"}
+                    {row.provider && <span className="text-muted-foreground"> · {row.provider}</span>}
+                  </TableCell>
+                  <TableCell>{row.checkAttempts ?? "—"}</TableCell>
+                  <TableCell className="text-xs">{formatDate(row.lastCheckedAt)}</TableCell>
+                  <TableCell>{formatAge(row.transaction.updatedAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ProvidersSection() {
+  const { data: stats } = trpc.admin.stats.useQuery({ days: 30 });
+  const { data: queue } = trpc.admin.queueHealth.useQuery(undefined, { refetchInterval: 5000 });
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Providers</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outcomes (last 30 days)</CardTitle>
+          <CardDescription>Error rate = failed or refunded routes out of settled routes</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead className="text-right">Routes</TableHead>
+                <TableHead className="text-right">Finished</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+                <TableHead className="text-right">Refunded</TableHead>
+                <TableHead className="text-right">Expired</TableHead>
+                <TableHead className="text-right">Open</TableHead>
+                <TableHead className="text-right">Error rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats?.providers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-muted-foreground">No routed transfers yet.</TableCell>
+                </TableRow>
+              )}
+              {stats?.providers.map(p => (
+                <TableRow key={p.provider}>
+                  <TableCell>{p.provider}</TableCell>
+                  <TableCell className="text-right">{p.total}</TableCell>
+                  <TableCell className="text-right">{p.finished}</TableCell>
+                  <TableCell className="text-right">{p.failed}</TableCell>
+                  <TableCell className="text-right">{p.refunded}</TableCell>
+                  <TableCell className="text-right">{p.expired}</TableCell>
+                  <TableCell className="text-right">{p.open}</TableCell>
+                  <TableCell className={`text-right font-mono ${p.errorRate > 0.05 ? "text-red-400" : ""}`}>
+                    {(p.errorRate * 100).toFixed(1)}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>API queue</CardTitle>
+          <CardDescription>Provider calls on the instance serving this page</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {queue && (
+            <div className="grid gap-4 text-sm sm:grid-cols-3">
+              <div>
+                <div className="text-muted-foreground">Queued</div>
+                <div className="text-xl font-semibold">{queue.queueLength}</div>
+                <div className="text-xs text-muted-foreground">
+                  {Object.entries(queue.byType).map(([type, n]) => `${type}: ${n}`).join(", ") || "idle"}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Completed / failed</div>
+                <div className="text-xl font-semibold">{queue.completed} / {queue.failed}</div>
+                <div className="text-xs text-muted-foreground">
+                  avg wait {queue.averageWaitMs}ms · oldest {queue.oldestWaitMs}ms
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Last error</div>
+                <div className="text-xs break-words">
+                  {queue.lastError
+                    ? `${queue.lastError.type}: ${queue.lastError.message} (${formatDate(queue.lastError.at)})`
+                    : "—"}
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CurrenciesSection() {
+  const utils = trpc.useUtils();
+  const { data: catalog, isLoading } = trpc.admin.currencies.useQuery();
+  const [filter, setFilter] = useState("");
+  const [enabledOnly, setEnabledOnly] = useState(false);
+
+  const update = trpc.admin.updateCurrency.useMutation({
+    onSuccess: () => {
+      utils.admin.currencies.invalidate();
+      utils.transaction.getSupportedCurrencies.invalidate();
+    },
+    onError: error => toast.error(error.message),
+  });
+  const sync = trpc.admin.syncCurrencies.useMutation({
+    onSuccess: result => {
+      toast.success(`Synced ${result.synced} currencies from ${result.provider}`);
+      utils.admin.currencies.invalidate();
+    },
+    onError: error => toast.error(error.message),
+  });
+
+  const rows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return (catalog ?? []).filter(
+      row =>
+        (!enabledOnly || row.isEnabled === 1) &&
+        (!needle || row.ticker.includes(needle) || row.network.includes(needle) || row.name.toLowerCase().includes(needle))
+    );
+  }, [catalog, filter, enabledOnly]);
+
+  // Number inputs save on blur; empty clears the value where allowed
+  const saveNumber = (id: number, field: "displayOrder" | "decimals", value: string, current: number | null) => {
+    const parsed = value.trim() === "" ? null : Number(value);
+    if (parsed === current || (parsed !== null && !Number.isInteger(parsed))) return;
+    if (field === "displayOrder") {
+      if (parsed !== null) update.mutate({ id, displayOrder: parsed });
+    } else {
+      update.mutate({ id, decimals: parsed });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Currencies</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <Input placeholder="Filter ticker, network or name" value={filter} onChange={e => setFilter(e.target.value)} className="w-64" />
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={enabledOnly} onCheckedChange={setEnabledOnly} />
+            Enabled only
+          </label>
+          <Button variant="outline" onClick={() => sync.mutate()} disabled={sync.isPending}>
+            {sync.isPending ? "Syncing…" : "Sync now"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Catalog</CardTitle>
+          <CardDescription>
+            Synced from the exchange provider. Only enabled rows are offered, lowest order first. With no enabled rows
+            the built-in currency list is used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead>Network</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Decimals</TableHead>
+                <TableHead>Icon URL</TableHead>
+                <TableHead>Last synced</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-muted-foreground">Loading…</TableCell>
+                </TableRow>
+              )}
+              {!isLoading && rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-muted-foreground">
+                    {catalog?.length ? "No currencies match." : "Catalog is empty - run a sync."}
+                  </TableCell>
+                </TableRow>
+              )}
+              {rows.slice(0, CURRENCY_ROWS_SHOWN).map(row => (
+                <TableRow key={`${row.id}:${String(row.updatedAt)}`}>
+                  <TableCell>
+                    <Switch
+                      checked={row.isEnabled === 1}
+                      onCheckedChange={checked => update.mutate({ id: row.id, isEnabled: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {(row.icon ?? row.providerImage) && (
+                        <img src={row.icon ?? row.providerImage ?? ""} alt="" className="h-5 w-5 rounded-full" />
+                      )}
+                      <span className="font-mono uppercase">{row.ticker}</span>
+                      <span className="text-muted-foreground text-xs">{row.name}</span>
+                      {row.hasExtraId === 1 && <Badge variant="outline">memo</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{row.network}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      defaultValue={row.displayOrder}
+                      onBlur={e => saveNumber(row.id, "displayOrder", e.target.value, row.displayOrder)}
+                      className="h-8 w-20"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      defaultValue={row.decimals ?? ""}
+                      onBlur={e => saveNumber(row.id, "decimals", e.target.value, row.decimals)}
+                      className="h-8 w-16"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      defaultValue={row.icon ?? ""}
+                      placeholder="Provider icon"
+                      onBlur={e => {
+                        const icon = e.target.value.trim() || null;
+                        if (icon !== row.icon) update.mutate({ id: row.id, icon });
+                      }}
+                      className="h-8 w-56"
+                    />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{formatDate(row.lastSyncedAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rows.length > CURRENCY_ROWS_SHOWN && (
+            <p className="px-4 py-3 text-xs text-muted-foreground">
+              Showing {CURRENCY_ROWS_SHOWN} of {rows.length} - narrow the filter to see more.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function TransactionDetail({ txSignature, onClose }: { txSignature: string | null; onClose: () => void }) {
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.admin.transaction.useQuery(
+    { txSignature: txSignature ?? "" },
+    { enabled: !!txSignature }
+  );
+  const [note, setNote] = useState("");
+  const [resolveStatus, setResolveStatus] = useState<(typeof RESOLVE_STATUSES)[number] | "keep">("keep");
+
+  useEffect(() => {
+    setNote(data?.transaction.adminNote ?? "");
+    setResolveStatus("keep");
+  }, [data?.transaction.txSignature, data?.transaction.adminNote]);
+
+  const refresh = () => {
+    void utils.admin.transaction.invalidate();
+    void utils.admin.transactions.invalidate();
+    void utils.admin.stats.invalidate();
+  };
+
+  const resync = trpc.admin.resync.useMutation({
+    onSuccess: result => {
+      toast.success(`Provider status: ${result.routingStatus}`);
+      refresh();
+    },
+    onError: error => toast.error(error.message),
+  });
+  const annotate = trpc.admin.annotate.useMutation({
+    onSuccess: () => {
+      toast.success("Note saved");
+      refresh();
+    },
+    onError: error => toast.error(error.message),
+  });
+  const resolve = trpc.admin.resolve.useMutation({
+    onSuccess: () => {
+      toast.success("Marked as resolved");
+      refresh();
+    },
+    onError: error => toast.error(error.message),
+  });
+
+  const tx = data?.transaction;
+
+  return (
+    <Sheet open={!!txSignature} onOpenChange={open => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-mono text-sm break-all">{txSignature}</SheetTitle>
+          <SheetDescription>
+            {tx ? `${tx.type} · created ${formatDate(tx.createdAt)}` : isLoading ? "Loading…" : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        {tx && (
+          <div className="space-y-6 px-4 pb-6 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <StatusBadge status={tx.status} />
+              {tx.resolvedAt && (
+                <Badge variant="secondary">resolved by {shortKey(tx.resolvedBy)}</Badge>
+              )}
+            </div>
+
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+              <dt className="text-muted-foreground">Route</dt>
+              <dd>
+                {tx.fromCurrency
+                  ? `${tx.amount} ${tx.fromCurrency.toUpperCase()} (${tx.fromNetwork}) → ${tx.quotedReceiveAmount ?? "?"} ${tx.toCurrency?.toUpperCase()} (${tx.toNetwork})`
+                  : `${tx.amountSol ?? tx.amount} SOL`}
+              </dd>
+              <dt className="text-muted-foreground">Provider</dt>
+              <dd>
+                {data.routing ? `${data.routing.provider} · ${data.routing.routingTransactionId}` : "—"}
+              </dd>
+              <dt className="text-muted-foreground">Provider status</dt>
+              <dd>{data.routing?.routingStatus ?? "—"} (checked {formatDate(data.routing?.lastCheckedAt)})</dd>
+              <dt className="text-muted-foreground">Recipient</dt>
+              <dd className="font-mono break-all">{tx.recipientPublicKey ?? "—"}</dd>
+              <dt className="text-muted-foreground">Deposit address</dt>
+              <dd className="font-mono break-all">{tx.payinAddress ?? "—"}</dd>
+              <dt className="text-muted-foreground">Payin hash</dt>
+              <dd className="font-mono break-all">{tx.payinHash ?? "—"}</dd>
+              <dt className="text-muted-foreground">Payout hash</dt>
+              <dd className="font-mono break-all">{tx.payoutHash ?? "—"}</dd>
+              {tx.errorMessage && (
+                <>
+                  <dt className="text-muted-foreground">Error</dt>
+                  <dd className="text-red-400">{tx.errorMessage}</dd>
+                </>
+              )}
+            </dl>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!data.routing || resync.isPending}
+                onClick={() => resync.mutate({ txSignature: tx.txSignature })}
+              >
+                {resync.isPending ? "Checking…" : "Force re-sync"}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Status history</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Source</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.history.map(h => (
+                    <TableRow key={h.id}>
+                      <TableCell className="text-xs">{formatDate(h.createdAt)}</TableCell>
+                      <TableCell className="text-xs">
+                        {h.fromStatus ?? "∅"} → {h.toStatus}
+                        {h.detail && <div className="text-muted-foreground">{h.detail}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs">{h.source}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Support note</h3>
+              <Textarea value={note} onChange={e => setNote(e.target.value)} rows={3} maxLength={2000} />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={annotate.isPending || note === (tx.adminNote ?? "")}
+                onClick={() => annotate.mutate({ txSignature: tx.txSignature, note })}
+              >
+                Save note
+              </Button>
+            </div>
+
+            {!tx.resolvedAt && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Resolve manually</h3>
+                <div className="flex gap-2">
+                  <Select value={resolveStatus} onValueChange={value => setResolveStatus(value as typeof resolveStatus)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="keep">Keep status</SelectItem>
+                      {RESOLVE_STATUSES.map(s => (
+                        <SelectItem key={s} value={s}>
+                          Set {s}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    disabled={resolve.isPending}
+                    onClick={() =>
+                      resolve.mutate({
+                        txSignature: tx.txSignature,
+                        status: resolveStatus === "keep" ? undefined : resolveStatus,
+                      })
+                    }
+                  >
+                    Mark resolved
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {data.audit.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Admin actions</h3>
+                <ul className="space-y-1 text-xs">
+                  {data.audit.map(entry => (
+                    <li key={entry.id}>
+                      <span className="text-muted-foreground">{formatDate(entry.createdAt)}</span>{" "}
+                      {entry.action} by <span className="font-mono">{shortKey(entry.adminPublicKey)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export default function Admin() {
+  const [, setLocation] = useLocation();
+  const [section, setSection] = useState<Section>("overview");
+  const [selected, setSelected] = useState<string | null>(null);
+
+  return (
+    <AdminGate>
+      <SidebarProvider>
+        <Sidebar>
+          <SidebarHeader>
+            <button onClick={() => setLocation("/")} className="flex items-center gap-2 px-2 py-1">
+              <img src={APP_LOGO} alt="INVSOL" className="w-7 h-7 rounded-md" />
+              <span className="font-semibold tracking-widest">INVSOL</span>
+              <Badge variant="outline" className="ml-auto">admin</Badge>
+            </button>
+          </SidebarHeader>
+          <SidebarContent>
+            <SidebarGroup>
+              <SidebarGroupLabel>Console</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {SECTIONS.map(item => (
+                    <SidebarMenuItem key={item.id}>
+                      <SidebarMenuButton isActive={section === item.id} onClick={() => setSection(item.id)}>
+                        <item.icon />
+                        <span>{item.label}</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </SidebarContent>
+        </Sidebar>
+
+        <SidebarInset>
+          <header className="flex h-12 items-center gap-2 border-b px-4">
+            <SidebarTrigger />
+            <span className="text-sm text-muted-foreground">
+              {SECTIONS.find(s => s.id === section)?.label}
+            </span>
+          </header>
+          <div className="p-4 md:p-6">
+            {section === "overview" && <Overview />}
+            {section === "transactions" && <TransactionsSection onSelect={setSelected} />}
+            {section === "stuck" && <StuckSection onSelect={setSelected} />}
+            {section === "providers" && <ProvidersSection />}
+            {section === "currencies" && <CurrenciesSection />}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+
+      <TransactionDetail txSignature={selected} onClose={() => setSelected(null)} />
+    </AdminGate>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo, useCallback } from "react";
+import { useEffect, useState, useMemo, useCallback, useRef } from "react";
 import { toast } from "sonner";
 import { useLocation } from "wouter";
 import { useWallet } from "@solana/wallet-adapter-react";
@@ -17,61 +17,85 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
 import { COMMUNITY_URL, APP_LOGO } from "@/const";
+import { AMOUNT_ABOVE_MAXIMUM, AMOUNT_BELOW_MINIMUM } from "@shared/const";
 import { QRCodeSVG } from "qrcode.react";
 import { TokenGate, useTokenGateStatus } from "@/components/TokenGate";
-
-function getStatusDisplay(status?: string): { label: string; progress: number; color: string } {
-  switch (status) {
-    case "waiting":
-      return { label: "AWAITING DEPOSIT", progress: 10, color: "text-amber-400" };
-    case "confirming":
-      return { label: "VERIFYING", progress: 30, color: "text-amber-400" };
-    case "exchanging":
-      return { label: "BRIDGING", progress: 50, color: "text-cyan-400" };
-    case "sending":
-      return { label: "DELIVERING", progress: 75, color: "text-cyan-400" };
-    case "finished":
-      return { label: "DELIVERED", progress: 100, color: "text-emerald-400" };
-    case "failed":
-      return { label: "FAILED", progress: 0, color: "text-red-400" };
-    case "refunded":
-      return { label: "RETURNED", progress: 0, color: "text-orange-400" };
-    case "expired":
-      return { label: "EXPIRED", progress: 0, color: "text-gray-500" };
-    default:
-      return { label: "INITIALIZING", progress: 5, color: "text-gray-400" };
-  }
-}
+import { AddressBookPicker, type AddressBookRecipient } from "@/components/AddressBookPicker";
+import { BatchOrder } from "@/components/BatchOrder";
+import { NotificationBell } from "@/components/NotificationBell";
+import { PendingBridges } from "@/components/PendingBridges";
+import { RateAlerts } from "@/components/RateAlerts";
+import { TransferSchedules } from "@/components/TransferSchedules";
+import { useWalletAuth } from "@/hooks/useWalletAuth";
+import { usePendingBridges, type PendingBridge } from "@/hooks/usePendingBridges";
+import { getStatusDisplay, receiptPath } from "@/lib/transferStatus";
 
 export default function Home() {
   const [, setLocation] = useLocation();
   const [view, setView] = useState<"home" | "bridge">("home");
   const [transferRecipient, setTransferRecipient] = useState("");
+  const [recipientExtraId, setRecipientExtraId] = useState("");
+  const [refundAddress, setRefundAddress] = useState("");
+  const [refundExtraId, setRefundExtraId] = useState("");
   const [transferAmount, setTransferAmount] = useState("");
   
   const { publicKey, connected, disconnect, connecting } = useWallet();
   const { setVisible: setWalletModalVisible } = useWalletModal();
   const tokenGateStatus = useTokenGateStatus();
+  const walletAuth = useWalletAuth();
 
   const handleConnectWallet = useCallback(() => {
     setWalletModalVisible(true);
   }, [setWalletModalVisible]);
 
+  const handleSignIn = useCallback(async () => {
+    try {
+      await walletAuth.signIn();
+      toast.success("Signed in");
+    } catch (error) {
+      console.error("Failed to sign in:", error);
+      toast.error(error instanceof Error ? error.message : "Sign in failed");
+    }
+  }, [walletAuth]);
+
   const handleDisconnectWallet = useCallback(async () => {
     try {
+      if (walletAuth.session) {
+        await walletAuth.signOut();
+      }
       await disconnect();
       toast.success("Disconnected");
     } catch (error) {
       console.error("Failed to disconnect:", error);
     }
-  }, [disconnect]);
+  }, [disconnect, walletAuth]);
+
+  // Transfer history (signed-in wallet)
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+  const { data: transferHistory } = trpc.transaction.history.useQuery(
+    { type: "transfer", limit: 5 },
+    { enabled: walletAuth.isSignedIn }
+  );
+
+  const exportUrl = useCallback((format: "csv" | "json") => {
+    const params = new URLSearchParams({ format });
+    if (exportFrom) params.set("from", exportFrom);
+    if (exportTo) params.set("to", exportTo);
+    return `/api/export/transactions?${params.toString()}`;
+  }, [exportFrom, exportTo]);
 
   const [selectedCurrency, setSelectedCurrency] = useState("sol");
   const [selectedNetwork, setSelectedNetwork] = useState("sol");
   const [isSwapMode, setIsSwapMode] = useState(false);
+  // Batch mode replaces the single recipient form with a list of legs
+  const [isBatchMode, setIsBatchMode] = useState(false);
   const [selectedToCurrency, setSelectedToCurrency] = useState("sol");
   const [selectedToNetwork, setSelectedToNetwork] = useState("sol");
 
+  // Network picked together with its currency (address book), applied instead of the default
+  const pickedNetwork = useRef<{ from?: { currency: string; network: string }; to?: { currency: string; network: string } }>({});
+
   const { data: currencies } = trpc.transaction.getSupportedCurrencies.useQuery();
   
   const currentCurrency = useMemo(() => {
@@ -94,7 +118,8 @@ export default function Home() {
     if (currencies) {
       const currency = currencies.find(c => c.ticker === selectedCurrency);
       if (currency) {
-        setSelectedNetwork(currency.defaultNetwork);
+        const picked = pickedNetwork.current.from;
+        setSelectedNetwork(picked?.currency === currency.ticker ? picked.network : currency.defaultNetwork);
       }
     }
   }, [selectedCurrency, currencies]);
@@ -103,7 +128,8 @@ export default function Home() {
     if (currencies) {
       const currency = currencies.find(c => c.ticker === selectedToCurrency);
       if (currency) {
-        setSelectedToNetwork(currency.defaultNetwork);
+        const picked = pickedNetwork.current.to;
+        setSelectedToNetwork(picked?.currency === currency.ticker ? picked.network : currency.defaultNetwork);
       }
     }
   }, [selectedToCurrency, currencies]);
@@ -116,6 +142,34 @@ export default function Home() {
     return availableToNetworks.find(n => n.id === selectedToNetwork);
   }, [availableToNetworks, selectedToNetwork]);
 
+  // Payouts go to the source network unless this is a swap
+  const recipientNetwork = isSwapMode ? currentToNetwork : currentNetwork;
+
+  // Fill the recipient from the address book. A saved recipient in another
+  // currency becomes the swap target; one in the source currency is paid
+  // without a swap.
+  const pickRecipient = useCallback((entry: AddressBookRecipient) => {
+    const currency = currencies?.find(c => c.ticker === entry.currency);
+    if (!currency?.networks.some(n => n.id === entry.network)) {
+      toast.error(`${entry.currency.toUpperCase()} on ${entry.network.toUpperCase()} is no longer supported`);
+      return;
+    }
+
+    const picked = { currency: entry.currency, network: entry.network };
+    if (isSwapMode && entry.currency !== selectedCurrency) {
+      pickedNetwork.current.to = picked;
+      setSelectedToCurrency(entry.currency);
+      setSelectedToNetwork(entry.network);
+    } else {
+      pickedNetwork.current.from = picked;
+      setIsSwapMode(false);
+      setSelectedCurrency(entry.currency);
+      setSelectedNetwork(entry.network);
+    }
+    setTransferRecipient(entry.address);
+    setRecipientExtraId(entry.extraId ?? "");
+  }, [currencies, isSwapMode, selectedCurrency]);
+
   const handleLogoClick = () => {
     setLocation("/");
     setView("home");
@@ -123,6 +177,8 @@ export default function Home() {
   };
 
   const [debouncedAmount, setDebouncedAmount] = useState("");
+  // "send" fixes the deposit; "receive" fixes the amount the recipient gets
+  const [direction, setDirection] = useState<"send" | "receive">("send");
   
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -140,23 +196,108 @@ export default function Home() {
     return availableToNetworks.some(n => n.id === selectedToNetwork);
   }, [isSwapMode, availableToNetworks, selectedToNetwork]);
 
-  const { data: feeEstimate, isLoading: isEstimatingFees } = trpc.transaction.estimateFees.useQuery(
+  const { data: feeEstimate, isLoading: isEstimatingFees, error: estimateError } = trpc.transaction.estimateFees.useQuery(
     { 
       amount: debouncedAmount,
       currency: selectedCurrency,
       network: selectedNetwork,
       toCurrency: isSwapMode ? selectedToCurrency : undefined,
       toNetwork: isSwapMode ? selectedToNetwork : undefined,
+      direction,
     },
     {
       enabled: !!debouncedAmount && parseFloat(debouncedAmount) > 0 && !isNaN(parseFloat(debouncedAmount)) && isNetworkValid && isToNetworkValid,
       refetchOnWindowFocus: false,
+      // Out-of-range amounts are rejected with BAD_REQUEST - retrying won't help
+      retry: (failureCount, error) => error.data?.code !== "BAD_REQUEST" && failureCount < 3,
     }
   );
 
+  // Deposit outside the route's min/max, reported by estimateFees with a structured code
+  const amountLimitError = useMemo(() => {
+    const errorCode = estimateError?.data?.errorCode;
+    if (errorCode !== AMOUNT_BELOW_MINIMUM && errorCode !== AMOUNT_ABOVE_MAXIMUM) return null;
+    const details = (estimateError?.data?.errorDetails ?? {}) as { minAmount?: number; maxAmount?: number | null };
+    return {
+      belowMinimum: errorCode === AMOUNT_BELOW_MINIMUM,
+      limit: errorCode === AMOUNT_BELOW_MINIMUM ? details.minAmount : details.maxAmount,
+      message: estimateError!.message,
+    };
+  }, [estimateError]);
+
+  // Route the user picked from the ranked quotes (defaults to the best one)
+  const [selectedQuoteId, setSelectedQuoteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedQuoteId(feeEstimate?.quoteId ?? null);
+  }, [feeEstimate?.quoteId]);
+
+  const selectedQuote = useMemo(() => {
+    return feeEstimate?.quotes.find(q => q.quoteId === selectedQuoteId) ?? feeEstimate?.quotes[0];
+  }, [feeEstimate, selectedQuoteId]);
+
+  // Fixed-rate mode: the user locks a rate, then must create the route before it expires
+  const [useFixedRate, setUseFixedRate] = useState(false);
+  const [lockedRate, setLockedRate] = useState<{
+    rateId: string;
+    expiresAt: number;
+    sendAmount: number;
+    receiveAmount: number;
+  } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!lockedRate) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedRate]);
+
+  // Any change to the route invalidates a locked rate
+  useEffect(() => {
+    setLockedRate(null);
+  }, [transferAmount, selectedCurrency, selectedNetwork, selectedToCurrency, selectedToNetwork, isSwapMode, useFixedRate, direction]);
+
+  const rateSecondsLeft = lockedRate ? Math.max(0, Math.floor((lockedRate.expiresAt - now) / 1000)) : 0;
+  const isRateExpired = !!lockedRate && rateSecondsLeft === 0;
+
+  const lockRateMutation = trpc.transaction.lockRate.useMutation({
+    onSuccess: (data) => {
+      setNow(Date.now());
+      setLockedRate({
+        rateId: data.rateId,
+        expiresAt: new Date(data.expiresAt).getTime(),
+        sendAmount: data.sendAmount,
+        receiveAmount: data.receiveAmount,
+      });
+      toast.success("Rate locked");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Could not lock rate");
+    },
+  });
+
+  const handleLockRate = () => {
+    const amount = parseFloat(transferAmount);
+    if (!transferAmount || isNaN(amount) || amount <= 0 || !isFinite(amount)) {
+      toast.error("Valid amount required");
+      return;
+    }
+    lockRateMutation.mutate({
+      amount: amount.toString(),
+      currency: selectedCurrency,
+      network: selectedNetwork,
+      toCurrency: isSwapMode ? selectedToCurrency : undefined,
+      toNetwork: isSwapMode ? selectedToNetwork : undefined,
+      quoteId: selectedQuote?.quoteId,
+      direction,
+    });
+  };
+
   const [transactionResult, setTransactionResult] = useState<{
     txSignature: string;
+    receiptToken?: string | null;
     payinAddress?: string;
+    payinExtraId?: string | null;
     routingTransactionId?: string;
     amount?: number;
     currency?: string;
@@ -166,11 +307,30 @@ export default function Home() {
     isSwap?: boolean;
   } | null>(null);
 
+  const { addBridge } = usePendingBridges();
+
   const transferMutation = trpc.transaction.transfer.useMutation({
     onSuccess: (data) => {
+      // Keep the deposit details so the bridge can be picked up again after a reload
+      addBridge({
+        reference: data.txSignature,
+        receiptToken: data.receiptToken,
+        routingTransactionId: data.routingTransactionId,
+        payinAddress: data.payinAddress,
+        payinExtraId: data.payinExtraId,
+        amount: data.amount,
+        currency: data.currency,
+        network: data.network,
+        receiveAmount: data.receiveAmount,
+        toCurrency: data.toCurrency,
+        toNetwork: data.toNetwork,
+        isSwap: data.isSwap,
+      });
       setTransactionResult({
         txSignature: data.txSignature,
+        receiptToken: data.receiptToken,
         payinAddress: data.payinAddress,
+        payinExtraId: data.payinExtraId,
         routingTransactionId: data.routingTransactionId,
         amount: data.amount,
         currency: data.currency,
@@ -182,8 +342,15 @@ export default function Home() {
       toast.success("Bridge route created");
     },
     onError: (error) => {
-      toast.error(error.message || "Bridge creation failed");
+      const errorCode = error.data?.errorCode;
+      if (errorCode === AMOUNT_BELOW_MINIMUM || errorCode === AMOUNT_ABOVE_MAXIMUM) {
+        toast.error(error.message, { description: "Adjust the amount and try again" });
+      } else {
+        toast.error(error.message || "Bridge creation failed");
+      }
       setTransactionResult(null);
+      // A rejected locked rate can't be retried - force a relock
+      if (useFixedRate) setLockedRate(null);
     },
   });
 
@@ -202,11 +369,32 @@ export default function Home() {
     }
   );
 
+  const resumeBridge = useCallback((bridge: PendingBridge) => {
+    setTransactionResult({
+      txSignature: bridge.reference,
+      receiptToken: bridge.receiptToken,
+      payinAddress: bridge.payinAddress,
+      payinExtraId: bridge.payinExtraId,
+      routingTransactionId: bridge.routingTransactionId,
+      amount: bridge.amount,
+      currency: bridge.currency,
+      toCurrency: bridge.toCurrency,
+      network: bridge.network,
+      toNetwork: bridge.toNetwork,
+      isSwap: bridge.isSwap,
+    });
+    setView("bridge");
+  }, []);
+
   const handleTransfer = () => {
     if (!transferRecipient || transferRecipient.trim().length === 0) {
       toast.error("Destination address required");
       return;
     }
+    if (recipientNetwork?.extraId?.required && !recipientExtraId.trim()) {
+      toast.error(`${recipientNetwork.extraId.label} required`);
+      return;
+    }
     const amount = parseFloat(transferAmount);
     if (!transferAmount || isNaN(amount) || amount <= 0 || !isFinite(amount)) {
       toast.error("Valid amount required");
@@ -219,23 +407,50 @@ export default function Home() {
     }
     const mutationPayload: {
       recipientAddress: string;
+      extraId?: string;
       amount: string;
       currency: string;
       network: string;
       toCurrency?: string;
       toNetwork?: string;
+      quoteId?: string;
+      rateId?: string;
+      direction: "send" | "receive";
+      refundAddress?: string;
+      refundExtraId?: string;
     } = {
       recipientAddress: transferRecipient.trim(),
       amount: amountStr,
       currency: selectedCurrency,
       network: selectedNetwork,
+      direction,
     };
 
+    if (recipientNetwork?.extraId && recipientExtraId.trim()) {
+      mutationPayload.extraId = recipientExtraId.trim();
+    }
+
+    if (refundAddress.trim()) {
+      mutationPayload.refundAddress = refundAddress.trim();
+      if (currentNetwork?.extraId && refundExtraId.trim()) mutationPayload.refundExtraId = refundExtraId.trim();
+    }
+
     if (isSwapMode) {
       mutationPayload.toCurrency = selectedToCurrency;
       mutationPayload.toNetwork = selectedToNetwork;
     }
 
+    if (useFixedRate) {
+      if (!lockedRate || isRateExpired) {
+        toast.error("Lock a rate before creating a fixed-rate route");
+        return;
+      }
+      mutationPayload.rateId = lockedRate.rateId;
+    } else if (selectedQuote && debouncedAmount === transferAmount) {
+      // Only pin the route if the quote was made for the amount entered
+      mutationPayload.quoteId = selectedQuote.quoteId;
+    }
+
     transferMutation.mutate(mutationPayload);
   };
 
@@ -334,12 +549,25 @@ export default function Home() {
               Community
             </a>
             
+            {walletAuth.isSignedIn && <NotificationBell />}
+
+            {connected && publicKey && !walletAuth.isSignedIn && (
+              <button
+                onClick={handleSignIn}
+                disabled={walletAuth.signingIn}
+                className="px-4 py-2 rounded-lg text-xs font-bold tracking-[0.1em] border border-[#00D9FF]/40 text-[#00D9FF] hover:bg-[#00D9FF]/10 transition-all disabled:opacity-50"
+                style={{ fontFamily: "'Orbitron', sans-serif" }}
+              >
+                {walletAuth.signingIn ? "···" : "SIGN IN"}
+              </button>
+            )}
+
             {connected && publicKey ? (
               <button
                 onClick={handleDisconnectWallet}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg text-xs bg-[#00D9FF]/5 border border-[#00D9FF]/20 text-[#00D9FF] hover:bg-[#00D9FF]/10 transition-all font-mono"
               >
-                <span className="w-2 h-2 rounded-full bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)]"></span>
+                <span className={`w-2 h-2 rounded-full ${walletAuth.isSignedIn ? "bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)]" : "bg-amber-400"}`}></span>
                 {publicKey.toBase58().slice(0, 4)}····{publicKey.toBase58().slice(-4)}
               </button>
             ) : (
@@ -677,36 +905,57 @@ export default function Home() {
                       </div>
                     </div>
                     
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="grid grid-cols-3 gap-4">
                       <button
-                        onClick={() => setIsSwapMode(false)}
+                        onClick={() => {
+                          setIsSwapMode(false);
+                          setIsBatchMode(false);
+                        }}
                         className={`p-6 rounded-lg border-2 transition-all text-left ${
-                          !isSwapMode
+                          !isSwapMode && !isBatchMode
                             ? 'border-[#00D9FF] bg-[#00D9FF]/10'
                             : 'border-white/10 bg-white/[0.02] hover:border-white/20'
                         }`}
                       >
                         <div className="flex items-center gap-3 mb-3">
-                          <div className={`w-3 h-3 rounded-full ${!isSwapMode ? 'bg-[#00D9FF]' : 'bg-white/20'}`}></div>
+                          <div className={`w-3 h-3 rounded-full ${!isSwapMode && !isBatchMode ? 'bg-[#00D9FF]' : 'bg-white/20'}`}></div>
                           <span className="text-sm font-bold text-white">Direct Route</span>
                         </div>
                         <p className="text-xs text-white/50">Same asset, different wallet</p>
                       </button>
                       
                       <button
-                        onClick={() => setIsSwapMode(true)}
+                        onClick={() => {
+                          setIsSwapMode(true);
+                          setIsBatchMode(false);
+                        }}
                         className={`p-6 rounded-lg border-2 transition-all text-left ${
-                          isSwapMode
+                          isSwapMode && !isBatchMode
                             ? 'border-[#8B5CF6] bg-[#8B5CF6]/10'
                             : 'border-white/10 bg-white/[0.02] hover:border-white/20'
                         }`}
                       >
                         <div className="flex items-center gap-3 mb-3">
-                          <div className={`w-3 h-3 rounded-full ${isSwapMode ? 'bg-[#8B5CF6]' : 'bg-white/20'}`}></div>
+                          <div className={`w-3 h-3 rounded-full ${isSwapMode && !isBatchMode ? 'bg-[#8B5CF6]' : 'bg-white/20'}`}></div>
                           <span className="text-sm font-bold text-white">Asset Conversion</span>
                         </div>
                         <p className="text-xs text-white/50">Convert between different assets</p>
                       </button>
+
+                      <button
+                        onClick={() => setIsBatchMode(true)}
+                        className={`p-6 rounded-lg border-2 transition-all text-left ${
+                          isBatchMode
+                            ? 'border-emerald-400 bg-emerald-400/10'
+                            : 'border-white/10 bg-white/[0.02] hover:border-white/20'
+                        }`}
+                      >
+                        <div className="flex items-center gap-3 mb-3">
+                          <div className={`w-3 h-3 rounded-full ${isBatchMode ? 'bg-emerald-400' : 'bg-white/20'}`}></div>
+                          <span className="text-sm font-bold text-white">Batch Order</span>
+                        </div>
+                        <p className="text-xs text-white/50">Pay several recipients at once</p>
+                      </button>
                     </div>
                   </div>
 
@@ -727,6 +976,7 @@ export default function Home() {
                           <SelectContent className="bg-[#0a0a0f] border-white/10">
                             {currencies?.map((currency) => (
                               <SelectItem key={currency.ticker} value={currency.ticker} className="text-white">
+                                {currency.icon && <img src={currency.icon} alt="" className="inline-block w-4 h-4 mr-2 rounded-full" />}
                                 <span className="font-semibold">{currency.symbol}</span>
                                 <span className="text-white/40 ml-2">{currency.name}</span>
                               </SelectItem>
@@ -754,7 +1004,7 @@ export default function Home() {
                   </div>
 
                   {/* Destination Configuration (Swap Mode) */}
-                  {isSwapMode && (
+                  {isSwapMode && !isBatchMode && (
                     <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
                       <div className="flex items-center gap-2 mb-6">
                         <div className="w-2 h-2 rounded-full bg-[#8B5CF6]"></div>
@@ -771,6 +1021,7 @@ export default function Home() {
                             <SelectContent className="bg-[#0a0a0f] border-white/10">
                               {currencies?.filter(c => c.ticker !== selectedCurrency).map((currency) => (
                                 <SelectItem key={currency.ticker} value={currency.ticker} className="text-white">
+                                  {currency.icon && <img src={currency.icon} alt="" className="inline-block w-4 h-4 mr-2 rounded-full" />}
                                   <span className="font-semibold">{currency.symbol}</span>
                                   <span className="text-white/40 ml-2">{currency.name}</span>
                                 </SelectItem>
@@ -798,89 +1049,281 @@ export default function Home() {
                     </div>
                   )}
 
-                  {/* Recipient & Amount */}
-                  <div className="grid md:grid-cols-2 gap-6">
-                    <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
-                      <label className="block text-xs text-white/50 mb-3 uppercase tracking-wider mb-3">
-                      Recipient Address {isSwapMode && toCurrencyConfig && `(${toCurrencyConfig.symbol})`}
-                      </label>
-                      <Input
-                        type="text"
-                        placeholder={isSwapMode ? (currentToNetwork?.addressPlaceholder || "0x...") : (currentNetwork?.addressPlaceholder || "0x...")}
-                        value={transferRecipient}
-                        onChange={(e) => setTransferRecipient(e.target.value)}
-                        className="bg-[#050508] border-white/10 text-white h-12 font-mono text-sm rounded-lg focus:border-[#00D9FF]/50 placeholder:text-white/20"
-                      />
-                    </div>
-                    
-                    <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
-                      <label className="block text-xs text-white/50 mb-3 uppercase tracking-wider">Transfer Amount</label>
-                      <div className="relative">
-                        <Input
-                          type="number"
-                          step="0.000001"
-                          placeholder="0.00"
-                          value={transferAmount}
-                          onChange={(e) => setTransferAmount(e.target.value)}
-                          className="bg-[#050508] border-white/10 text-white h-12 text-lg rounded-lg pr-16 focus:border-[#00D9FF]/50 placeholder:text-white/20"
-                        />
-                        <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm text-white/40 font-semibold">
-                          {currentCurrency?.symbol || "SOL"}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Fee Estimate & Submit */}
-                  <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
-                    {transferAmount && parseFloat(transferAmount) > 0 ? (
-                      <div className="space-y-4 mb-6">
-                        <div className="flex items-center justify-between py-3 border-b border-white/5">
-                          <span className="text-sm text-white/50">Network Fee</span>
-                          {isEstimatingFees ? (
-                            <span className="w-24 h-4 bg-white/5 rounded animate-pulse"></span>
-                          ) : feeEstimate?.feeAmount !== undefined ? (
-                            <span className="text-sm text-white/70 font-mono">{Number(feeEstimate.feeAmount).toFixed(6)} {currentCurrency?.symbol}</span>
-                          ) : (
-                            <span className="text-sm text-white/30">—</span>
+                  {isBatchMode ? (
+                    <BatchOrder currency={selectedCurrency} network={selectedNetwork} symbol={currentCurrency?.symbol} />
+                  ) : (
+                    <>
+                      {/* Recipient & Amount */}
+                      <div className="grid md:grid-cols-2 gap-6">
+                        <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
+                          <div className="flex items-center justify-between mb-3">
+                            <label className="block text-xs text-white/50 uppercase tracking-wider">
+                            Recipient Address {isSwapMode && toCurrencyConfig && `(${toCurrencyConfig.symbol})`}
+                            </label>
+                            {walletAuth.isSignedIn && (
+                              <AddressBookPicker
+                                current={{
+                                  currency: isSwapMode ? selectedToCurrency : selectedCurrency,
+                                  network: isSwapMode ? selectedToNetwork : selectedNetwork,
+                                  address: transferRecipient,
+                                  extraId: recipientExtraId,
+                                }}
+                                onPick={pickRecipient}
+                              />
+                            )}
+                          </div>
+                          <Input
+                            type="text"
+                            placeholder={isSwapMode ? (currentToNetwork?.addressPlaceholder || "0x...") : (currentNetwork?.addressPlaceholder || "0x...")}
+                            value={transferRecipient}
+                            onChange={(e) => setTransferRecipient(e.target.value)}
+                            className="bg-[#050508] border-white/10 text-white h-12 font-mono text-sm rounded-lg focus:border-[#00D9FF]/50 placeholder:text-white/20"
+                          />
+                          {recipientNetwork?.extraId && (
+                            <>
+                              <label className="block text-[10px] text-white/40 mt-4 mb-2 uppercase tracking-wider">
+                                {recipientNetwork.extraId.label} {recipientNetwork.extraId.required ? "- required" : "- optional"}
+                              </label>
+                              <Input
+                                type="text"
+                                inputMode="numeric"
+                                placeholder={recipientNetwork.extraId.placeholder}
+                                value={recipientExtraId}
+                                onChange={(e) => setRecipientExtraId(e.target.value)}
+                                className="bg-[#050508] border-white/10 text-white h-10 font-mono text-xs rounded-lg focus:border-[#00D9FF]/50 placeholder:text-white/20"
+                              />
+                              <p className="text-[10px] text-amber-400/80 mt-2">
+                                Sending to an exchange? Its {recipientNetwork.extraId.label.toLowerCase()} is needed or the funds can be lost.
+                              </p>
+                            </>
                           )}
+                          <label className="block text-[10px] text-white/40 mt-4 mb-2 uppercase tracking-wider">
+                            Refund Address {currentCurrency && `(${currentCurrency.symbol})`} - optional
+                          </label>
+                          <Input
+                            type="text"
+                            placeholder={currentNetwork?.addressPlaceholder || "Your address on the source network"}
+                            value={refundAddress}
+                            onChange={(e) => setRefundAddress(e.target.value)}
+                            className="bg-[#050508] border-white/10 text-white h-10 font-mono text-xs rounded-lg focus:border-[#00D9FF]/50 placeholder:text-white/20"
+                          />
+                          {refundAddress.trim() && currentNetwork?.extraId && (
+                            <Input
+                              type="text"
+                              placeholder={`Refund ${currentNetwork.extraId.label.toLowerCase()} (optional)`}
+                              value={refundExtraId}
+                              onChange={(e) => setRefundExtraId(e.target.value)}
+                              className="mt-2 bg-[#050508] border-white/10 text-white h-10 font-mono text-xs rounded-lg focus:border-[#00D9FF]/50 placeholder:text-white/20"
+                            />
+                          )}
+                          <p className="text-[10px] text-white/30 mt-2">
+                            If the route fails, your deposit is returned here.
+                          </p>
                         </div>
-                        <div className="flex items-center justify-between py-3 border-b border-white/5">
-                          <span className="text-sm text-white/50">Output Amount</span>
-                          {isEstimatingFees ? (
-                            <span className="w-32 h-6 bg-white/5 rounded animate-pulse"></span>
-                          ) : feeEstimate?.receiveAmount !== undefined ? (
-                            <span className="text-xl font-bold text-[#00D9FF]" style={{ fontFamily: "'Orbitron', sans-serif" }}>
-                              {Number(feeEstimate.receiveAmount).toFixed(6)} {isSwapMode ? toCurrencyConfig?.symbol : currentCurrency?.symbol}
+                    
+                        <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
+                          <div className="flex items-center justify-between mb-3">
+                            <label className="block text-xs text-white/50 uppercase tracking-wider">
+                              {direction === "receive" ? "Recipient Gets" : "Transfer Amount"}
+                            </label>
+                            <div className="flex rounded-md border border-white/10 overflow-hidden">
+                              {(["send", "receive"] as const).map((d) => (
+                                <button
+                                  key={d}
+                                  onClick={() => setDirection(d)}
+                                  className={`px-2 py-1 text-[10px] font-bold uppercase tracking-wider transition-all ${
+                                    direction === d ? 'bg-[#00D9FF]/10 text-[#00D9FF]' : 'text-white/40 hover:text-white/70'
+                                  }`}
+                                >
+                                  {d === "send" ? "Send Exactly" : "Receive Exactly"}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="relative">
+                            <Input
+                              type="number"
+                              step="0.000001"
+                              placeholder="0.00"
+                              value={transferAmount}
+                              onChange={(e) => setTransferAmount(e.target.value)}
+                              className="bg-[#050508] border-white/10 text-white h-12 text-lg rounded-lg pr-16 focus:border-[#00D9FF]/50 placeholder:text-white/20"
+                            />
+                            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm text-white/40 font-semibold">
+                              {direction === "receive" && isSwapMode ? toCurrencyConfig?.symbol : currentCurrency?.symbol || "SOL"}
                             </span>
-                          ) : (
-                            <span className="text-sm text-white/30">—</span>
-                          )}
+                          </div>
+                          {amountLimitError ? (
+                            <div className="flex items-center justify-between gap-2 mt-2">
+                              <p className="text-xs text-red-400">{amountLimitError.message}</p>
+                              {/* Limits are deposit amounts, so the shortcut only applies when sending exactly */}
+                              {direction === "send" && typeof amountLimitError.limit === "number" && (
+                                <button
+                                  type="button"
+                                  onClick={() => setTransferAmount(String(amountLimitError.limit))}
+                                  className="shrink-0 text-[10px] font-bold text-[#00D9FF] hover:underline"
+                                >
+                                  {amountLimitError.belowMinimum ? "USE MINIMUM" : "USE MAXIMUM"}
+                                </button>
+                              )}
+                            </div>
+                          ) : feeEstimate?.minAmount ? (
+                            <p className="text-[10px] text-white/30 mt-2">
+                              Min {feeEstimate.minAmount} {currentCurrency?.symbol}
+                              {feeEstimate.maxAmount !== null && ` · Max ${feeEstimate.maxAmount} ${currentCurrency?.symbol}`}
+                            </p>
+                          ) : null}
                         </div>
-                        {feeEstimate && (feeEstimate as any).transactionSpeedForecast && (
-                          <div className="flex items-center justify-between py-2">
-                            <span className="text-xs text-white/40">Estimated Duration</span>
-                            <span className="text-xs text-emerald-400 font-medium">~{(feeEstimate as any).transactionSpeedForecast} minutes</span>
+                      </div>
+
+                      {/* Fee Estimate & Submit */}
+                      <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6">
+                        {transferAmount && parseFloat(transferAmount) > 0 ? (
+                          <div className="space-y-4 mb-6">
+                            <div className="flex items-center justify-between py-3 border-b border-white/5">
+                              <span className="text-sm text-white/50">Network Fee</span>
+                              {isEstimatingFees ? (
+                                <span className="w-24 h-4 bg-white/5 rounded animate-pulse"></span>
+                              ) : selectedQuote ? (
+                                <span className="text-sm text-white/70 font-mono">{Number(selectedQuote.feeAmount).toFixed(6)} {currentCurrency?.symbol}</span>
+                              ) : (
+                                <span className="text-sm text-white/30">—</span>
+                              )}
+                            </div>
+                            {direction === "receive" && (
+                              <div className="flex items-center justify-between py-3 border-b border-white/5">
+                                <span className="text-sm text-white/50">Required Deposit</span>
+                                {isEstimatingFees ? (
+                                  <span className="w-32 h-6 bg-white/5 rounded animate-pulse"></span>
+                                ) : selectedQuote ? (
+                                  <span className="text-xl font-bold text-[#8B5CF6]" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+                                    {Number(selectedQuote.sendAmount).toFixed(6)} {currentCurrency?.symbol}
+                                  </span>
+                                ) : (
+                                  <span className="text-sm text-white/30">—</span>
+                                )}
+                              </div>
+                            )}
+                            <div className="flex items-center justify-between py-3 border-b border-white/5">
+                              <span className="text-sm text-white/50">{direction === "receive" ? "Guaranteed Output" : "Output Amount"}</span>
+                              {isEstimatingFees ? (
+                                <span className="w-32 h-6 bg-white/5 rounded animate-pulse"></span>
+                              ) : selectedQuote ? (
+                                <span className="text-xl font-bold text-[#00D9FF]" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+                                  {Number(selectedQuote.receiveAmount).toFixed(6)} {isSwapMode ? toCurrencyConfig?.symbol : currentCurrency?.symbol}
+                                </span>
+                              ) : (
+                                <span className="text-sm text-white/30">—</span>
+                              )}
+                            </div>
+                            {selectedQuote?.transactionSpeedForecast && (
+                              <div className="flex items-center justify-between py-2">
+                                <span className="text-xs text-white/40">Estimated Duration</span>
+                                <span className="text-xs text-emerald-400 font-medium">~{selectedQuote.transactionSpeedForecast} minutes</span>
+                              </div>
+                            )}
+                            {/* Route comparison - ranked best-first by the server */}
+                            {!isEstimatingFees && feeEstimate && feeEstimate.quotes.length > 1 && (
+                              <div className="pt-2 space-y-2">
+                                <div className="text-[10px] text-white/40 uppercase tracking-wider">Available Routes</div>
+                                {feeEstimate.quotes.map((quote, i) => (
+                                  <button
+                                    key={quote.quoteId}
+                                    onClick={() => setSelectedQuoteId(quote.quoteId)}
+                                    disabled={!quote.isValid}
+                                    className={`w-full flex items-center justify-between p-3 rounded-lg border text-left transition-all disabled:opacity-30 ${
+                                      selectedQuote?.quoteId === quote.quoteId
+                                        ? 'border-[#00D9FF]/50 bg-[#00D9FF]/10'
+                                        : 'border-white/10 bg-white/[0.02] hover:border-white/20'
+                                    }`}
+                                  >
+                                    <div>
+                                      <div className="flex items-center gap-2">
+                                        <span className="text-xs font-bold text-white">Route {i + 1}</span>
+                                        {i === 0 && (
+                                          <span className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-emerald-400/10 text-emerald-400">BEST</span>
+                                        )}
+                                      </div>
+                                      <div className="text-[10px] text-white/40 mt-1">
+                                        Fee {quote.feePercentage.toFixed(2)}%
+                                        {quote.transactionSpeedForecast && ` · ~${quote.transactionSpeedForecast} min`}
+                                        {quote.minAmount !== null && ` · min ${quote.minAmount}`}
+                                        {quote.maxAmount !== null && ` · max ${quote.maxAmount}`}
+                                      </div>
+                                    </div>
+                                    <span className="text-sm font-mono text-white/80">
+                                      {direction === "receive"
+                                        ? `${quote.sendAmount.toFixed(6)} ${currentCurrency?.symbol}`
+                                        : `${quote.receiveAmount.toFixed(6)} ${isSwapMode ? toCurrencyConfig?.symbol : currentCurrency?.symbol}`}
+                                    </span>
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <div className="py-8 text-center">
+                            <p className="text-sm text-white/30">Enter amount to view fee estimate</p>
                           </div>
                         )}
-                      </div>
-                    ) : (
-                      <div className="py-8 text-center">
-                        <p className="text-sm text-white/30">Enter amount to view fee estimate</p>
-                      </div>
-                    )}
                     
-                    <TokenGate>
-                      <Button
-                        onClick={handleTransfer}
-                        disabled={!transferRecipient || !transferAmount || transferMutation.isPending || (feeEstimate && !feeEstimate.isValid)}
-                        className="w-full h-14 rounded-lg text-sm font-bold tracking-wider bg-gradient-to-r from-[#00D9FF] to-[#00b3d9] hover:from-[#00e5ff] hover:to-[#00c4e5] text-black disabled:opacity-20 disabled:cursor-not-allowed transition-all"
-                        style={{ fontFamily: "'Orbitron', sans-serif" }}
-                      >
-                        {transferMutation.isPending ? "INITIATING ROUTE..." : "INITIATE TRANSFER"}
-                      </Button>
-                    </TokenGate>
-                  </div>
+                        {/* Fixed Rate */}
+                        <div className="mb-6 p-4 rounded-lg border border-white/10 bg-white/[0.02] space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <div className="text-sm font-bold text-white">Fixed Rate</div>
+                              <p className="text-[10px] text-white/40">
+                                {direction === "receive"
+                                  ? "Receive-exactly routes always lock the rate when created"
+                                  : "Guarantee the output amount for a limited time"}
+                              </p>
+                            </div>
+                            <Switch checked={useFixedRate} onCheckedChange={setUseFixedRate} />
+                          </div>
+                          {useFixedRate && (
+                            lockedRate && !isRateExpired ? (
+                              <div className="flex items-center justify-between">
+                                <span className="text-xs text-emerald-400">
+                                  {direction === "receive"
+                                    ? `Locked deposit: ${lockedRate.sendAmount.toFixed(6)} ${currentCurrency?.symbol}`
+                                    : `Locked: ${lockedRate.receiveAmount.toFixed(6)} ${isSwapMode ? toCurrencyConfig?.symbol : currentCurrency?.symbol}`}
+                                </span>
+                                <span className={`text-xs font-mono ${rateSecondsLeft <= 30 ? 'text-amber-400' : 'text-white/60'}`}>
+                                  {Math.floor(rateSecondsLeft / 60)}:{String(rateSecondsLeft % 60).padStart(2, "0")}
+                                </span>
+                              </div>
+                            ) : (
+                              <div className="flex items-center justify-between gap-4">
+                                <span className={`text-xs ${isRateExpired ? 'text-red-400' : 'text-white/40'}`}>
+                                  {isRateExpired ? "Rate expired" : "No rate locked"}
+                                </span>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={handleLockRate}
+                                  disabled={!transferAmount || lockRateMutation.isPending}
+                                  className="border-white/10 hover:bg-white/5 rounded-lg"
+                                >
+                                  {lockRateMutation.isPending ? "Locking..." : isRateExpired ? "Relock Rate" : "Lock Rate"}
+                                </Button>
+                              </div>
+                            )
+                          )}
+                        </div>
+
+                        <TokenGate>
+                          <Button
+                            onClick={handleTransfer}
+                            disabled={!transferRecipient || !transferAmount || transferMutation.isPending || !!amountLimitError || (selectedQuote && !selectedQuote.isValid) || (useFixedRate && (!lockedRate || isRateExpired))}
+                            className="w-full h-14 rounded-lg text-sm font-bold tracking-wider bg-gradient-to-r from-[#00D9FF] to-[#00b3d9] hover:from-[#00e5ff] hover:to-[#00c4e5] text-black disabled:opacity-20 disabled:cursor-not-allowed transition-all"
+                            style={{ fontFamily: "'Orbitron', sans-serif" }}
+                          >
+                            {transferMutation.isPending ? "INITIATING ROUTE..." : "INITIATE TRANSFER"}
+                          </Button>
+                        </TokenGate>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 {/* Right Panel - Info & Result */}
@@ -985,15 +1428,58 @@ export default function Home() {
                         </div>
                       </div>
 
+                      {/* Deposit memo / tag */}
+                      {transactionResult.payinExtraId && (
+                        <div>
+                          <label className="block text-xs text-amber-400/90 mb-2 uppercase tracking-wider">Memo / Tag - required</label>
+                          <div className="flex gap-2">
+                            <code className="flex-1 text-[10px] font-mono bg-[#050508] text-amber-400 p-3 rounded-lg break-all border border-amber-500/20">
+                              {transactionResult.payinExtraId}
+                            </code>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                navigator.clipboard.writeText(transactionResult.payinExtraId || "");
+                                toast.success("Copied");
+                              }}
+                              className="shrink-0 border-white/10 hover:bg-white/5 rounded-lg"
+                            >
+                              Copy
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
                       {/* Warning */}
                       <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
                         <p className="text-[10px] text-amber-400/90 leading-relaxed">
-                          Send the exact amount shown above. {transactionResult.isSwap && `Recipient will receive ${transactionResult.toCurrency}.`}
+                          Send the exact amount shown above.{" "}
+                          {transactionResult.payinExtraId && "Include the memo / tag with your deposit or it can't be credited. "}
+                          {transactionResult.isSwap && `Recipient will receive ${transactionResult.toCurrency}.`}
                         </p>
                       </div>
 
                       {/* Actions */}
                       <div className="space-y-2">
+                        <Button
+                          variant="outline"
+                          className="w-full border-[#00D9FF]/30 text-[#00D9FF] hover:bg-[#00D9FF]/10 rounded-lg"
+                          onClick={() => {
+                            const path = receiptPath(transactionResult.txSignature, transactionResult.receiptToken);
+                            navigator.clipboard.writeText(`${window.location.origin}${path}`);
+                            toast.success("Receipt link copied - bookmark it to track this transfer");
+                          }}
+                        >
+                          Copy Receipt Link
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="w-full border-white/10 hover:bg-white/5 rounded-lg"
+                          onClick={() => setLocation(receiptPath(transactionResult.txSignature, transactionResult.receiptToken))}
+                        >
+                          Open Receipt
+                        </Button>
                         <Button
                           variant="outline"
                           className="w-full border-white/10 hover:bg-white/5 rounded-lg"
@@ -1008,12 +1494,102 @@ export default function Home() {
                       </div>
                     </div>
                   )}
+
+                  {/* Scheduled Transfers */}
+                  {walletAuth.isSignedIn && !isBatchMode && (
+                    <TransferSchedules
+                      draft={{
+                        recipientAddress: transferRecipient,
+                        extraId: recipientNetwork?.extraId ? recipientExtraId : null,
+                        amount: transferAmount,
+                        direction,
+                        currency: selectedCurrency,
+                        network: selectedNetwork,
+                        toCurrency: isSwapMode ? selectedToCurrency : null,
+                        toNetwork: isSwapMode ? selectedToNetwork : null,
+                        refundAddress: refundAddress.trim() || null,
+                        refundExtraId: currentNetwork?.extraId ? refundExtraId : null,
+                      }}
+                    />
+                  )}
+
+                  {/* Rate Alerts - on the deposit amount, so only for "send" */}
+                  {walletAuth.isSignedIn && !isBatchMode && (
+                    <RateAlerts
+                      route={{
+                        currency: selectedCurrency,
+                        network: selectedNetwork,
+                        toCurrency: isSwapMode ? selectedToCurrency : selectedCurrency,
+                        toNetwork: isSwapMode ? selectedToNetwork : selectedNetwork,
+                        amount: direction === "send" ? transferAmount : "",
+                        currentReceiveAmount:
+                          direction === "send" && debouncedAmount === transferAmount ? feeEstimate?.receiveAmount : null,
+                      }}
+                    />
+                  )}
+
+                  {/* History Panel */}
+                  {walletAuth.isSignedIn && (
+                    <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6 space-y-4">
+                      <h3 className="text-sm font-bold text-white" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+                        History
+                      </h3>
+
+                      {transferHistory && transferHistory.items.length > 0 ? (
+                        <div className="space-y-2">
+                          {transferHistory.items.map(tx => (
+                            <div key={tx.id} className="flex items-center justify-between text-xs bg-[#050508] rounded-lg px-3 py-2 border border-white/5">
+                              <div>
+                                <div className="text-white font-mono">
+                                  {Number(tx.amount).toFixed(4)} {tx.fromCurrency?.toUpperCase()} → {tx.toCurrency?.toUpperCase()}
+                                </div>
+                                <div className="text-white/40">{new Date(tx.createdAt).toLocaleString()}</div>
+                              </div>
+                              <span className={getStatusDisplay(tx.status).color}>{getStatusDisplay(tx.status).label}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-xs text-white/40">No transfers yet.</p>
+                      )}
+
+                      <div className="pt-4 border-t border-white/5 space-y-3">
+                        <div className="text-[10px] text-white/40 uppercase tracking-wider">Export for accounting</div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            type="date"
+                            value={exportFrom}
+                            onChange={e => setExportFrom(e.target.value)}
+                            className="bg-[#050508] border-white/10 text-xs"
+                            aria-label="Export from"
+                          />
+                          <Input
+                            type="date"
+                            value={exportTo}
+                            onChange={e => setExportTo(e.target.value)}
+                            className="bg-[#050508] border-white/10 text-xs"
+                            aria-label="Export to"
+                          />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 rounded-lg">
+                            <a href={exportUrl("csv")} download>Download CSV</a>
+                          </Button>
+                          <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 rounded-lg">
+                            <a href={exportUrl("json")} download>Download JSON</a>
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         )}
       </main>
+
+      <PendingBridges onResume={resumeBridge} />
     </div>
   );
 }
@@ -0,0 +1,150 @@
+import { useLocation, useParams, useSearch } from "wouter";
+import { toast } from "sonner";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { APP_LOGO } from "@/const";
+import { getStatusDisplay, isFinalStatus } from "@/lib/transferStatus";
+
+function formatAmount(value: string | number | null | undefined, currency?: string | null) {
+  if (value === null || value === undefined || value === "") return "—";
+  const amount = Number(value);
+  const text = Number.isFinite(amount) ? amount.toLocaleString(undefined, { maximumFractionDigits: 8 }) : String(value);
+  return currency ? `${text} ${currency.toUpperCase()}` : text;
+}
+
+function Row({ label, children, mono }: { label: string; children: React.ReactNode; mono?: boolean }) {
+  return (
+    <div className="flex justify-between gap-4 py-2 border-b border-white/5 last:border-0 text-xs">
+      <span className="text-white/40 shrink-0">{label}</span>
+      <span className={`text-white text-right break-all ${mono ? "font-mono" : ""}`}>{children}</span>
+    </div>
+  );
+}
+
+export default function Receipt() {
+  const [, setLocation] = useLocation();
+  const { ref } = useParams<{ ref: string }>();
+  const token = new URLSearchParams(useSearch()).get("t") ?? undefined;
+
+  const { data: receipt, isLoading, error } = trpc.transaction.getTransaction.useQuery(
+    { txSignature: ref, token },
+    {
+      retry: false,
+      // Live progress until the transfer reaches a final status
+      refetchInterval: query => (isFinalStatus(query.state.data?.status) ? false : 10000),
+    }
+  );
+
+  const liveStatus = receipt?.routingStatus?.status ?? receipt?.status;
+  const display = getStatusDisplay(liveStatus);
+  const awaitingDeposit = liveStatus === "pending" || liveStatus === "waiting";
+
+  return (
+    <div className="min-h-screen gradient-bg px-4 py-12 relative overflow-hidden">
+      <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-[#00D9FF]/5 rounded-full blur-[120px] pointer-events-none"></div>
+
+      <div className="relative z-10 max-w-lg mx-auto space-y-6">
+        <button onClick={() => setLocation("/")} className="flex items-center gap-3">
+          <img src={APP_LOGO} alt="INVSOL" className="w-9 h-9 rounded-xl" />
+          <span className="text-base font-bold tracking-[0.2em] text-white" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+            INVSOL
+          </span>
+        </button>
+
+        {isLoading && <p className="text-sm text-white/50">Loading receipt…</p>}
+
+        {error && (
+          <div className="bg-[#0a0a0f] rounded-xl border border-white/10 p-6 space-y-4">
+            <h1 className="text-sm font-bold text-white" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+              Receipt not found
+            </h1>
+            <p className="text-xs text-white/50">
+              Check the reference and use the full receipt link you were given - it contains a secret token.
+            </p>
+            <Button variant="outline" className="border-white/10 hover:bg-white/5" onClick={() => setLocation("/")}>
+              Back to bridge
+            </Button>
+          </div>
+        )}
+
+        {receipt && (
+          <div className="bg-[#0a0a0f] rounded-xl border border-[#00D9FF]/30 p-6 space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-sm font-bold text-white mb-1" style={{ fontFamily: "'Orbitron', sans-serif" }}>
+                  Transfer Receipt
+                </h1>
+                <code className="text-xs text-[#00D9FF]">{receipt.reference}</code>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-white/10 hover:bg-white/5 shrink-0"
+                onClick={() => {
+                  navigator.clipboard.writeText(window.location.href);
+                  toast.success("Receipt link copied");
+                }}
+              >
+                Copy link
+              </Button>
+            </div>
+
+            <div className="bg-black/40 rounded-lg p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-white/40 uppercase tracking-wider">Status</span>
+                <span className={`text-xs font-bold ${display.color}`}>{display.label}</span>
+              </div>
+              <Progress value={display.progress} className="h-1.5" />
+              {receipt.errorMessage && <p className="text-xs text-red-400">{receipt.errorMessage}</p>}
+            </div>
+
+            <div>
+              <Row label="Sent">{formatAmount(receipt.amount, receipt.fromCurrency)}{receipt.fromNetwork && ` (${receipt.fromNetwork})`}</Row>
+              <Row label={receipt.direction === "receive" ? "Guaranteed output" : "Expected output"}>
+                {formatAmount(receipt.routingStatus?.toAmount || receipt.quotedReceiveAmount, receipt.toCurrency)}
+                {receipt.toNetwork && ` (${receipt.toNetwork})`}
+              </Row>
+              {receipt.feeAmount && (
+                <Row label="Fee">
+                  {formatAmount(receipt.feeAmount, receipt.fromCurrency)}
+                  {receipt.feePercentage && ` (${Number(receipt.feePercentage).toFixed(2)}%)`}
+                </Row>
+              )}
+              <Row label="Recipient" mono>{receipt.recipientAddress ?? "—"}</Row>
+              <Row label="Deposit hash" mono>{receipt.payinHash ?? "—"}</Row>
+              <Row label="Payout hash" mono>{receipt.payoutHash ?? "—"}</Row>
+              {(liveStatus === "refunded" || receipt.refundHash) && (
+                <>
+                  <Row label="Refunded">{formatAmount(receipt.refundAmount, receipt.fromCurrency)}</Row>
+                  <Row label="Refund address" mono>{receipt.refundAddress ?? "—"}</Row>
+                  <Row label="Refund hash" mono>{receipt.refundHash ?? "—"}</Row>
+                </>
+              )}
+              <Row label="Created">{new Date(receipt.createdAt).toLocaleString()}</Row>
+              <Row label="Updated">{new Date(receipt.updatedAt).toLocaleString()}</Row>
+            </div>
+
+            {awaitingDeposit && receipt.payinAddress && (
+              <div className="space-y-3">
+                <div className="text-[10px] text-white/40 uppercase tracking-wider">Deposit address</div>
+                <div className="flex justify-center p-4 bg-white rounded-lg">
+                  <QRCodeSVG value={receipt.payinAddress} size={160} level="H" />
+                </div>
+                <code className="block text-[10px] font-mono bg-[#050508] text-[#00D9FF] p-3 rounded-lg break-all border border-white/5">
+                  {receipt.payinAddress}
+                </code>
+                {receipt.payinExtraId && (
+                  <p className="text-[10px] text-amber-400/90">
+                    Include memo / tag <span className="font-mono">{receipt.payinExtraId}</span> with your deposit.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
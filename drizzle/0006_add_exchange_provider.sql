@@ -0,0 +1,7 @@
+-- Migration: Record which exchange provider owns each routed transaction
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transaction_routing
+  ADD COLUMN IF NOT EXISTS provider VARCHAR(32) NOT NULL DEFAULT 'changenow';
+
+CREATE INDEX IF NOT EXISTS idx_transaction_routing_provider ON transaction_routing(provider);
@@ -0,0 +1,18 @@
+-- Migration: Persist exchange quotes so transfers can target the quoted route
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS exchange_quotes (
+  id VARCHAR(32) PRIMARY KEY,
+  provider VARCHAR(32) NOT NULL,
+  "fromCurrency" VARCHAR(16) NOT NULL,
+  "toCurrency" VARCHAR(16) NOT NULL,
+  "fromNetwork" VARCHAR(32) NOT NULL,
+  "toNetwork" VARCHAR(32) NOT NULL,
+  "fromAmount" NUMERIC(30, 12) NOT NULL,
+  "toAmount" NUMERIC(30, 12) NOT NULL,
+  "feePercentage" NUMERIC(10, 4) NOT NULL,
+  "expiresAt" TIMESTAMP NOT NULL,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_quotes_expiresat ON exchange_quotes("expiresAt");
@@ -0,0 +1,7 @@
+-- Migration: Fixed-rate quote locking
+-- Run this in your PostgreSQL database
+
+ALTER TABLE exchange_quotes
+  ADD COLUMN IF NOT EXISTS flow VARCHAR(16) NOT NULL DEFAULT 'standard',
+  ADD COLUMN IF NOT EXISTS "providerRateId" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "consumedAt" TIMESTAMP;
@@ -0,0 +1,8 @@
+-- Migration: Reverse ("receive exactly") quotes and transfers
+-- Run this in your PostgreSQL database
+
+ALTER TABLE exchange_quotes
+  ADD COLUMN IF NOT EXISTS direction VARCHAR(8) NOT NULL DEFAULT 'send';
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS direction VARCHAR(8) NOT NULL DEFAULT 'send';
@@ -0,0 +1,21 @@
+-- Migration: Background status reconciler
+-- Run this in your PostgreSQL database
+
+-- Last known provider state and per-route backoff for the reconciler
+ALTER TABLE transaction_routing
+  ADD COLUMN IF NOT EXISTS "routingStatus" VARCHAR(16),
+  ADD COLUMN IF NOT EXISTS "payinHash" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "payoutHash" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "checkAttempts" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "nextCheckAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS "lastCheckedAt" TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_transaction_routing_nextcheck ON transaction_routing("nextCheckAt");
+
+-- Leader election for background workers (one holder per worker name)
+CREATE TABLE IF NOT EXISTS worker_leases (
+  name VARCHAR(64) PRIMARY KEY,
+  holder VARCHAR(128) NOT NULL,
+  "expiresAt" TIMESTAMP NOT NULL,
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,24 @@
+-- Migration: Full transaction status lifecycle and status history
+-- Run this in your PostgreSQL database
+
+-- Routing lifecycle states (requires PostgreSQL 12+ inside a transaction)
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'waiting';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'confirming';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'exchanging';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'sending';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'finished';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'refunded';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'expired';
+
+-- Every status change, including the initial status
+CREATE TABLE IF NOT EXISTS transaction_status_history (
+  id SERIAL PRIMARY KEY,
+  "txSignature" VARCHAR(128) NOT NULL,
+  "fromStatus" transaction_status,
+  "toStatus" transaction_status NOT NULL,
+  source VARCHAR(32) NOT NULL,
+  detail TEXT,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_status_history_txsignature ON transaction_status_history("txSignature");
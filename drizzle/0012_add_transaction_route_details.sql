@@ -0,0 +1,23 @@
+-- Migration: Persist full route details per transaction
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS "fromCurrency" VARCHAR(16),
+  ADD COLUMN IF NOT EXISTS "toCurrency" VARCHAR(16),
+  ADD COLUMN IF NOT EXISTS "fromNetwork" VARCHAR(32),
+  ADD COLUMN IF NOT EXISTS "toNetwork" VARCHAR(32),
+  ADD COLUMN IF NOT EXISTS "quotedReceiveAmount" NUMERIC(30, 12),
+  ADD COLUMN IF NOT EXISTS "feeAmount" NUMERIC(30, 12),
+  ADD COLUMN IF NOT EXISTS "feePercentage" NUMERIC(10, 4),
+  ADD COLUMN IF NOT EXISTS "payinHash" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "payoutHash" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "payinExtraId" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "payoutExtraId" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "refundAddress" VARCHAR(128);
+
+-- amountSol is only meaningful for SOL amounts; non-SOL transfers leave it null
+ALTER TABLE transactions ALTER COLUMN "amountSol" DROP NOT NULL;
+
+-- Fee amount is needed to persist the fee breakdown of the quote a transfer used
+ALTER TABLE exchange_quotes
+  ADD COLUMN IF NOT EXISTS "feeAmount" NUMERIC(30, 12) NOT NULL DEFAULT 0;
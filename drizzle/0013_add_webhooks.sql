@@ -0,0 +1,32 @@
+-- Migration: Outbound webhooks (endpoints + persisted delivery queue)
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id SERIAL PRIMARY KEY,
+  url VARCHAR(512) NOT NULL,
+  secret VARCHAR(128) NOT NULL,
+  events TEXT NOT NULL,
+  description VARCHAR(255),
+  "isActive" INTEGER NOT NULL DEFAULT 1,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  "endpointId" INTEGER NOT NULL,
+  "eventId" VARCHAR(32) NOT NULL,
+  "eventType" VARCHAR(32) NOT NULL,
+  payload TEXT NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "lastResponseStatus" INTEGER,
+  "lastError" TEXT,
+  "deliveredAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, "nextAttemptAt");
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries("endpointId");
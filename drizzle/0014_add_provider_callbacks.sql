@@ -0,0 +1,10 @@
+-- Migration: Inbound provider status callbacks (deduplication)
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS provider_callbacks (
+  id SERIAL PRIMARY KEY,
+  provider VARCHAR(32) NOT NULL,
+  "callbackKey" VARCHAR(64) NOT NULL UNIQUE,
+  "routingTransactionId" VARCHAR(128) NOT NULL,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
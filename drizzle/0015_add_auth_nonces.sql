@@ -0,0 +1,13 @@
+-- Migration: Sign-in-with-Solana nonces
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce VARCHAR(32) PRIMARY KEY,
+  "publicKey" VARCHAR(64) NOT NULL,
+  message TEXT NOT NULL,
+  "expiresAt" TIMESTAMP NOT NULL,
+  "usedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON auth_nonces ("expiresAt");
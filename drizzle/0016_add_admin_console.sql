@@ -0,0 +1,19 @@
+-- Migration: Admin console (transaction annotations, manual resolution, audit log)
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS "adminNote" TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS "resolvedAt" TIMESTAMP;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS "resolvedBy" VARCHAR(64);
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id SERIAL PRIMARY KEY,
+  "adminPublicKey" VARCHAR(64) NOT NULL,
+  action VARCHAR(64) NOT NULL,
+  "targetType" VARCHAR(32),
+  "targetId" VARCHAR(128),
+  detail TEXT,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log ("createdAt");
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log ("targetType", "targetId");
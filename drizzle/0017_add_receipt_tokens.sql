@@ -0,0 +1,4 @@
+-- Migration: Per-transaction receipt tokens
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS "receiptToken" VARCHAR(32);
@@ -0,0 +1,7 @@
+-- Migration: Refund memo/tag and refund tracking per transaction
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS "refundExtraId" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "refundHash" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "refundAmount" NUMERIC(30, 12);
@@ -0,0 +1,24 @@
+-- Migration: Currency catalog synced from the exchange provider
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS currency_catalog (
+  id SERIAL PRIMARY KEY,
+  ticker VARCHAR(16) NOT NULL,
+  network VARCHAR(32) NOT NULL,
+  provider VARCHAR(32) NOT NULL,
+  name VARCHAR(64) NOT NULL,
+  "networkName" VARCHAR(64),
+  "providerImage" VARCHAR(512),
+  icon VARCHAR(512),
+  decimals INTEGER,
+  "hasExtraId" INTEGER NOT NULL DEFAULT 0,
+  "isEnabled" INTEGER NOT NULL DEFAULT 0,
+  "displayOrder" INTEGER NOT NULL DEFAULT 1000,
+  "lastSyncedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT currency_catalog_ticker_network_unique UNIQUE (ticker, network)
+);
+
+-- Enabled currencies in display order (getSupportedCurrencies)
+CREATE INDEX IF NOT EXISTS currency_catalog_enabled_idx ON currency_catalog ("isEnabled", "displayOrder");
@@ -0,0 +1,15 @@
+-- Migration: Address book of saved recipients per wallet
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS address_book (
+  id SERIAL PRIMARY KEY,
+  "walletId" INTEGER NOT NULL,
+  label VARCHAR(64) NOT NULL,
+  currency VARCHAR(16) NOT NULL,
+  network VARCHAR(32) NOT NULL,
+  address VARCHAR(128) NOT NULL,
+  "extraId" VARCHAR(64),
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT address_book_wallet_label_unique UNIQUE ("walletId", label)
+);
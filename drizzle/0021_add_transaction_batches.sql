@@ -0,0 +1,6 @@
+-- Migration: Batch orders (transfers grouped under an NB- batch reference)
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS "batchId" VARCHAR(32);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_batch ON transactions ("batchId") WHERE "batchId" IS NOT NULL;
@@ -0,0 +1,55 @@
+-- Migration: Scheduled / recurring transfers, their run history and wallet notifications
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS transfer_schedules (
+  id SERIAL PRIMARY KEY,
+  "walletId" INTEGER NOT NULL,
+  label VARCHAR(64) NOT NULL,
+  "recipientAddress" VARCHAR(128) NOT NULL,
+  "extraId" VARCHAR(64),
+  amount NUMERIC(30, 12) NOT NULL,
+  direction VARCHAR(8) NOT NULL DEFAULT 'send',
+  "fromCurrency" VARCHAR(16) NOT NULL,
+  "fromNetwork" VARCHAR(32) NOT NULL,
+  "toCurrency" VARCHAR(16) NOT NULL,
+  "toNetwork" VARCHAR(32) NOT NULL,
+  "refundAddress" VARCHAR(128),
+  "refundExtraId" VARCHAR(64),
+  recurrence VARCHAR(64),
+  "nextRunAt" TIMESTAMP,
+  status VARCHAR(16) NOT NULL DEFAULT 'active',
+  "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+  "lastRunAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_schedules_wallet ON transfer_schedules ("walletId");
+CREATE INDEX IF NOT EXISTS idx_transfer_schedules_due ON transfer_schedules ("nextRunAt") WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS transfer_schedule_runs (
+  id SERIAL PRIMARY KEY,
+  "scheduleId" INTEGER NOT NULL,
+  "scheduledFor" TIMESTAMP NOT NULL,
+  status VARCHAR(16) NOT NULL,
+  "txSignature" VARCHAR(128),
+  "payinAddress" VARCHAR(128),
+  "payinExtraId" VARCHAR(128),
+  "depositAmount" NUMERIC(30, 12),
+  error TEXT,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT transfer_schedule_runs_schedule_slot_unique UNIQUE ("scheduleId", "scheduledFor")
+);
+
+CREATE TABLE IF NOT EXISTS wallet_notifications (
+  id SERIAL PRIMARY KEY,
+  "walletId" INTEGER NOT NULL,
+  type VARCHAR(32) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  data TEXT,
+  "readAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_notifications_wallet ON wallet_notifications ("walletId", "createdAt" DESC);
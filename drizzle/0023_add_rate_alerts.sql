@@ -0,0 +1,26 @@
+-- Migration: Rate alerts (notify when a route's payout reaches a target)
+-- Run this in your PostgreSQL database
+
+CREATE TABLE IF NOT EXISTS rate_alerts (
+  id SERIAL PRIMARY KEY,
+  "walletId" INTEGER NOT NULL,
+  "fromCurrency" VARCHAR(16) NOT NULL,
+  "fromNetwork" VARCHAR(32) NOT NULL,
+  "toCurrency" VARCHAR(16) NOT NULL,
+  "toNetwork" VARCHAR(32) NOT NULL,
+  amount NUMERIC(30, 12) NOT NULL,
+  "targetReceiveAmount" NUMERIC(30, 12) NOT NULL,
+  "cooldownMinutes" INTEGER NOT NULL DEFAULT 60,
+  "expiresAt" TIMESTAMP NOT NULL,
+  "isActive" INTEGER NOT NULL DEFAULT 1,
+  "lastReceiveAmount" NUMERIC(30, 12),
+  "lastError" TEXT,
+  "lastCheckedAt" TIMESTAMP,
+  "lastTriggeredAt" TIMESTAMP,
+  "triggerCount" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_alerts_wallet ON rate_alerts ("walletId");
+CREATE INDEX IF NOT EXISTS idx_rate_alerts_active ON rate_alerts ("expiresAt") WHERE "isActive" = 1;
@@ -0,0 +1,5 @@
+-- Migration: Actual payout of finished transfers (quotedReceiveAmount is only the estimate)
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS "receivedAmount" NUMERIC(30, 12);
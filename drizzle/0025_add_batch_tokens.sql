@@ -0,0 +1,4 @@
+-- Migration: Batch tokens (shared by every leg of a batch order)
+-- Run this in your PostgreSQL database
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS "batchToken" VARCHAR(32);
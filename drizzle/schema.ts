@@ -1,8 +1,20 @@
-import { pgTable, serial, text, timestamp, varchar, numeric, integer, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, varchar, numeric, integer, pgEnum, unique } from "drizzle-orm/pg-core";
 
 // Enums for PostgreSQL
 export const transactionTypeEnum = pgEnum("transaction_type", ["shield", "transfer", "unshield"]);
-export const transactionStatusEnum = pgEnum("transaction_status", ["pending", "confirmed", "failed"]);
+// confirmed is used by shield/unshield; the rest follow the routing lifecycle
+export const transactionStatusEnum = pgEnum("transaction_status", [
+  "pending",
+  "confirmed",
+  "failed",
+  "waiting",
+  "confirming",
+  "exchanging",
+  "sending",
+  "finished",
+  "refunded",
+  "expired",
+]);
 
 /**
  * Wallets table - stores connected Solana wallets
@@ -16,6 +28,18 @@ export const wallets = pgTable("wallets", {
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
 });
 
+/**
+ * Auth nonces table - one-time sign-in-with-Solana challenges
+ */
+export const authNonces = pgTable("auth_nonces", {
+  nonce: varchar("nonce", { length: 32 }).primaryKey(),
+  publicKey: varchar("publicKey", { length: 64 }).notNull(), // Wallet the nonce was issued to
+  message: text("message").notNull(), // Exact message the wallet must sign
+  expiresAt: timestamp("expiresAt").notNull(),
+  usedAt: timestamp("usedAt"), // Set once the nonce backs a sign-in
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
 /**
  * Transactions table - stores all private transaction operations
  */
@@ -23,17 +47,55 @@ export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   walletId: integer("walletId").notNull(),
   type: transactionTypeEnum("type").notNull(),
-  amount: numeric("amount", { precision: 20, scale: 9 }).notNull(), // Amount in lamports
-  amountSol: numeric("amountSol", { precision: 20, scale: 9 }).notNull(), // Amount in SOL for display
+  amount: numeric("amount", { precision: 20, scale: 9 }).notNull(), // Lamports (shield/unshield) or deposit amount in fromCurrency (transfers)
+  amountSol: numeric("amountSol", { precision: 20, scale: 9 }), // Amount in SOL for display - null for non-SOL transfers
   recipientPublicKey: varchar("recipientPublicKey", { length: 64 }), // Only for transfers
   txSignature: varchar("txSignature", { length: 128 }).notNull(),
   payinAddress: varchar("payinAddress", { length: 128 }), // Deposit address (for transfers)
+  direction: varchar("direction", { length: 8 }).default("send").notNull(), // send = fixed deposit, receive = fixed payout
+  // Route details (transfers only)
+  fromCurrency: varchar("fromCurrency", { length: 16 }),
+  toCurrency: varchar("toCurrency", { length: 16 }),
+  fromNetwork: varchar("fromNetwork", { length: 32 }),
+  toNetwork: varchar("toNetwork", { length: 32 }),
+  quotedReceiveAmount: numeric("quotedReceiveAmount", { precision: 30, scale: 12 }), // Expected payout in toCurrency
+  receivedAmount: numeric("receivedAmount", { precision: 30, scale: 12 }), // Actual payout, once the provider finished the route
+  feeAmount: numeric("feeAmount", { precision: 30, scale: 12 }), // Quoted fee (null if the transfer wasn't quoted)
+  feePercentage: numeric("feePercentage", { precision: 10, scale: 4 }),
+  payinHash: varchar("payinHash", { length: 128 }), // User's deposit transaction hash
+  payoutHash: varchar("payoutHash", { length: 128 }), // Provider's payout transaction hash
+  payinExtraId: varchar("payinExtraId", { length: 128 }), // Memo/tag the deposit must carry
+  payoutExtraId: varchar("payoutExtraId", { length: 128 }), // Memo/tag sent with the payout
+  refundAddress: varchar("refundAddress", { length: 128 }), // Where the provider returns funds on refund
+  refundExtraId: varchar("refundExtraId", { length: 128 }), // Memo/tag for the refund address
+  refundHash: varchar("refundHash", { length: 128 }), // Provider's refund transaction hash
+  refundAmount: numeric("refundAmount", { precision: 30, scale: 12 }), // Amount refunded, in fromCurrency
+  receiptToken: varchar("receiptToken", { length: 32 }), // Secret required to view the receipt (null = reference alone)
+  batchId: varchar("batchId", { length: 32 }), // NB- reference of the batch order this transfer is a leg of
+  batchToken: varchar("batchToken", { length: 32 }), // Secret required to view the batch (null = batch ID alone)
   status: transactionStatusEnum("status").default("pending").notNull(),
   errorMessage: text("errorMessage"),
+  adminNote: text("adminNote"), // Support annotation, set from the admin console
+  resolvedAt: timestamp("resolvedAt"), // Manually resolved by an admin - no longer reconciled
+  resolvedBy: varchar("resolvedBy", { length: 64 }), // Admin wallet that resolved it
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
 });
 
+/**
+ * Transaction status history - one row per status change (including the
+ * initial status), so support can reconstruct what happened to a transaction
+ */
+export const transactionStatusHistory = pgTable("transaction_status_history", {
+  id: serial("id").primaryKey(),
+  txSignature: varchar("txSignature", { length: 128 }).notNull(),
+  fromStatus: transactionStatusEnum("fromStatus"), // null for the initial status
+  toStatus: transactionStatusEnum("toStatus").notNull(),
+  source: varchar("source", { length: 32 }).notNull(), // transfer | reconciler | confirm | ...
+  detail: text("detail"), // Error message or provider status behind the change
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
 /**
  * Transaction routing mappings table - stores mapping between internal transaction IDs and routing service transaction IDs
  * Replaces in-memory Map for multi-instance support
@@ -42,13 +104,274 @@ export const transactionRouting = pgTable("transaction_routing", {
   id: serial("id").primaryKey(),
   txSignature: varchar("txSignature", { length: 128 }).notNull().unique(), // Internal transaction ID (unique constraint)
   routingTransactionId: varchar("routingTransactionId", { length: 128 }).notNull(), // Routing service transaction ID
+  provider: varchar("provider", { length: 32 }).default("changenow").notNull(), // Exchange provider that owns the route
+  routingStatus: varchar("routingStatus", { length: 16 }), // Last status reported by the provider
+  payinHash: varchar("payinHash", { length: 128 }), // User's deposit transaction hash
+  payoutHash: varchar("payoutHash", { length: 128 }), // Provider's payout transaction hash
+  checkAttempts: integer("checkAttempts").default(0).notNull(), // Checks since the status last changed (drives backoff)
+  nextCheckAt: timestamp("nextCheckAt").defaultNow().notNull(), // When the reconciler should poll this route next
+  lastCheckedAt: timestamp("lastCheckedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+/**
+ * Worker leases table - elects a single leader per background worker across
+ * instances. A lease is held until it expires unless its holder renews it.
+ */
+export const workerLeases = pgTable("worker_leases", {
+  name: varchar("name", { length: 64 }).primaryKey(), // Worker name (e.g. status-reconciler)
+  holder: varchar("holder", { length: 128 }).notNull(), // Instance currently holding the lease
+  expiresAt: timestamp("expiresAt").notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+/**
+ * Exchange quotes table - quotes shown to users, so a transfer can be created
+ * through the exact provider/route the user picked (works across instances)
+ */
+export const exchangeQuotes = pgTable("exchange_quotes", {
+  id: varchar("id", { length: 32 }).primaryKey(), // Public quote ID (q_...)
+  provider: varchar("provider", { length: 32 }).notNull(),
+  flow: varchar("flow", { length: 16 }).default("standard").notNull(), // standard | fixed-rate
+  direction: varchar("direction", { length: 8 }).default("send").notNull(), // send | receive
+  providerRateId: varchar("providerRateId", { length: 128 }), // Locked rate ID (fixed-rate only)
+  fromCurrency: varchar("fromCurrency", { length: 16 }).notNull(),
+  toCurrency: varchar("toCurrency", { length: 16 }).notNull(),
+  fromNetwork: varchar("fromNetwork", { length: 32 }).notNull(),
+  toNetwork: varchar("toNetwork", { length: 32 }).notNull(),
+  fromAmount: numeric("fromAmount", { precision: 30, scale: 12 }).notNull(),
+  toAmount: numeric("toAmount", { precision: 30, scale: 12 }).notNull(),
+  feeAmount: numeric("feeAmount", { precision: 30, scale: 12 }).default("0").notNull(),
+  feePercentage: numeric("feePercentage", { precision: 10, scale: 4 }).notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  consumedAt: timestamp("consumedAt"), // Set once a fixed-rate quote backs a transfer
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+/**
+ * Provider callbacks - one row per distinct status callback received,
+ * used to drop duplicate deliveries
+ */
+export const providerCallbacks = pgTable("provider_callbacks", {
+  id: serial("id").primaryKey(),
+  provider: varchar("provider", { length: 32 }).notNull(),
+  callbackKey: varchar("callbackKey", { length: 64 }).notNull().unique(), // SHA-256 of provider + raw body
+  routingTransactionId: varchar("routingTransactionId", { length: 128 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+/**
+ * Webhook endpoints - back-office URLs that receive signed lifecycle events
+ */
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  url: varchar("url", { length: 512 }).notNull(),
+  secret: varchar("secret", { length: 128 }).notNull(), // HMAC-SHA256 signing secret
+  events: text("events").notNull(), // Comma separated event types, or * for all
+  description: varchar("description", { length: 255 }),
+  isActive: integer("isActive").default(1).notNull(), // 1 = active, 0 = disabled
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+/**
+ * Webhook deliveries - persisted delivery queue, one row per event per endpoint.
+ * pending → delivered, or → dead once retries are exhausted (replayable)
+ */
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpointId").notNull(),
+  eventId: varchar("eventId", { length: 32 }).notNull(), // Same for every endpoint receiving the event
+  eventType: varchar("eventType", { length: 32 }).notNull(),
+  payload: text("payload").notNull(), // Exact JSON body that is signed and sent
+  status: varchar("status", { length: 16 }).default("pending").notNull(), // pending | delivered | dead
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt").defaultNow().notNull(),
+  lastResponseStatus: integer("lastResponseStatus"),
+  lastError: text("lastError"),
+  deliveredAt: timestamp("deliveredAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+/**
+ * Admin audit log - one row per admin action, written by the admin console
+ */
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  adminPublicKey: varchar("adminPublicKey", { length: 64 }).notNull(),
+  action: varchar("action", { length: 64 }).notNull(), // e.g. transaction.resync, webhooks.create
+  targetType: varchar("targetType", { length: 32 }), // transaction | webhook_endpoint | ...
+  targetId: varchar("targetId", { length: 128 }),
+  detail: text("detail"), // JSON with the action's input
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+/**
+ * Currency catalog - currencies/networks synced from the exchange provider.
+ * Sync only refreshes the provider's fields; enablement, ordering, icon and
+ * decimals are curated by admins and never overwritten.
+ */
+export const currencyCatalog = pgTable(
+  "currency_catalog",
+  {
+    id: serial("id").primaryKey(),
+    ticker: varchar("ticker", { length: 16 }).notNull(), // lowercase
+    network: varchar("network", { length: 32 }).notNull(), // lowercase provider network id
+    provider: varchar("provider", { length: 32 }).notNull(), // Provider the row was last synced from
+    name: varchar("name", { length: 64 }).notNull(),
+    networkName: varchar("networkName", { length: 64 }), // Display name override for the network
+    providerImage: varchar("providerImage", { length: 512 }), // Icon URL reported by the provider
+    icon: varchar("icon", { length: 512 }), // Admin icon override
+    decimals: integer("decimals"),
+    hasExtraId: integer("hasExtraId").default(0).notNull(), // 1 = network routes by memo/tag
+    isEnabled: integer("isEnabled").default(0).notNull(), // 1 = offered to users
+    displayOrder: integer("displayOrder").default(1000).notNull(), // Lower sorts first
+    lastSyncedAt: timestamp("lastSyncedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  table => [unique("currency_catalog_ticker_network_unique").on(table.ticker, table.network)]
+);
+
+/**
+ * Address book - saved payout recipients of a wallet. Labels are unique per
+ * wallet; the same address may be saved more than once with different tags.
+ */
+export const addressBook = pgTable(
+  "address_book",
+  {
+    id: serial("id").primaryKey(),
+    walletId: integer("walletId").notNull(),
+    label: varchar("label", { length: 64 }).notNull(),
+    currency: varchar("currency", { length: 16 }).notNull(), // Ticker the recipient is paid in
+    network: varchar("network", { length: 32 }).notNull(),
+    address: varchar("address", { length: 128 }).notNull(),
+    extraId: varchar("extraId", { length: 64 }), // Memo / destination tag
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  table => [unique("address_book_wallet_label_unique").on(table.walletId, table.label)]
+);
+
+/**
+ * Transfer schedules - transfers a wallet wants created later, once (runAt)
+ * or on a recurrence. The scheduler creates the route when nextRunAt is due.
+ */
+export const transferSchedules = pgTable("transfer_schedules", {
+  id: serial("id").primaryKey(),
+  walletId: integer("walletId").notNull(),
+  label: varchar("label", { length: 64 }).notNull(),
+  // Transfer to create, as passed to transaction.transfer
+  recipientAddress: varchar("recipientAddress", { length: 128 }).notNull(),
+  extraId: varchar("extraId", { length: 64 }),
+  amount: numeric("amount", { precision: 30, scale: 12 }).notNull(),
+  direction: varchar("direction", { length: 8 }).default("send").notNull(), // send = fixed deposit, receive = fixed payout
+  fromCurrency: varchar("fromCurrency", { length: 16 }).notNull(),
+  fromNetwork: varchar("fromNetwork", { length: 32 }).notNull(),
+  toCurrency: varchar("toCurrency", { length: 16 }).notNull(),
+  toNetwork: varchar("toNetwork", { length: 32 }).notNull(),
+  refundAddress: varchar("refundAddress", { length: 128 }),
+  refundExtraId: varchar("refundExtraId", { length: 64 }),
+  // Timing
+  recurrence: varchar("recurrence", { length: 64 }), // Cron-style expression (UTC) - null for a one-off
+  nextRunAt: timestamp("nextRunAt"), // null once nothing is left to run
+  status: varchar("status", { length: 16 }).default("active").notNull(), // active | paused | completed
+  consecutiveFailures: integer("consecutiveFailures").default(0).notNull(), // Paused after too many in a row
+  lastRunAt: timestamp("lastRunAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+/**
+ * Transfer schedule runs - one row per due run, with the transfer it created
+ * or the reason it failed
+ */
+export const transferScheduleRuns = pgTable(
+  "transfer_schedule_runs",
+  {
+    id: serial("id").primaryKey(),
+    scheduleId: integer("scheduleId").notNull(),
+    scheduledFor: timestamp("scheduledFor").notNull(), // The nextRunAt this run was for
+    status: varchar("status", { length: 16 }).notNull(), // created | failed
+    txSignature: varchar("txSignature", { length: 128 }), // NR- reference of the created transfer
+    payinAddress: varchar("payinAddress", { length: 128 }),
+    payinExtraId: varchar("payinExtraId", { length: 128 }),
+    depositAmount: numeric("depositAmount", { precision: 30, scale: 12 }),
+    error: text("error"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [unique("transfer_schedule_runs_schedule_slot_unique").on(table.scheduleId, table.scheduledFor)]
+);
+
+/**
+ * Wallet notifications - in-app inbox of the signed-in wallet
+ */
+export const walletNotifications = pgTable("wallet_notifications", {
+  id: serial("id").primaryKey(),
+  walletId: integer("walletId").notNull(),
+  type: varchar("type", { length: 32 }).notNull(), // e.g. schedule.run_created
+  title: varchar("title", { length: 255 }).notNull(),
+  body: text("body").notNull(),
+  data: text("data"), // JSON details (reference, payin address, ...)
+  readAt: timestamp("readAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+/**
+ * Rate alerts - notify a wallet when a route's quoted payout for a fixed
+ * deposit reaches a target. Re-armed after a cooldown, off after expiresAt.
+ */
+export const rateAlerts = pgTable("rate_alerts", {
+  id: serial("id").primaryKey(),
+  walletId: integer("walletId").notNull(),
+  fromCurrency: varchar("fromCurrency", { length: 16 }).notNull(),
+  fromNetwork: varchar("fromNetwork", { length: 32 }).notNull(),
+  toCurrency: varchar("toCurrency", { length: 16 }).notNull(),
+  toNetwork: varchar("toNetwork", { length: 32 }).notNull(),
+  amount: numeric("amount", { precision: 30, scale: 12 }).notNull(), // Deposit in fromCurrency
+  targetReceiveAmount: numeric("targetReceiveAmount", { precision: 30, scale: 12 }).notNull(), // Notify at or above this payout
+  cooldownMinutes: integer("cooldownMinutes").default(60).notNull(), // Quiet period after each notification
+  expiresAt: timestamp("expiresAt").notNull(),
+  isActive: integer("isActive").default(1).notNull(), // 1 = active, 0 = disabled or expired
+  lastReceiveAmount: numeric("lastReceiveAmount", { precision: 30, scale: 12 }), // Payout at the last check
+  lastError: text("lastError"), // Why the last check could not price the route
+  lastCheckedAt: timestamp("lastCheckedAt"),
+  lastTriggeredAt: timestamp("lastTriggeredAt"),
+  triggerCount: integer("triggerCount").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
 });
 
 export type Wallet = typeof wallets.$inferSelect;
 export type InsertWallet = typeof wallets.$inferInsert;
+export type AuthNonce = typeof authNonces.$inferSelect;
+export type InsertAuthNonce = typeof authNonces.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = typeof transactions.$inferInsert;
+export type TransactionStatusHistory = typeof transactionStatusHistory.$inferSelect;
+export type InsertTransactionStatusHistory = typeof transactionStatusHistory.$inferInsert;
 export type TransactionRouting = typeof transactionRouting.$inferSelect;
 export type InsertTransactionRouting = typeof transactionRouting.$inferInsert;
+export type WorkerLease = typeof workerLeases.$inferSelect;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type ExchangeQuoteRecord = typeof exchangeQuotes.$inferSelect;
+export type InsertExchangeQuote = typeof exchangeQuotes.$inferInsert;
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAdminAuditEntry = typeof adminAuditLog.$inferInsert;
+export type CurrencyCatalogEntry = typeof currencyCatalog.$inferSelect;
+export type InsertCurrencyCatalogEntry = typeof currencyCatalog.$inferInsert;
+export type AddressBookEntry = typeof addressBook.$inferSelect;
+export type InsertAddressBookEntry = typeof addressBook.$inferInsert;
+export type TransferSchedule = typeof transferSchedules.$inferSelect;
+export type InsertTransferSchedule = typeof transferSchedules.$inferInsert;
+export type TransferScheduleRun = typeof transferScheduleRuns.$inferSelect;
+export type InsertTransferScheduleRun = typeof transferScheduleRuns.$inferInsert;
+export type WalletNotification = typeof walletNotifications.$inferSelect;
+export type InsertWalletNotification = typeof walletNotifications.$inferInsert;
+export type RateAlert = typeof rateAlerts.$inferSelect;
+export type InsertRateAlert = typeof rateAlerts.$inferInsert;
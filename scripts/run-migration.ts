@@ -21,6 +21,26 @@ async function runMigration() {
   const migrationFiles = [
     join(process.cwd(), "drizzle", "0004_postgres_migration.sql"),
     join(process.cwd(), "drizzle", "0005_add_transaction_routing_and_constraints.sql"),
+    join(process.cwd(), "drizzle", "0006_add_exchange_provider.sql"),
+    join(process.cwd(), "drizzle", "0007_add_exchange_quotes.sql"),
+    join(process.cwd(), "drizzle", "0008_add_fixed_rate_quotes.sql"),
+    join(process.cwd(), "drizzle", "0009_add_quote_direction.sql"),
+    join(process.cwd(), "drizzle", "0010_add_status_reconciler.sql"),
+    join(process.cwd(), "drizzle", "0011_expand_transaction_status.sql"),
+    join(process.cwd(), "drizzle", "0012_add_transaction_route_details.sql"),
+    join(process.cwd(), "drizzle", "0013_add_webhooks.sql"),
+    join(process.cwd(), "drizzle", "0014_add_provider_callbacks.sql"),
+    join(process.cwd(), "drizzle", "0015_add_auth_nonces.sql"),
+    join(process.cwd(), "drizzle", "0016_add_admin_console.sql"),
+    join(process.cwd(), "drizzle", "0017_add_receipt_tokens.sql"),
+    join(process.cwd(), "drizzle", "0018_add_refund_details.sql"),
+    join(process.cwd(), "drizzle", "0019_add_currency_catalog.sql"),
+    join(process.cwd(), "drizzle", "0020_add_address_book.sql"),
+    join(process.cwd(), "drizzle", "0021_add_transaction_batches.sql"),
+    join(process.cwd(), "drizzle", "0022_add_transfer_schedules.sql"),
+    join(process.cwd(), "drizzle", "0023_add_rate_alerts.sql"),
+    join(process.cwd(), "drizzle", "0024_add_received_amount.sql"),
+    join(process.cwd(), "drizzle", "0025_add_batch_tokens.sql"),
   ];
   
   try {
@@ -0,0 +1,53 @@
+/**
+ * Address Book - saved payout recipients of a signed-in wallet
+ *
+ * Entries are checked with the same rules as transfer recipients (network
+ * address format and checksum, memo / tag format), so picking a saved entry
+ * never fills the bridge form with an address the transfer would reject.
+ */
+
+import {
+  getAddressValidationError,
+  getExtraIdValidationError,
+  getNetwork,
+  isValidAddress,
+  isValidExtraId,
+} from "./currencies";
+
+export const MAX_ADDRESS_BOOK_ENTRIES = 200;
+
+export type AddressBookInput = {
+  currency: string;
+  network: string;
+  address: string;
+  extraId?: string | null;
+};
+
+/**
+ * Normalize an entry (lowercase ticker/network, trimmed address and tag).
+ * Returns the entry, or the reason it can't be saved.
+ */
+export function validateAddressBookEntry(
+  input: AddressBookInput
+): { entry: Required<AddressBookInput>; error: null } | { entry: null; error: string } {
+  const currency = input.currency.trim().toLowerCase();
+  const network = input.network.trim().toLowerCase();
+  const address = input.address.trim();
+  const extraId = input.extraId?.trim() || null;
+
+  const networkConfig = getNetwork(currency, network);
+  if (!networkConfig) {
+    return { entry: null, error: `${network.toUpperCase()} is not a supported network for ${currency.toUpperCase()}` };
+  }
+  if (!isValidAddress(address, network)) {
+    return { entry: null, error: getAddressValidationError(network) };
+  }
+  if (extraId && !isValidExtraId(extraId, network)) {
+    return { entry: null, error: getExtraIdValidationError(network) };
+  }
+  if (!extraId && networkConfig.extraId?.required) {
+    return { entry: null, error: `${networkConfig.extraId.label} is required for ${network.toUpperCase()} recipients` };
+  }
+
+  return { entry: { currency, network, address, extraId }, error: null };
+}
@@ -0,0 +1,273 @@
+/**
+ * Address Validation - offline checksum checks per address type
+ *
+ * ADDRESS_PATTERNS only checks an address's shape, so a typo that keeps the
+ * shape (one wrong character in a BTC address, a miscased EVM address) would
+ * pass and the payout would be lost. These validators decode the address and
+ * verify its checksum without any network call:
+ *
+ * - EVM: EIP-55 mixed-case checksum (all-lower / all-upper carry none)
+ * - BTC: base58check (P2PKH / P2SH) and bech32 / bech32m (segwit v0 / v1+)
+ * - XRP: base58check with the Ripple alphabet
+ * - Tron: base58check with the 0x41 prefix
+ * - Solana: 32-byte key that lies on the ed25519 curve (PDAs can't sign)
+ */
+
+import { createHash } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+
+const BITCOIN_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const RIPPLE_ALPHABET = "rpshnaf39wBUDNEGHJKLM4PQRST7VWXYZ2bcdeCg65jkm8oFqi1tuvAxyz";
+
+const BTC_P2PKH_VERSION = 0x00;
+const BTC_P2SH_VERSION = 0x05;
+const XRP_ACCOUNT_VERSION = 0x00;
+const TRON_ADDRESS_VERSION = 0x41;
+
+// ── Base58 ─────────────────────────────────────────────────────────────────
+
+/**
+ * Decode base58 text with the given alphabet. Null on an invalid character.
+ */
+function base58Decode(text: string, alphabet: string): Uint8Array | null {
+  const bytes: number[] = [];
+  for (const char of text.split("")) {
+    let carry = alphabet.indexOf(char);
+    if (carry === -1) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i]! * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading "zero" character is a leading zero byte
+  for (let i = 0; i < text.length && text[i] === alphabet[0]; i++) {
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+}
+
+function sha256(data: Uint8Array): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+/**
+ * Decode a base58check string (version byte + payload + 4-byte double-SHA256
+ * checksum). Returns the version and payload, or null if the checksum fails.
+ */
+function base58CheckDecode(text: string, alphabet: string): { version: number; payload: Uint8Array } | null {
+  const bytes = base58Decode(text, alphabet);
+  if (!bytes || bytes.length < 5) return null;
+
+  const body = bytes.subarray(0, bytes.length - 4);
+  const checksum = sha256(sha256(body)).subarray(0, 4);
+  if (!checksum.equals(bytes.subarray(bytes.length - 4))) return null;
+
+  return { version: body[0]!, payload: body.subarray(1) };
+}
+
+// ── Keccak-256 (EIP-55) ────────────────────────────────────────────────────
+
+const KECCAK_RATE_BYTES = 136;
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const KECCAK_ROUND_CONSTANTS = [
+  "0x0000000000000001", "0x0000000000008082", "0x800000000000808a", "0x8000000080008000",
+  "0x000000000000808b", "0x0000000080000001", "0x8000000080008081", "0x8000000000008009",
+  "0x000000000000008a", "0x0000000000000088", "0x0000000080008009", "0x000000008000000a",
+  "0x000000008000808b", "0x800000000000008b", "0x8000000000008089", "0x8000000000008003",
+  "0x8000000000008002", "0x8000000000000080", "0x000000000000800a", "0x800000008000000a",
+  "0x8000000080008081", "0x8000000000008080", "0x0000000080000001", "0x8000000080008008",
+].map(constant => BigInt(constant));
+const KECCAK_ROTATIONS = [1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44];
+const KECCAK_PI = [10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1];
+
+function rotl64(value: bigint, shift: number): bigint {
+  return ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64;
+}
+
+function keccakF1600(state: bigint[]) {
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    // θ
+    const columns = [0, 1, 2, 3, 4].map(x => state[x]! ^ state[x + 5]! ^ state[x + 10]! ^ state[x + 15]! ^ state[x + 20]!);
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5]! ^ rotl64(columns[(x + 1) % 5]!, 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+
+    // ρ and π
+    let lane = state[1]!;
+    for (let i = 0; i < 24; i++) {
+      const target = KECCAK_PI[i]!;
+      const next = state[target]!;
+      state[target] = rotl64(lane, KECCAK_ROTATIONS[i]!);
+      lane = next;
+    }
+
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      const row = state.slice(y, y + 5);
+      for (let x = 0; x < 5; x++) {
+        state[y + x] = row[x]! ^ (~row[(x + 1) % 5]! & row[(x + 2) % 5]!);
+      }
+    }
+
+    // ι
+    state[0] ^= roundConstant;
+  }
+}
+
+/**
+ * Keccak-256 as used by Ethereum (original padding, not NIST SHA3-256)
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const blocks = Math.floor(data.length / KECCAK_RATE_BYTES) + 1;
+  const padded = new Uint8Array(blocks * KECCAK_RATE_BYTES);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(BigInt(0));
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE_BYTES) {
+    for (let lane = 0; lane < KECCAK_RATE_BYTES / 8; lane++) {
+      let value = BigInt(0);
+      for (let b = 7; b >= 0; b--) {
+        value = (value << BigInt(8)) | BigInt(padded[offset + lane * 8 + b]!);
+      }
+      state[lane] ^= value;
+    }
+    keccakF1600(state);
+  }
+
+  const digest = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    digest[i] = Number((state[i >> 3]! >> BigInt((i % 8) * 8)) & BigInt(0xff));
+  }
+  return digest;
+}
+
+// ── Bech32 / bech32m (BIP-173 / BIP-350) ───────────────────────────────────
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATORS.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const chars = hrp.split("").map(c => c.charCodeAt(0));
+  return [...chars.map(c => c >> 5), 0, ...chars.map(c => c & 31)];
+}
+
+/**
+ * Decode a segwit address for the given human-readable part. Null if the
+ * checksum, encoding variant or witness program is invalid.
+ */
+function decodeSegwitAddress(address: string, hrp: string): { version: number; program: number[] } | null {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) return null;
+  const text = address.toLowerCase();
+  const separator = text.lastIndexOf("1");
+  if (text.slice(0, separator) !== hrp || text.length > 90 || text.length - separator - 1 < 6) return null;
+
+  const data = text.slice(separator + 1).split("").map(c => BECH32_CHARSET.indexOf(c));
+  if (data.some(value => value === -1)) return null;
+
+  const checksum = bech32Polymod([...bech32HrpExpand(hrp), ...data]);
+  const version = data[0]!;
+  // v0 uses bech32, v1+ (taproot onwards) bech32m
+  if (checksum !== (version === 0 ? BECH32_CONST : BECH32M_CONST)) return null;
+  if (version > 16) return null;
+
+  // 5-bit groups -> bytes, without padding beyond the last partial group
+  const program: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const value of data.slice(1, -6)) {
+    accumulator = (accumulator << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      program.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator << (8 - bits)) & 0xff) return null;
+
+  if (program.length < 2 || program.length > 40) return null;
+  if (version === 0 && program.length !== 20 && program.length !== 32) return null;
+  return { version, program };
+}
+
+// ── Validators ─────────────────────────────────────────────────────────────
+
+/**
+ * EIP-55: each hex letter is uppercase iff the matching nibble of
+ * keccak256(lowercase address) is >= 8. Single-case addresses carry no
+ * checksum and are accepted.
+ */
+export function isValidEvmChecksum(address: string): boolean {
+  const hex = address.slice(2);
+  if (!/^[0-9a-fA-F]{40}$/.test(hex) || !address.startsWith("0x")) return false;
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return true;
+
+  const hash = keccak256(Buffer.from(hex.toLowerCase(), "ascii"));
+  return hex.split("").every((char, i) => {
+    if (!/[a-f]/i.test(char)) return true;
+    const nibble = (hash[i >> 1]! >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+    return nibble >= 8 ? char === char.toUpperCase() : char === char.toLowerCase();
+  });
+}
+
+export function isValidBitcoinChecksum(address: string): boolean {
+  if (/^bc1/i.test(address)) return decodeSegwitAddress(address, "bc") !== null;
+
+  const decoded = base58CheckDecode(address, BITCOIN_ALPHABET);
+  return (
+    decoded !== null &&
+    decoded.payload.length === 20 &&
+    (decoded.version === BTC_P2PKH_VERSION || decoded.version === BTC_P2SH_VERSION)
+  );
+}
+
+export function isValidXrpChecksum(address: string): boolean {
+  const decoded = base58CheckDecode(address, RIPPLE_ALPHABET);
+  return decoded !== null && decoded.version === XRP_ACCOUNT_VERSION && decoded.payload.length === 20;
+}
+
+export function isValidTronChecksum(address: string): boolean {
+  const decoded = base58CheckDecode(address, BITCOIN_ALPHABET);
+  return decoded !== null && decoded.version === TRON_ADDRESS_VERSION && decoded.payload.length === 20;
+}
+
+/**
+ * A Solana wallet address is an ed25519 public key. Off-curve keys are
+ * program-derived addresses with no private key, so funds sent there by a
+ * typo'd or pasted PDA can't be moved by the user.
+ */
+export function isValidSolanaKey(address: string): boolean {
+  const bytes = base58Decode(address, BITCOIN_ALPHABET);
+  return bytes !== null && bytes.length === 32 && PublicKey.isOnCurve(bytes);
+}
+
+// Checksum validator per ADDRESS_PATTERNS type
+export const CHECKSUM_VALIDATORS = {
+  sol: isValidSolanaKey,
+  evm: isValidEvmChecksum,
+  btc: isValidBitcoinChecksum,
+  xrp: isValidXrpChecksum,
+  tron: isValidTronChecksum,
+} satisfies Record<string, (address: string) => boolean>;
@@ -0,0 +1,47 @@
+/**
+ * Admin Access - wallet allow-list and audit log
+ *
+ * Admins are the wallets listed in ADMIN_WALLETS (comma-separated). They
+ * authenticate like everyone else (sign-in-with-Solana session);
+ * adminProcedure additionally checks the session wallet against the list.
+ * Every admin mutation is written to `admin_audit_log`.
+ */
+
+import * as db from "../db";
+import { ENV } from "./env";
+
+export function getAdminWallets(): string[] {
+  return ENV.adminWallets
+    .split(",")
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+export function isAdminWallet(publicKey: string | null | undefined): boolean {
+  if (!publicKey) return false;
+  return getAdminWallets().includes(publicKey);
+}
+
+/**
+ * Record an admin action. Never throws - the action itself already happened,
+ * so a failed audit write is logged rather than reported to the admin.
+ */
+export async function auditAdminAction(entry: {
+  adminPublicKey: string;
+  action: string;
+  targetType?: string;
+  targetId?: string | number;
+  detail?: Record<string, unknown>;
+}) {
+  try {
+    await db.recordAdminAction({
+      adminPublicKey: entry.adminPublicKey,
+      action: entry.action,
+      targetType: entry.targetType ?? null,
+      targetId: entry.targetId !== undefined ? String(entry.targetId) : null,
+      detail: entry.detail ? JSON.stringify(entry.detail) : null,
+    });
+  } catch (error) {
+    console.error(`[Admin] Failed to audit ${entry.action} by ${entry.adminPublicKey}:`, error);
+  }
+}
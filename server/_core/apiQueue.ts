@@ -2,15 +2,36 @@
  * API Queue System - Prevents hitting ChangeNow rate limits
  * Queue manages API calls to ChangeNow to ensure we stay under 1800 req/min (30 req/sec)
  * This runs automatically in the background - frontend never sees it
+ * Calls are dispatched through the ExchangeProvider selected per item
  */
 
+import type {
+  CreateExchangeParams,
+  EstimateParams,
+  ExchangeStatus,
+  ExchangeTransaction,
+  FeeEstimate,
+  LimitsParams,
+  PairLimits,
+} from "./exchangeProvider";
+
 type QueueItem = {
   id: string;
-  type: "createTransaction" | "getStatus" | "estimateFees";
+  type: "createTransaction" | "getStatus" | "estimateFees" | "getLimits";
   params: any;
+  providerId?: string; // Falls back to the configured provider
   resolve: (value: any) => void;
   reject: (error: Error) => void;
   priority: number; // Higher priority = processed first (status checks are higher priority)
+  enqueuedAt: number;
+};
+
+// Running totals since process start (for the admin console)
+type QueueStats = {
+  completed: number;
+  failed: number;
+  totalWaitMs: number;
+  lastError: { type: QueueItem["type"]; message: string; at: Date } | null;
 };
 
 class APIQueue {
@@ -19,6 +40,7 @@ class APIQueue {
   private readonly maxRequestsPerSecond = 25; // Stay under 30 req/sec limit (safe buffer)
   private readonly minDelayBetweenRequests = 1000 / this.maxRequestsPerSecond; // ~40ms between requests
   private lastRequestTime = 0;
+  private stats: QueueStats = { completed: 0, failed: 0, totalWaitMs: 0, lastError: null };
 
   /**
    * Add item to queue
@@ -26,16 +48,19 @@ class APIQueue {
   enqueue<T>(
     type: QueueItem["type"],
     params: any,
-    priority: number = 0
+    priority: number = 0,
+    providerId?: string
   ): Promise<T> {
     return new Promise<T>((resolve, reject) => {
       const item: QueueItem = {
         id: `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         type,
         params,
+        providerId,
         resolve,
         reject,
         priority,
+        enqueuedAt: Date.now(),
       };
 
       // Insert based on priority (higher priority first)
@@ -73,35 +98,36 @@ class APIQueue {
         }
 
         this.lastRequestTime = Date.now();
+        this.stats.totalWaitMs += this.lastRequestTime - item.enqueuedAt;
 
-        // Execute the API call
+        // Execute the API call against the provider chosen for this item
+        const { getExchangeProvider } = await import("./exchangeProvider");
+        const provider = await getExchangeProvider(item.providerId);
         let result: any;
         switch (item.type) {
           case "createTransaction":
-            const { createTransaction } = await import("./changenow");
-            result = await createTransaction(item.params);
+            result = await provider.createExchange(item.params);
             break;
           case "getStatus":
-            const { getTransactionStatus } = await import("./changenow");
-            result = await getTransactionStatus(item.params.transactionId);
+            result = await provider.getStatus(item.params.transactionId);
             break;
           case "estimateFees":
-            const { estimateTransactionFees } = await import("./changenow");
-            result = await estimateTransactionFees(
-              item.params.fromCurrency,
-              item.params.toCurrency,
-              item.params.fromNetwork ?? "solana",
-              item.params.toNetwork ?? "solana",
-              item.params.fromAmount
-            );
+            result = await provider.estimate(item.params);
+            break;
+          case "getLimits":
+            result = await provider.getLimits(item.params);
             break;
           default:
             throw new Error(`Unknown queue item type: ${item.type}`);
         }
 
+        this.stats.completed++;
         item.resolve(result);
       } catch (error) {
-        item.reject(error instanceof Error ? error : new Error(String(error)));
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.stats.failed++;
+        this.stats.lastError = { type: item.type, message: err.message, at: new Date() };
+        item.reject(err);
       }
     }
 
@@ -112,9 +138,21 @@ class APIQueue {
    * Get queue status (for monitoring)
    */
   getQueueStatus() {
+    const byType: Partial<Record<QueueItem["type"], number>> = {};
+    for (const item of this.queue) {
+      byType[item.type] = (byType[item.type] ?? 0) + 1;
+    }
+    const processed = this.stats.completed + this.stats.failed;
+
     return {
       queueLength: this.queue.length,
       processing: this.processing,
+      byType,
+      oldestWaitMs: this.queue.length > 0 ? Date.now() - Math.min(...this.queue.map(q => q.enqueuedAt)) : 0,
+      completed: this.stats.completed,
+      failed: this.stats.failed,
+      averageWaitMs: processed > 0 ? Math.round(this.stats.totalWaitMs / processed) : 0,
+      lastError: this.stats.lastError,
     };
   }
 }
@@ -125,34 +163,43 @@ const apiQueue = new APIQueue();
 /**
  * Queue a transaction creation request
  */
-export async function queueCreateTransaction(params: any) {
-  return apiQueue.enqueue("createTransaction", params, 1); // Normal priority
+export async function queueCreateTransaction(params: CreateExchangeParams, providerId?: string) {
+  return apiQueue.enqueue<ExchangeTransaction>("createTransaction", params, 1, providerId); // Normal priority
 }
 
 /**
- * Queue a status check request (higher priority)
+ * Queue a status check request (higher priority).
+ * Background checks pass a lower priority so they never delay user requests.
  */
-export async function queueGetTransactionStatus(transactionId: string) {
-  return apiQueue.enqueue("getStatus", { transactionId }, 10); // High priority for status checks
+export async function queueGetTransactionStatus(transactionId: string, providerId?: string, priority: number = 10) {
+  return apiQueue.enqueue<ExchangeStatus>("getStatus", { transactionId }, priority, providerId); // High priority for status checks
 }
 
 /**
  * Queue a fee estimation request
  */
-export async function queueEstimateFees(fromCurrency: string, toCurrency: string, fromAmount: number) {
-  return apiQueue.enqueue(
+export async function queueEstimateFees(params: EstimateParams, providerId?: string) {
+  return apiQueue.enqueue<FeeEstimate>(
     "estimateFees",
     {
-      fromCurrency: fromCurrency.toLowerCase(),
-      toCurrency: toCurrency.toLowerCase(),
-      fromNetwork: "sol",
-      toNetwork: "sol",
-      fromAmount,
+      ...params,
+      fromCurrency: params.fromCurrency.toLowerCase(),
+      toCurrency: params.toCurrency.toLowerCase(),
+      fromNetwork: params.fromNetwork.toLowerCase(),
+      toNetwork: params.toNetwork.toLowerCase(),
     },
-    5
+    5,
+    providerId
   ); // Medium priority
 }
 
+/**
+ * Queue a pair min/max limits request
+ */
+export async function queueGetLimits(params: LimitsParams, providerId?: string) {
+  return apiQueue.enqueue<PairLimits>("getLimits", params, 5, providerId); // Medium priority
+}
+
 /**
  * Get queue status for monitoring
  */
@@ -0,0 +1,334 @@
+/**
+ * Batch Orders - several payouts funded from one source currency
+ *
+ * Each leg (recipient, target currency/network, deposit amount) becomes its
+ * own routed transfer, created through the API queue and persisted like a
+ * single transfer, tagged with the batch's NB- reference. The batch has no
+ * row of its own: its status is aggregated from the legs' statuses, which
+ * the transaction monitor keeps up to date.
+ *
+ * Like receipts, a batch gets a secret token (when receipt tokens are
+ * enabled) that has to accompany the NB- reference to view it, since the
+ * summary lists every leg's recipient and deposit address.
+ *
+ * Legs can also be uploaded as CSV, one leg per line:
+ *   recipient,toCurrency,toNetwork,amount[,extraId]
+ * with an optional header row naming the columns (in any order).
+ */
+
+import { customAlphabet } from "nanoid";
+import type { Transaction } from "../../drizzle/schema";
+import { queueCreateTransaction } from "./apiQueue";
+import {
+  getAddressValidationError,
+  getCurrency,
+  getExtraIdValidationError,
+  getNetwork,
+  isValidAddress,
+  isValidExtraId,
+  resolveToNetwork,
+} from "./currencies";
+import { ENV } from "./env";
+import { getDefaultProviderId } from "./exchangeProvider";
+import { generateReceiptToken, matchesToken } from "./receipts";
+import { TERMINAL_STATUSES, type TransactionStatus } from "./transactionStatus";
+import { persistTransfer } from "./transfers";
+
+export const MAX_BATCH_LEGS = 25;
+
+const generateBatchId = customAlphabet("0123456789ABCDEFGHJKLMNPQRSTUVWXYZ", 12);
+
+export type BatchLegInput = {
+  recipientAddress: string;
+  toCurrency: string;
+  toNetwork?: string | null;
+  amount: string;
+  extraId?: string | null;
+};
+
+export type BatchLeg = {
+  recipientAddress: string;
+  toCurrency: string;
+  toNetwork: string;
+  amount: number; // Deposit in the batch's source currency
+  extraId: string | null;
+};
+
+// awaiting_deposit until any leg moves; processing until every leg is final
+export type BatchStatus = "awaiting_deposit" | "processing" | "finished" | "partially_finished" | "failed";
+
+// ── CSV ────────────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS = ["recipientAddress", "toCurrency", "toNetwork", "amount", "extraId"] as const;
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+// Accepted header names (lowercase, letters only)
+const CSV_HEADER_ALIASES: Record<string, CsvColumn> = {
+  recipient: "recipientAddress",
+  recipientaddress: "recipientAddress",
+  address: "recipientAddress",
+  tocurrency: "toCurrency",
+  currency: "toCurrency",
+  asset: "toCurrency",
+  tonetwork: "toNetwork",
+  network: "toNetwork",
+  amount: "amount",
+  extraid: "extraId",
+  memo: "extraId",
+  tag: "extraId",
+  destinationtag: "extraId",
+};
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+/**
+ * Parse uploaded CSV into legs. Rows that can't be read are reported by line
+ * number (1-based) instead of failing the whole upload; the legs themselves
+ * are validated when the batch is created.
+ */
+export function parseBatchCsv(csv: string): { legs: BatchLegInput[]; errors: { line: number; message: string }[] } {
+  const legs: BatchLegInput[] = [];
+  const errors: { line: number; message: string }[] = [];
+  const lines = csv.split(/\r?\n/);
+
+  let columns: readonly (CsvColumn | null)[] = CSV_COLUMNS;
+  let headerChecked = false;
+
+  lines.forEach((line, i) => {
+    const lineNumber = i + 1;
+    if (!line.trim() || line.trim().startsWith("#")) return;
+    const fields = splitCsvLine(line);
+
+    if (!headerChecked) {
+      headerChecked = true;
+      const header = fields.map(f => CSV_HEADER_ALIASES[f.toLowerCase().replace(/[^a-z]/g, "")] ?? null);
+      if (header.every(column => column !== null)) {
+        columns = header;
+        return;
+      }
+    }
+
+    const row: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, index) => {
+      if (column && fields[index]) row[column] = fields[index];
+    });
+
+    if (!row.recipientAddress || !row.toCurrency || !row.amount) {
+      errors.push({ line: lineNumber, message: "Missing recipient, currency or amount" });
+      return;
+    }
+    if (legs.length >= MAX_BATCH_LEGS) {
+      errors.push({ line: lineNumber, message: `A batch can have at most ${MAX_BATCH_LEGS} legs` });
+      return;
+    }
+
+    legs.push({
+      recipientAddress: row.recipientAddress,
+      toCurrency: row.toCurrency,
+      toNetwork: row.toNetwork ?? null,
+      amount: row.amount,
+      extraId: row.extraId ?? null,
+    });
+  });
+
+  return { legs, errors };
+}
+
+// ── Legs ───────────────────────────────────────────────────────────────────
+
+/**
+ * Check a leg with the same rules as a single transfer's recipient. Without
+ * a network, a same-currency leg stays on the source network and a swap
+ * pays out on the target currency's default network.
+ */
+export function validateBatchLeg(
+  leg: BatchLegInput,
+  source: { currency: string; network: string }
+): { leg: BatchLeg; error: null } | { leg: null; error: string } {
+  const toCurrency = leg.toCurrency.trim().toLowerCase();
+  const currency = getCurrency(toCurrency);
+  if (!currency) {
+    return { leg: null, error: `Unsupported currency: ${toCurrency}` };
+  }
+
+  const toNetwork = resolveToNetwork(toCurrency, leg.toNetwork, source);
+  const network = getNetwork(toCurrency, toNetwork);
+  if (!network) {
+    return { leg: null, error: `Unsupported network ${toNetwork} for ${currency.symbol}` };
+  }
+
+  const recipientAddress = leg.recipientAddress.trim();
+  if (!isValidAddress(recipientAddress, toNetwork)) {
+    return { leg: null, error: getAddressValidationError(toNetwork) };
+  }
+
+  const extraId = leg.extraId?.trim() || null;
+  if (extraId && !isValidExtraId(extraId, toNetwork)) {
+    return { leg: null, error: getExtraIdValidationError(toNetwork) };
+  }
+  if (!extraId && network.extraId?.required) {
+    return { leg: null, error: `${network.extraId.label} is required for ${toNetwork.toUpperCase()} payouts` };
+  }
+
+  const amount = Number(leg.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { leg: null, error: "Invalid amount" };
+  }
+
+  return { leg: { recipientAddress, toCurrency, toNetwork, amount, extraId }, error: null };
+}
+
+export function aggregateBatchStatus(statuses: TransactionStatus[]): BatchStatus {
+  if (statuses.length === 0) return "failed";
+
+  if (statuses.some(s => !TERMINAL_STATUSES.includes(s))) {
+    return statuses.every(s => s === "pending" || s === "waiting") ? "awaiting_deposit" : "processing";
+  }
+
+  const finished = statuses.filter(s => s === "finished" || s === "confirmed").length;
+  if (finished === statuses.length) return "finished";
+  return finished === 0 ? "failed" : "partially_finished";
+}
+
+/**
+ * Create one route per leg and persist them under a new batch reference.
+ * Legs are created independently - a leg the provider rejects is reported in
+ * `failed` and the others still go ahead.
+ */
+export async function createBatchOrder(params: {
+  fromCurrency: string;
+  fromNetwork: string;
+  legs: BatchLeg[];
+  refundAddress?: string;
+  refundExtraId?: string;
+  walletId?: number; // Owner of the legs (signed-in wallet), else the shared placeholder
+}) {
+  const { fromCurrency, fromNetwork } = params;
+  const batchId = `NB-${generateBatchId()}`;
+  const batchToken = ENV.receiptTokensEnabled ? generateReceiptToken() : null;
+  const providerId = getDefaultProviderId();
+  console.log(`[Batch] Creating ${batchId}: ${params.legs.length} legs from ${fromCurrency} on ${fromNetwork} via ${providerId}`);
+
+  const results = await Promise.allSettled(
+    params.legs.map(async leg => {
+      const routingTx = await queueCreateTransaction(
+        {
+          fromCurrency,
+          toCurrency: leg.toCurrency,
+          fromNetwork,
+          toNetwork: leg.toNetwork,
+          fromAmount: leg.amount,
+          address: leg.recipientAddress,
+          extraId: leg.extraId ?? undefined,
+          flow: "standard",
+          refundAddress: params.refundAddress,
+          refundExtraId: params.refundExtraId,
+        },
+        providerId
+      );
+
+      const receiveAmount = Number(routingTx.toAmount);
+      const { reference, receiptToken } = await persistTransfer({
+        routingTx,
+        providerId,
+        walletId: params.walletId,
+        batchId,
+        batchToken,
+        direction: "send",
+        fromCurrency,
+        toCurrency: leg.toCurrency,
+        fromNetwork,
+        toNetwork: leg.toNetwork,
+        depositAmount: leg.amount,
+        receiveAmount,
+        recipientAddress: leg.recipientAddress,
+        extraId: leg.extraId,
+        refundAddress: params.refundAddress,
+        refundExtraId: params.refundExtraId,
+        fee: null,
+      });
+
+      return {
+        reference,
+        receiptToken,
+        routingTransactionId: routingTx.id,
+        payinAddress: routingTx.payinAddress,
+        payinExtraId: routingTx.payinExtraId ?? null,
+        amount: leg.amount,
+        receiveAmount,
+        toCurrency: leg.toCurrency,
+        toNetwork: leg.toNetwork,
+        recipientAddress: leg.recipientAddress,
+        status: "pending" as TransactionStatus,
+      };
+    })
+  );
+
+  const legs = results.flatMap((result, index) => (result.status === "fulfilled" ? [{ index, ...result.value }] : []));
+  const failed = results.flatMap((result, index) =>
+    result.status === "rejected"
+      ? [{ index, error: result.reason instanceof Error ? result.reason.message : "Route creation failed" }]
+      : []
+  );
+
+  return { batchId, batchToken, legs, failed };
+}
+
+export function canViewBatch(transactions: Pick<Transaction, "batchToken">[], token: string | undefined): boolean {
+  return transactions.every(tx => matchesToken(tx.batchToken, token));
+}
+
+/**
+ * Public view of a batch: aggregate status plus each leg's deposit details.
+ * Receipt and batch tokens are left out - only createBatch hands them to the
+ * creator.
+ */
+export function toBatchSummary(batchId: string, transactions: Transaction[]) {
+  const legs = transactions.map(tx => ({
+    reference: tx.txSignature,
+    status: tx.status,
+    payinAddress: tx.payinAddress,
+    payinExtraId: tx.payinExtraId,
+    amount: Number(tx.amount),
+    receiveAmount: tx.quotedReceiveAmount === null ? null : Number(tx.quotedReceiveAmount),
+    toCurrency: tx.toCurrency,
+    toNetwork: tx.toNetwork,
+    recipientAddress: tx.recipientPublicKey,
+  }));
+
+  return {
+    batchId,
+    status: aggregateBatchStatus(transactions.map(tx => tx.status)),
+    fromCurrency: transactions[0]?.fromCurrency ?? null,
+    fromNetwork: transactions[0]?.fromNetwork ?? null,
+    totalDeposit: legs.reduce((sum, leg) => sum + leg.amount, 0),
+    legs,
+  };
+}
@@ -7,6 +7,10 @@
  * Documentation: https://documenter.getpostman.com/view/8180765/SVfTPnM8?version=latest
  */
 
+import { createHmac, timingSafeEqual } from "crypto";
+import { ENV } from "./env";
+import type { ExchangeProvider, ExchangeStatus, ExchangeStatusValue } from "./exchangeProvider";
+
 // Read API key directly from process.env at runtime
 // This ensures it works in production where env vars are set by the platform
 
@@ -21,7 +25,10 @@ export interface ChangeNowTransactionParams {
   toAmount?: number; // Amount to receive (optional if fromAmount provided)
   address: string; // Destination wallet address
   flow?: "standard" | "fixed-rate"; // Transaction flow type
+  rateId?: string; // Required for fixed-rate flow (from a fixed-rate estimate)
   extraId?: string; // For coins that require memo/tag
+  refundAddress?: string; // Refunds go here instead of being held by ChangeNow
+  refundExtraId?: string; // Memo/tag for the refund address
 }
 
 export interface ChangeNowTransactionResponse {
@@ -51,6 +58,8 @@ export interface ChangeNowTransactionStatus {
   toAmount: number;
   payinHash?: string;
   payoutHash?: string;
+  refundHash?: string;
+  refundAmount?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -100,9 +109,22 @@ export async function createTransaction(
   if (params.toAmount) {
     requestBody.toAmount = params.toAmount;
   }
+  requestBody.type = params.toAmount && !params.fromAmount ? "reverse" : "direct";
   if (params.extraId) {
     requestBody.extraId = params.extraId;
   }
+  if (params.refundAddress) {
+    requestBody.refundAddress = params.refundAddress.trim();
+    if (params.refundExtraId) {
+      requestBody.refundExtraId = params.refundExtraId;
+    }
+  }
+  if (params.flow === "fixed-rate") {
+    if (!params.rateId) {
+      throw new Error("A locked rate is required for fixed-rate transactions");
+    }
+    requestBody.rateId = params.rateId;
+  }
 
   // Retry logic for transient failures (critical for user funds)
   const maxRetries = 3;
@@ -271,13 +293,16 @@ export async function getExchangeRate(
   fromNetwork: string = "sol",
   toNetwork: string = "sol",
   fromAmount?: number,
-  toAmount?: number
+  toAmount?: number,
+  flow: "standard" | "fixed-rate" = "standard"
 ): Promise<{
   fromCurrency: string;
   toCurrency: string;
   fromAmount: number;
   toAmount: number;
   rate: number;
+  rateId?: string;
+  validUntil?: string;
 }> {
   const apiKey = process.env.CHANGENOW_API_KEY;
   if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === "") {
@@ -296,6 +321,13 @@ export async function getExchangeRate(
   if (toAmount) {
     url.searchParams.set("toAmount", toAmount.toString());
   }
+  url.searchParams.set("flow", flow);
+  // Reverse estimates ("receive exactly") are keyed on toAmount
+  url.searchParams.set("type", toAmount && !fromAmount ? "reverse" : "direct");
+  if (flow === "fixed-rate") {
+    // Ask ChangeNow to lock the rate and return a rateId for createTransaction
+    url.searchParams.set("useRateId", "true");
+  }
 
   try {
     // Add timeout for serverless environments
@@ -330,17 +362,79 @@ export async function getExchangeRate(
   }
 }
 
+/**
+ * Get the min/max exchangeable amount for a currency pair
+ * maxAmount is null when ChangeNow reports no upper bound
+ */
+export async function getExchangeRange(
+  fromCurrency: string,
+  toCurrency: string,
+  fromNetwork: string,
+  toNetwork: string,
+  flow: "standard" | "fixed-rate" = "standard"
+): Promise<{ minAmount: number; maxAmount: number | null }> {
+  const apiKey = process.env.CHANGENOW_API_KEY;
+  if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === "") {
+    throw new Error("Exchange API key is not configured");
+  }
+
+  const url = new URL(`${CHANGENOW_API_URL}/exchange/range`);
+  url.searchParams.set("fromCurrency", fromCurrency.toLowerCase());
+  url.searchParams.set("toCurrency", toCurrency.toLowerCase());
+  url.searchParams.set("fromNetwork", fromNetwork.toLowerCase());
+  url.searchParams.set("toNetwork", toNetwork.toLowerCase());
+  url.searchParams.set("flow", flow);
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "x-changenow-api-key": apiKey,
+      },
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      minAmount: Number(data.minAmount ?? 0),
+      maxAmount: data.maxAmount === null || data.maxAmount === undefined ? null : Number(data.maxAmount),
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        throw new Error("Request timeout. Please try again.");
+      }
+      throw error;
+    }
+    throw new Error("Failed to get exchange range");
+  }
+}
+
 /**
  * Estimate transaction fees and receive amount
  * Returns fee information without exposing ChangeNow branding
  * Note: ChangeNow API uses lowercase currency tickers and network names
+ * Pass toAmount instead of fromAmount for a reverse ("receive exactly")
+ * estimate - ChangeNow only supports those on the fixed-rate flow
  */
 export async function estimateTransactionFees(
   fromCurrency: string = "sol",
   toCurrency: string = "sol",
   fromNetwork: string = "sol",
   toNetwork: string = "sol",
-  fromAmount: number
+  fromAmount: number | undefined,
+  flow: "standard" | "fixed-rate" = "standard",
+  toAmount?: number
 ): Promise<{
   sendAmount: number;
   receiveAmount: number;
@@ -349,13 +443,17 @@ export async function estimateTransactionFees(
   isValid: boolean;
   transactionSpeedForecast?: string;
   toCurrency: string;
+  rateId?: string;
+  validUntil?: string;
 }> {
   const apiKey = process.env.CHANGENOW_API_KEY;
   if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === "") {
     throw new Error("API key is not configured");
   }
 
-  if (fromAmount <= 0 || isNaN(fromAmount)) {
+  const isReverse = !fromAmount && !!toAmount;
+  const requestedAmount = isReverse ? toAmount! : fromAmount;
+  if (!requestedAmount || requestedAmount <= 0 || isNaN(requestedAmount)) {
     throw new Error("Invalid amount");
   }
 
@@ -365,18 +463,21 @@ export async function estimateTransactionFees(
     const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
 
     // Get exchange rate to calculate what the recipient will receive
+    // (or, for reverse estimates, what the user has to deposit)
     const rateInfo = await getExchangeRate(
       fromCurrency,
       toCurrency,
       fromNetwork,
       toNetwork,
-      fromAmount
+      isReverse ? undefined : fromAmount,
+      isReverse ? toAmount : undefined,
+      isReverse ? "fixed-rate" : flow
     );
     
     clearTimeout(timeoutId);
     
-    const sendAmount = fromAmount;
-    const receiveAmount = rateInfo.toAmount || fromAmount;
+    const sendAmount = isReverse ? Number(rateInfo.fromAmount) : requestedAmount;
+    const receiveAmount = isReverse ? requestedAmount : rateInfo.toAmount || requestedAmount;
     const feeAmount = sendAmount - receiveAmount;
     const feePercentage = sendAmount > 0 ? (feeAmount / sendAmount) * 100 : 0;
 
@@ -388,6 +489,8 @@ export async function estimateTransactionFees(
       isValid: receiveAmount > 0 && sendAmount > 0,
       transactionSpeedForecast: (rateInfo as any).transactionSpeedForecast,
       toCurrency: toCurrency.toUpperCase(),
+      rateId: rateInfo.rateId,
+      validUntil: rateInfo.validUntil,
     };
   } catch (error) {
     if (error instanceof Error) {
@@ -401,8 +504,8 @@ export async function estimateTransactionFees(
 }
 
 /**
- * Validate an address via the exchange API
- * More accurate than local regex validation
+ * Validate an address via the exchange API. Advisory only - transfers are
+ * gated by the offline checks in isValidAddress.
  */
 export async function validateAddress(
   currency: string,
@@ -434,9 +537,114 @@ export async function validateAddress(
       message: data.message,
     };
   } catch (error) {
-    // Graceful fallback - allow the transaction to proceed
-    console.warn("[validateAddress] API validation failed, allowing:", error);
-    return { result: true, message: "Validation skipped" };
+    // Never report an unchecked address as valid
+    console.warn("[validateAddress] API validation failed:", error);
+    return { result: false, message: "Address validation unavailable" };
   }
 }
 
+
+// ChangeNow statuses outside the common lifecycle
+const CHANGENOW_STATUS_ALIASES: Record<string, ExchangeStatusValue> = {
+  new: "waiting", // Created, deposit not yet awaited
+  verifying: "confirming", // Deposit received, held for verification
+};
+
+/**
+ * Normalize a v1 status payload into the provider-neutral shape.
+ * v1 reports amounts as amountSend/amountReceive (or the expected* variants
+ * before the deposit lands), not fromAmount/toAmount.
+ */
+function toExchangeStatus(raw: any): ExchangeStatus {
+  const status = String(raw.status);
+  return {
+    id: String(raw.id),
+    status: CHANGENOW_STATUS_ALIASES[status] ?? (status as ExchangeStatusValue),
+    payinAddress: raw.payinAddress,
+    payoutAddress: raw.payoutAddress,
+    fromCurrency: raw.fromCurrency,
+    toCurrency: raw.toCurrency,
+    fromAmount: Number(raw.amountSend ?? raw.fromAmount ?? raw.expectedSendAmount ?? 0),
+    toAmount: Number(raw.amountReceive ?? raw.toAmount ?? raw.expectedReceiveAmount ?? 0),
+    payinHash: raw.payinHash ?? undefined,
+    payoutHash: raw.payoutHash ?? undefined,
+    refundHash: raw.refundHash ?? undefined,
+    refundAmount: raw.refundAmount === null || raw.refundAmount === undefined ? undefined : Number(raw.refundAmount),
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt,
+  };
+}
+
+/**
+ * ChangeNow implementation of the ExchangeProvider interface
+ */
+export const changenowProvider: ExchangeProvider = {
+  id: "changenow",
+
+  createExchange(params) {
+    return createTransaction(params);
+  },
+
+  async getStatus(transactionId) {
+    return toExchangeStatus(await getTransactionStatus(transactionId));
+  },
+
+  parseCallback(rawBody, headers) {
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return null;
+    }
+    if (!payload?.id) return null;
+
+    // Without a shared secret nothing can be authenticated - refuse, the
+    // reconciler still picks up the status
+    const secret = ENV.changenowCallbackSecret;
+    if (!secret) return null;
+
+    const signature = headers["x-changenow-signature"];
+    if (typeof signature !== "string") return null;
+    const expected = Buffer.from(createHmac("sha512", secret).update(rawBody).digest("hex"));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    return {
+      transactionId: String(payload.id),
+      status: payload.status ? toExchangeStatus(payload) : undefined,
+    };
+  },
+
+  estimate(params) {
+    return estimateTransactionFees(
+      params.fromCurrency,
+      params.toCurrency,
+      params.fromNetwork,
+      params.toNetwork,
+      params.fromAmount,
+      params.flow,
+      params.toAmount
+    );
+  },
+
+  getLimits(params) {
+    return getExchangeRange(params.fromCurrency, params.toCurrency, params.fromNetwork, params.toNetwork, params.flow);
+  },
+
+  validateAddress(currency, address) {
+    return validateAddress(currency, address);
+  },
+
+  async listCurrencies() {
+    const currencies = await getAvailableCurrencies();
+    return currencies.map((c: any) => ({
+      ticker: String(c.ticker).toLowerCase(),
+      name: c.name,
+      network: String(c.network ?? c.ticker).toLowerCase(),
+      hasExternalId: !!c.hasExternalId,
+      image: c.image,
+    }));
+  },
+};
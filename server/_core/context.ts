@@ -1,15 +1,24 @@
 import type { CreateExpressContextOptions } from "@trpc/server/adapters/express";
+import { parse as parseCookie } from "cookie";
+import { COOKIE_NAME } from "@shared/const";
+import { verifySessionToken, type WalletSession } from "./walletAuth";
 
 export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
+  // Wallet proven by a sign-in-with-Solana session cookie
+  wallet: WalletSession | null;
 };
 
 export async function createContext(
   opts: CreateExpressContextOptions
 ): Promise<TrpcContext> {
+  const cookies = parseCookie(opts.req.headers.cookie ?? "");
+  const wallet = await verifySessionToken(cookies[COOKIE_NAME]);
+
   return {
     req: opts.req,
     res: opts.res,
+    wallet,
   };
 }
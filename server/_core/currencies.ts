@@ -1,12 +1,25 @@
 /**
  * Multi-Currency Configuration for Private Transfers
  * Supports 7 major cryptocurrencies with their respective networks
+ *
+ * SUPPORTED_CURRENCIES is the built-in list. At runtime the lookups below
+ * read the active catalog instead, which currencyCatalog.ts loads from the
+ * synced `currency_catalog` table - the built-in list is the fallback.
  */
 
+import { CHECKSUM_VALIDATORS } from "./addressValidation";
+
+export interface ExtraIdConfig {
+  label: string;        // What the chain calls it (e.g. "Destination tag", "Memo")
+  required: boolean;    // Payouts are rejected without one
+  placeholder: string;
+}
+
 export interface NetworkConfig {
   id: string;           // ChangeNow network identifier (lowercase)
   name: string;         // Display name
   addressPlaceholder: string;
+  extraId?: ExtraIdConfig; // Set for chains that route by memo/tag as well as address
 }
 
 export interface CurrencyConfig {
@@ -16,6 +29,7 @@ export interface CurrencyConfig {
   networks: NetworkConfig[];
   defaultNetwork: string;
   decimals: number;
+  icon?: string;        // Icon URL (catalog currencies only)
 }
 
 // Address validation patterns for each blockchain type
@@ -36,6 +50,17 @@ export const ADDRESS_PATTERNS = {
   tron: /^T[1-9A-HJ-NP-Za-km-z]{33}$/,
 };
 
+// Memo / tag formats for networks that use one
+export const EXTRA_ID_PATTERNS: Record<string, RegExp> = {
+  // XRP destination tag: unsigned 32-bit integer
+  xrp: /^\d{1,10}$/,
+};
+
+// Memo format for catalog networks without a known pattern
+const GENERIC_EXTRA_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const MAX_XRP_DESTINATION_TAG = 4294967295;
+
 // Map networks to their address pattern type
 export const NETWORK_ADDRESS_TYPE: Record<string, keyof typeof ADDRESS_PATTERNS> = {
   sol: "sol",
@@ -107,7 +132,13 @@ export const SUPPORTED_CURRENCIES: CurrencyConfig[] = [
     name: "XRP",
     symbol: "XRP",
     networks: [
-      { id: "xrp", name: "XRP Ledger", addressPlaceholder: "XRP address (r...)" },
+      {
+        id: "xrp",
+        name: "XRP Ledger",
+        addressPlaceholder: "XRP address (r...)",
+        // Exchange-hosted XRP addresses are shared - the tag picks the account
+        extraId: { label: "Destination tag", required: false, placeholder: "Destination tag (e.g. 123456)" },
+      },
     ],
     defaultNetwork: "xrp",
     decimals: 6,
@@ -144,11 +175,27 @@ export const SUPPORTED_CURRENCIES: CurrencyConfig[] = [
   },
 ];
 
+let activeCurrencies: CurrencyConfig[] = SUPPORTED_CURRENCIES;
+
+/**
+ * Currencies currently offered to users (catalog, or the built-in list)
+ */
+export function getActiveCurrencies(): CurrencyConfig[] {
+  return activeCurrencies;
+}
+
+/**
+ * Replace the active currency list; an empty list restores the built-in one
+ */
+export function setActiveCurrencies(currencies: CurrencyConfig[]) {
+  activeCurrencies = currencies.length > 0 ? currencies : SUPPORTED_CURRENCIES;
+}
+
 /**
  * Get currency configuration by ticker
  */
 export function getCurrency(ticker: string): CurrencyConfig | undefined {
-  return SUPPORTED_CURRENCIES.find(c => c.ticker.toLowerCase() === ticker.toLowerCase());
+  return activeCurrencies.find(c => c.ticker.toLowerCase() === ticker.toLowerCase());
 }
 
 /**
@@ -160,7 +207,24 @@ export function getNetwork(ticker: string, networkId: string): NetworkConfig | u
 }
 
 /**
- * Validate address format for a given network
+ * Destination network of a route when none is given: same-currency routes
+ * stay on the source network, swaps pay out on the target currency's default
+ * network. Always lowercase.
+ */
+export function resolveToNetwork(
+  toCurrency: string,
+  toNetwork: string | null | undefined,
+  source: { currency: string; network: string }
+): string {
+  const explicit = toNetwork?.trim();
+  if (explicit) return explicit.toLowerCase();
+  if (toCurrency.toLowerCase() === source.currency.toLowerCase()) return source.network.toLowerCase();
+  return (getCurrency(toCurrency)?.defaultNetwork ?? toCurrency).toLowerCase();
+}
+
+/**
+ * Validate an address for a given network - its format, then its checksum
+ * (offline, see addressValidation.ts)
  */
 export function isValidAddress(address: string, networkId: string): boolean {
   if (!address || typeof address !== "string") return false;
@@ -171,8 +235,38 @@ export function isValidAddress(address: string, networkId: string): boolean {
     return address.length >= 20;
   }
   
-  const pattern = ADDRESS_PATTERNS[addressType];
-  return pattern.test(address.trim());
+  const trimmed = address.trim();
+  return ADDRESS_PATTERNS[addressType].test(trimmed) && CHECKSUM_VALIDATORS[addressType](trimmed);
+}
+
+/**
+ * Validate a memo / tag for a network. Networks without extra ID metadata
+ * only accept an empty value.
+ */
+export function isValidExtraId(extraId: string, networkId: string): boolean {
+  const value = extraId.trim();
+  const id = networkId.toLowerCase();
+  const usesExtraId = activeCurrencies.some(c => c.networks.some(n => n.id === id && n.extraId));
+  const pattern = EXTRA_ID_PATTERNS[id] ?? (usesExtraId ? GENERIC_EXTRA_ID_PATTERN : undefined);
+  if (!pattern) return false;
+  if (!pattern.test(value)) return false;
+
+  if (networkId.toLowerCase() === "xrp") {
+    return Number(value) <= MAX_XRP_DESTINATION_TAG;
+  }
+  return true;
+}
+
+/**
+ * Get extra ID validation error message for a network
+ */
+export function getExtraIdValidationError(networkId: string): string {
+  switch (networkId.toLowerCase()) {
+    case "xrp":
+      return "Invalid destination tag. Must be a whole number between 0 and 4294967295";
+    default:
+      return "This network does not use a memo or tag";
+  }
 }
 
 /**
@@ -183,15 +277,15 @@ export function getAddressValidationError(networkId: string): string {
   
   switch (type) {
     case "sol":
-      return "Invalid Solana address. Must be a valid Base58 address (32-44 characters)";
+      return "Invalid Solana address. Must be a Base58 wallet address (32-44 characters) - program-derived addresses are not accepted";
     case "evm":
-      return "Invalid address. Must start with 0x followed by 40 hexadecimal characters";
+      return "Invalid address. Must start with 0x followed by 40 hexadecimal characters, with a matching EIP-55 checksum if mixed-case";
     case "btc":
-      return "Invalid Bitcoin address. Must be a valid Legacy (1...), SegWit (3...), or Bech32 (bc1...) address";
+      return "Invalid Bitcoin address. Must be a Legacy (1...), SegWit (3...), or Bech32 (bc1...) address with a valid checksum";
     case "xrp":
-      return "Invalid XRP address. Must start with 'r' followed by 24-34 characters";
+      return "Invalid XRP address. Must start with 'r' followed by 24-34 characters, with a valid checksum";
     case "tron":
-      return "Invalid Tron address. Must start with 'T' followed by 33 characters";
+      return "Invalid Tron address. Must start with 'T' followed by 33 characters, with a valid checksum";
     default:
       return "Invalid address format";
   }
@@ -201,7 +295,7 @@ export function getAddressValidationError(networkId: string): string {
  * Get all supported currency tickers
  */
 export function getSupportedTickers(): string[] {
-  return SUPPORTED_CURRENCIES.map(c => c.ticker);
+  return activeCurrencies.map(c => c.ticker);
 }
 
 /**
@@ -0,0 +1,206 @@
+/**
+ * Currency Catalog - provider currencies and networks synced into
+ * `currency_catalog`, curated by admins
+ *
+ * A background worker pulls the default provider's currency list every few
+ * hours and upserts it. Only the instance holding the `currency-catalog`
+ * lease syncs. Sync never touches the admin-curated fields (enabled flag,
+ * display order, icon override, decimals), and new rows start disabled
+ * unless they are part of the built-in SUPPORTED_CURRENCIES list.
+ *
+ * Every instance serves the enabled rows as the active currency list,
+ * reloaded from the table once it is older than CATALOG_CACHE_TTL_MS. With
+ * no database or no enabled rows the built-in list is served instead.
+ */
+
+import { hostname } from "os";
+import { nanoid } from "nanoid";
+import type { CurrencyCatalogEntry, InsertCurrencyCatalogEntry } from "../../drizzle/schema";
+import * as db from "../db";
+import { SUPPORTED_CURRENCIES, setActiveCurrencies, type CurrencyConfig, type NetworkConfig } from "./currencies";
+import { ENV } from "./env";
+import { getExchangeProvider, type ProviderCurrency } from "./exchangeProvider";
+
+const CATALOG_LEASE = "currency-catalog";
+const SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const LEASE_TTL_MS = SYNC_INTERVAL_MS + 10 * 60 * 1000; // Leader keeps the lease between syncs
+const CATALOG_CACHE_TTL_MS = 60 * 1000;
+const DEFAULT_DISPLAY_ORDER = 1000;
+const DEFAULT_DECIMALS = 8;
+
+const instanceId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+let syncing = false;
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+function builtinNetwork(ticker: string, network: string): { order: number; network: NetworkConfig; decimals: number } | null {
+  const currencyIndex = SUPPORTED_CURRENCIES.findIndex(c => c.ticker === ticker);
+  const currency = SUPPORTED_CURRENCIES[currencyIndex];
+  const networkIndex = currency ? currency.networks.findIndex(n => n.id === network) : -1;
+  if (!currency || networkIndex === -1) return null;
+
+  return {
+    order: currencyIndex * 10 + networkIndex,
+    network: currency.networks[networkIndex]!,
+    decimals: currency.decimals,
+  };
+}
+
+/**
+ * Catalog rows for a provider currency list. Built-in currencies are seeded
+ * enabled, in their built-in order; everything else waits for an admin.
+ */
+export function toCatalogEntries(
+  currencies: ProviderCurrency[],
+  provider: string,
+  syncedAt: Date
+): InsertCurrencyCatalogEntry[] {
+  const entries = new Map<string, InsertCurrencyCatalogEntry>();
+
+  for (const currency of currencies) {
+    const ticker = currency.ticker.toLowerCase().slice(0, 16);
+    const network = currency.network.toLowerCase().slice(0, 32);
+    const key = `${ticker}:${network}`;
+    if (!ticker || !network || entries.has(key)) continue;
+
+    const builtin = builtinNetwork(ticker, network);
+    entries.set(key, {
+      ticker,
+      network,
+      provider,
+      name: (currency.name || ticker.toUpperCase()).slice(0, 64),
+      providerImage: currency.image && currency.image.length <= 512 ? currency.image : null,
+      hasExtraId: currency.hasExternalId ? 1 : 0,
+      isEnabled: builtin ? 1 : 0,
+      displayOrder: builtin ? builtin.order : DEFAULT_DISPLAY_ORDER,
+      decimals: builtin ? builtin.decimals : null,
+      lastSyncedAt: syncedAt,
+    });
+  }
+
+  return Array.from(entries.values());
+}
+
+function toNetworkConfig(row: CurrencyCatalogEntry): NetworkConfig {
+  const builtin = builtinNetwork(row.ticker, row.network)?.network;
+  const name = row.networkName ?? builtin?.name ?? row.network.toUpperCase();
+  const extraId =
+    builtin?.extraId ??
+    (row.hasExtraId ? { label: "Memo / tag", required: false, placeholder: "Memo / tag (if the recipient needs one)" } : undefined);
+
+  return {
+    id: row.network,
+    name,
+    addressPlaceholder: builtin?.addressPlaceholder ?? `${name} address`,
+    ...(extraId ? { extraId } : {}),
+  };
+}
+
+/**
+ * Group enabled catalog rows (in display order) into currency configs
+ */
+export function toCurrencyConfigs(rows: CurrencyCatalogEntry[]): CurrencyConfig[] {
+  const byTicker = new Map<string, CurrencyCatalogEntry[]>();
+  for (const row of rows) {
+    byTicker.set(row.ticker, [...(byTicker.get(row.ticker) ?? []), row]);
+  }
+
+  return Array.from(byTicker.entries()).map(([ticker, networkRows]) => {
+    const builtin = SUPPORTED_CURRENCIES.find(c => c.ticker === ticker);
+    const networks = networkRows.map(toNetworkConfig);
+    const defaultRow =
+      networkRows.find(row => row.network === builtin?.defaultNetwork) ?? networkRows[0]!;
+    const icon = networkRows[0]!.icon ?? networkRows[0]!.providerImage;
+
+    return {
+      ticker,
+      name: builtin?.name ?? networkRows[0]!.name,
+      symbol: builtin?.symbol ?? ticker.toUpperCase(),
+      networks,
+      defaultNetwork: defaultRow.network,
+      decimals: defaultRow.decimals ?? builtin?.decimals ?? DEFAULT_DECIMALS,
+      ...(icon ? { icon } : {}),
+    };
+  });
+}
+
+/**
+ * Reload the active currency list from the catalog if the cached copy is
+ * stale (or always, with `force`). Keeps the current list on failure.
+ */
+export async function refreshCurrencyCatalog(force = false) {
+  if (!ENV.databaseUrl) return;
+  if (!force && Date.now() - loadedAt < CATALOG_CACHE_TTL_MS) return;
+  if (loading) return loading;
+
+  loading = (async () => {
+    try {
+      setActiveCurrencies(toCurrencyConfigs(await db.getCatalogCurrencies({ enabledOnly: true })));
+    } catch (error) {
+      console.warn("[Catalog] Failed to load currency catalog, keeping current list:", error);
+    } finally {
+      loadedAt = Date.now();
+      loading = null;
+    }
+  })();
+  return loading;
+}
+
+/**
+ * Pull the default provider's currencies into the catalog
+ */
+export async function syncCurrencyCatalog() {
+  const provider = await getExchangeProvider();
+  const entries = toCatalogEntries(await provider.listCurrencies(), provider.id, new Date());
+  await db.upsertCatalogCurrencies(entries);
+  await refreshCurrencyCatalog(true);
+
+  console.log(`[Catalog] Synced ${entries.length} currencies from ${provider.id}`);
+  return { provider: provider.id, synced: entries.length };
+}
+
+async function runCatalogSync() {
+  if (syncing) return;
+  syncing = true;
+
+  try {
+    const isLeader = await db.acquireWorkerLease(CATALOG_LEASE, instanceId, LEASE_TTL_MS);
+    if (!isLeader) return;
+    await syncCurrencyCatalog();
+  } catch (error) {
+    console.error("[Catalog] Currency sync failed:", error);
+  } finally {
+    syncing = false;
+  }
+}
+
+/**
+ * Start the periodic catalog sync (first run right away)
+ */
+export function startCurrencyCatalogSync() {
+  if (!ENV.currencyCatalogSyncEnabled || !ENV.databaseUrl) {
+    console.log("[Catalog] Currency catalog sync disabled");
+    return;
+  }
+  if (syncTimer) return;
+
+  syncTimer = setInterval(() => {
+    void runCatalogSync();
+  }, SYNC_INTERVAL_MS);
+  syncTimer.unref?.();
+  void runCatalogSync();
+  console.log(`[Catalog] Currency catalog sync started (instance ${instanceId})`);
+}
+
+export async function stopCurrencyCatalogSync() {
+  if (!syncTimer) return;
+  clearInterval(syncTimer);
+  syncTimer = null;
+  try {
+    await db.releaseWorkerLease(CATALOG_LEASE, instanceId);
+  } catch (error) {
+    console.warn("[Catalog] Failed to release catalog lease:", error);
+  }
+}
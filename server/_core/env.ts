@@ -8,4 +8,14 @@ export const ENV = {
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
   changenowApiKey: process.env.CHANGENOW_API_KEY ?? "",
+  changenowCallbackSecret: process.env.CHANGENOW_CALLBACK_SECRET ?? "", // Callbacks are refused without it
+  exchangeProvider: process.env.EXCHANGE_PROVIDER ?? "changenow",
+  exchangeProviders: process.env.EXCHANGE_PROVIDERS ?? "",
+  statusReconcilerEnabled: process.env.STATUS_RECONCILER_ENABLED !== "false",
+  adminWallets: process.env.ADMIN_WALLETS ?? "", // Comma-separated wallet addresses
+  receiptTokensEnabled: process.env.RECEIPT_TOKENS_ENABLED !== "false",
+  currencyCatalogSyncEnabled: process.env.CURRENCY_CATALOG_SYNC_ENABLED !== "false",
+  transferSchedulerEnabled: process.env.TRANSFER_SCHEDULER_ENABLED !== "false",
+  rateAlertsEnabled: process.env.RATE_ALERTS_ENABLED !== "false",
+  notificationChannels: process.env.NOTIFICATION_CHANNELS ?? "", // Comma-separated; defaults to in-app
 };
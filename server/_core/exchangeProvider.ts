@@ -0,0 +1,206 @@
+/**
+ * Exchange Provider Abstraction
+ *
+ * Every routing backend (ChangeNow, an in-process mock, future providers)
+ * implements the same ExchangeProvider interface so the routers and the
+ * API queue never depend on a specific provider's URLs or response shapes.
+ *
+ * The active provider is selected via the EXCHANGE_PROVIDER env var and the
+ * chosen provider id is recorded per transaction in `transaction_routing`.
+ */
+
+import { ENV } from "./env";
+
+export type ExchangeFlow = "standard" | "fixed-rate";
+
+// "send" quotes a fixed deposit; "receive" quotes a fixed payout ("receive exactly")
+export type QuoteDirection = "send" | "receive";
+
+export type ExchangeStatusValue =
+  | "waiting"
+  | "confirming"
+  | "exchanging"
+  | "sending"
+  | "finished"
+  | "failed"
+  | "refunded"
+  | "expired";
+
+export interface CreateExchangeParams {
+  fromCurrency: string; // lowercase ticker
+  toCurrency: string; // lowercase ticker
+  fromNetwork?: string; // lowercase network id
+  toNetwork?: string; // lowercase network id
+  fromAmount?: number; // Amount to send (optional if toAmount provided)
+  toAmount?: number; // Amount to receive (optional if fromAmount provided)
+  address: string; // Destination wallet address
+  flow?: ExchangeFlow;
+  rateId?: string; // Locked rate from a fixed-rate estimate (fixed-rate flow only)
+  extraId?: string; // For coins that require memo/tag
+  refundAddress?: string; // Where the provider returns the deposit if the route fails (source network)
+  refundExtraId?: string; // Memo/tag for the refund address
+}
+
+export interface ExchangeTransaction {
+  id: string;
+  payinAddress: string; // Address the user sends funds to
+  payoutAddress: string; // Destination address
+  fromCurrency: string;
+  toCurrency: string;
+  fromAmount: number;
+  toAmount: number;
+  payinExtraId?: string;
+  payoutExtraId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ExchangeStatus {
+  id: string;
+  status: ExchangeStatusValue;
+  payinAddress: string;
+  payoutAddress: string;
+  fromCurrency: string;
+  toCurrency: string;
+  fromAmount: number;
+  toAmount: number;
+  payinHash?: string;
+  payoutHash?: string;
+  refundHash?: string; // Set once a failed route has been refunded
+  refundAmount?: number; // Amount returned, in fromCurrency
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeeEstimate {
+  sendAmount: number;
+  receiveAmount: number;
+  feeAmount: number;
+  feePercentage: number;
+  isValid: boolean;
+  transactionSpeedForecast?: string;
+  toCurrency: string;
+  rateId?: string; // Only for fixed-rate estimates
+  validUntil?: string; // ISO timestamp the fixed rate is honoured until
+}
+
+export interface PairParams {
+  fromCurrency: string;
+  toCurrency: string;
+  fromNetwork: string;
+  toNetwork: string;
+}
+
+export interface LimitsParams extends PairParams {
+  flow?: ExchangeFlow; // Fixed-rate routes can have a different range (defaults to standard)
+}
+
+export interface EstimateParams extends PairParams {
+  fromAmount?: number; // Set exactly one of fromAmount / toAmount
+  toAmount?: number; // Reverse estimate: the deposit needed to pay out this amount
+  flow?: ExchangeFlow;
+}
+
+export interface PairLimits {
+  minAmount: number;
+  maxAmount: number | null; // null when the provider has no upper bound
+}
+
+export interface AddressValidationResult {
+  result: boolean;
+  message?: string;
+}
+
+export interface ProviderCurrency {
+  ticker: string;
+  name: string;
+  network: string;
+  hasExternalId?: boolean;
+  image?: string;
+}
+
+/**
+ * An authenticated status callback (push notification) from a provider.
+ * `status` is omitted when the payload alone can't be trusted - the current
+ * status is then fetched from the provider's API instead.
+ */
+export interface ProviderCallback {
+  transactionId: string;
+  status?: ExchangeStatus;
+}
+
+export type CallbackHeaders = Record<string, string | string[] | undefined>;
+
+export interface ExchangeProvider {
+  /** Stable identifier persisted alongside each transaction */
+  readonly id: string;
+  createExchange(params: CreateExchangeParams): Promise<ExchangeTransaction>;
+  getStatus(transactionId: string): Promise<ExchangeStatus>;
+  estimate(params: EstimateParams): Promise<FeeEstimate>;
+  getLimits(params: LimitsParams): Promise<PairLimits>;
+  validateAddress(currency: string, address: string): Promise<AddressValidationResult>;
+  listCurrencies(): Promise<ProviderCurrency[]>;
+  /**
+   * Authenticate and parse a status callback. Returns null if the request is
+   * not authentic or not a status update. Providers without callbacks omit it.
+   */
+  parseCallback?(rawBody: string, headers: CallbackHeaders): ProviderCallback | null;
+}
+
+const providers = new Map<string, ExchangeProvider>();
+
+/**
+ * Register a provider implementation (later registrations replace earlier ones)
+ */
+export function registerExchangeProvider(provider: ExchangeProvider) {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Resolve a provider by id, defaulting to the configured provider.
+ * Throws if the requested provider is not registered.
+ */
+export async function getExchangeProvider(providerId?: string | null): Promise<ExchangeProvider> {
+  await ensureBuiltinProviders();
+
+  const id = (providerId || ENV.exchangeProvider || "changenow").toLowerCase();
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Exchange provider "${id}" is not available`);
+  }
+  return provider;
+}
+
+/**
+ * Id of the provider used for newly created routes
+ */
+export function getDefaultProviderId(): string {
+  return (ENV.exchangeProvider || "changenow").toLowerCase();
+}
+
+/**
+ * Ids of every provider that should be asked for quotes.
+ * Configured via EXCHANGE_PROVIDERS (comma separated); defaults to the
+ * single configured provider.
+ */
+export function getEnabledProviderIds(): string[] {
+  const configured = ENV.exchangeProviders
+    .split(",")
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? Array.from(new Set(configured)) : [getDefaultProviderId()];
+}
+
+let builtinsLoaded = false;
+
+// Built-in providers are loaded lazily so importing this module never pulls
+// in provider code that isn't used (mirrors the dynamic imports in routers)
+async function ensureBuiltinProviders() {
+  if (builtinsLoaded) return;
+  builtinsLoaded = true;
+
+  const { changenowProvider } = await import("./changenow");
+  const { mockProvider } = await import("./mockProvider");
+  if (!providers.has(changenowProvider.id)) registerExchangeProvider(changenowProvider);
+  if (!providers.has(mockProvider.id)) registerExchangeProvider(mockProvider);
+}
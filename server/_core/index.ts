@@ -38,6 +38,14 @@ async function startServer() {
     console.log("[Server] ✓ ChangeNow API key is configured");
   }
   
+  // Provider status callbacks need the raw body, so mount them before the JSON parser
+  try {
+    const { registerProviderCallbackRoutes } = await import("./providerCallbacks");
+    registerProviderCallbackRoutes(app);
+  } catch (error) {
+    console.error("[Server] Failed to register provider callback routes:", error);
+  }
+
   // Configure body parser with larger size limit and explicit content types
   app.use(express.json({ 
     limit: "50mb",
@@ -74,7 +82,47 @@ async function startServer() {
   } catch (error) {
     console.error("[Server] Failed to initialize transaction monitor:", error);
   }
+
+  // Deliver queued outbound webhooks
+  try {
+    const { startWebhookDispatcher } = await import("./webhooks");
+    startWebhookDispatcher();
+  } catch (error) {
+    console.error("[Server] Failed to start webhook dispatcher:", error);
+  }
+
+  // Keep the currency catalog in sync with the exchange provider
+  try {
+    const { startCurrencyCatalogSync } = await import("./currencyCatalog");
+    startCurrencyCatalogSync();
+  } catch (error) {
+    console.error("[Server] Failed to start currency catalog sync:", error);
+  }
+
+  // Create scheduled and recurring transfers when they are due
+  try {
+    const { startTransferScheduler } = await import("./transferScheduler");
+    startTransferScheduler();
+  } catch (error) {
+    console.error("[Server] Failed to start transfer scheduler:", error);
+  }
+
+  // Price rate alerts and notify wallets when they hit their target
+  try {
+    const { startRateAlertEvaluator } = await import("./rateAlerts");
+    startRateAlertEvaluator();
+  } catch (error) {
+    console.error("[Server] Failed to start rate alert evaluator:", error);
+  }
   
+  // Transaction history downloads (CSV / JSON)
+  try {
+    const { registerTransactionExportRoutes } = await import("./transactionExport");
+    registerTransactionExportRoutes(app);
+  } catch (error) {
+    console.error("[Server] Failed to register export routes:", error);
+  }
+
   // Diagnostic logging for tRPC requests (helps debug POST body issues)
   app.use("/api/trpc", (req, _res, next) => {
     if (req.method === "POST") {
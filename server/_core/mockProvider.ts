@@ -0,0 +1,191 @@
+/**
+ * Mock Exchange Provider - in-process provider for local development and tests
+ *
+ * Select it with EXCHANGE_PROVIDER=mock. Routes are kept in memory and walk
+ * through the routing lifecycle on a fixed schedule, so the full UI flow can
+ * be exercised without an external API key.
+ */
+
+import { customAlphabet, nanoid } from "nanoid";
+import { getNetwork } from "./currencies";
+import type {
+  ExchangeProvider,
+  ExchangeStatus,
+  ExchangeStatusValue,
+  ExchangeTransaction,
+} from "./exchangeProvider";
+
+// Rough USD prices so cross-asset quotes are in a plausible range
+const MOCK_USD_PRICES: Record<string, number> = {
+  sol: 150,
+  btc: 60000,
+  eth: 3000,
+  bnb: 550,
+  xrp: 0.5,
+  usdt: 1,
+  usdc: 1,
+};
+
+const MOCK_FEE_PERCENTAGE = 0.5;
+const MOCK_FIXED_RATE_FEE_PERCENTAGE = 1;
+const MOCK_FIXED_RATE_TTL_MS = 2 * 60 * 1000;
+
+// Seconds after creation at which each status is reached
+const MOCK_LIFECYCLE: Array<[number, ExchangeStatusValue]> = [
+  [0, "waiting"],
+  [30, "confirming"],
+  [60, "exchanging"],
+  [90, "sending"],
+  [120, "finished"],
+];
+
+type MockRoute = ExchangeTransaction & { createdAtMs: number };
+
+// Deposits on memo/tag networks share one address, like real providers
+const mockExtraId = customAlphabet("0123456789", 9);
+
+const routes = new Map<string, MockRoute>();
+
+function quote(fromCurrency: string, toCurrency: string, fromAmount: number): number {
+  const fromPrice = MOCK_USD_PRICES[fromCurrency.toLowerCase()] ?? 1;
+  const toPrice = MOCK_USD_PRICES[toCurrency.toLowerCase()] ?? 1;
+  const gross = (fromAmount * fromPrice) / toPrice;
+  return gross * (1 - MOCK_FEE_PERCENTAGE / 100);
+}
+
+function reverseQuote(fromCurrency: string, toCurrency: string, toAmount: number): number {
+  const fromPrice = MOCK_USD_PRICES[fromCurrency.toLowerCase()] ?? 1;
+  const toPrice = MOCK_USD_PRICES[toCurrency.toLowerCase()] ?? 1;
+  const gross = (toAmount * toPrice) / fromPrice;
+  return gross / (1 - MOCK_FEE_PERCENTAGE / 100);
+}
+
+function statusFor(route: MockRoute): ExchangeStatusValue {
+  const elapsedSeconds = (Date.now() - route.createdAtMs) / 1000;
+  let current: ExchangeStatusValue = "waiting";
+  for (const [at, status] of MOCK_LIFECYCLE) {
+    if (elapsedSeconds >= at) current = status;
+  }
+  return current;
+}
+
+export const mockProvider: ExchangeProvider = {
+  id: "mock",
+
+  async createExchange(params) {
+    if (!params.address || params.address.trim().length === 0) {
+      throw new Error("Recipient address is required");
+    }
+    if (!params.fromAmount && !params.toAmount) {
+      throw new Error("Either fromAmount or toAmount must be provided");
+    }
+    if (params.flow === "fixed-rate" && !params.rateId) {
+      throw new Error("A locked rate is required for fixed-rate transactions");
+    }
+
+    const fromAmount = params.fromAmount ?? reverseQuote(params.fromCurrency, params.toCurrency, params.toAmount!);
+    const now = new Date().toISOString();
+    const route: MockRoute = {
+      id: `mock_${nanoid(16)}`,
+      payinAddress: `MOCK${nanoid(28)}`,
+      payoutAddress: params.address.trim(),
+      fromCurrency: params.fromCurrency.toLowerCase(),
+      toCurrency: params.toCurrency.toLowerCase(),
+      fromAmount,
+      toAmount: params.toAmount ?? quote(params.fromCurrency, params.toCurrency, fromAmount),
+      payinExtraId: getNetwork(params.fromCurrency, params.fromNetwork ?? params.fromCurrency)?.extraId ? mockExtraId() : undefined,
+      payoutExtraId: params.extraId,
+      createdAt: now,
+      updatedAt: now,
+      createdAtMs: Date.now(),
+    };
+    routes.set(route.id, route);
+
+    const { createdAtMs: _createdAtMs, ...transaction } = route;
+    return transaction;
+  },
+
+  async getStatus(transactionId) {
+    const route = routes.get(transactionId);
+    if (!route) {
+      throw new Error(`Transaction status unavailable (404)`);
+    }
+
+    const status = statusFor(route);
+    const result: ExchangeStatus = {
+      id: route.id,
+      status,
+      payinAddress: route.payinAddress,
+      payoutAddress: route.payoutAddress,
+      fromCurrency: route.fromCurrency,
+      toCurrency: route.toCurrency,
+      fromAmount: route.fromAmount,
+      toAmount: route.toAmount,
+      payinHash: status === "waiting" ? undefined : `mockin_${route.id}`,
+      payoutHash: status === "finished" ? `mockout_${route.id}` : undefined,
+      createdAt: route.createdAt ?? new Date(route.createdAtMs).toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    return result;
+  },
+
+  async estimate(params) {
+    const isReverse = !params.fromAmount && !!params.toAmount;
+    const requestedAmount = (isReverse ? params.toAmount : params.fromAmount) ?? 0;
+    if (requestedAmount <= 0 || isNaN(requestedAmount)) {
+      throw new Error("Invalid amount");
+    }
+
+    // Reverse quotes are always rate-locked, like real providers
+    const fixedRate = params.flow === "fixed-rate" || isReverse;
+    // Fixed-rate routes carry a wider spread, as real providers do
+    const spread = fixedRate ? 1 - (MOCK_FIXED_RATE_FEE_PERCENTAGE - MOCK_FEE_PERCENTAGE) / 100 : 1;
+    const sendAmount = isReverse
+      ? reverseQuote(params.fromCurrency, params.toCurrency, requestedAmount) / spread
+      : requestedAmount;
+    const receiveAmount = isReverse
+      ? requestedAmount
+      : quote(params.fromCurrency, params.toCurrency, requestedAmount) * spread;
+    const sameAsset = params.fromCurrency.toLowerCase() === params.toCurrency.toLowerCase();
+    return {
+      sendAmount,
+      receiveAmount,
+      feeAmount: sameAsset ? sendAmount - receiveAmount : 0,
+      feePercentage: fixedRate ? MOCK_FIXED_RATE_FEE_PERCENTAGE : MOCK_FEE_PERCENTAGE,
+      isValid: receiveAmount > 0,
+      transactionSpeedForecast: "2",
+      toCurrency: params.toCurrency.toUpperCase(),
+      rateId: fixedRate ? `mockrate_${nanoid(16)}` : undefined,
+      validUntil: fixedRate ? new Date(Date.now() + MOCK_FIXED_RATE_TTL_MS).toISOString() : undefined,
+    };
+  },
+
+  async getLimits(params) {
+    // Roughly $1 minimum, no upper bound
+    const price = MOCK_USD_PRICES[params.fromCurrency.toLowerCase()] ?? 1;
+    return { minAmount: 1 / price, maxAmount: null };
+  },
+
+  // The mock has no real callbacks - any callback naming a known route just
+  // triggers a status refresh
+  parseCallback(rawBody) {
+    try {
+      const payload = JSON.parse(rawBody);
+      return routes.has(payload?.id) ? { transactionId: String(payload.id) } : null;
+    } catch {
+      return null;
+    }
+  },
+
+  async validateAddress(_currency, address) {
+    return { result: address.trim().length > 0 };
+  },
+
+  async listCurrencies() {
+    return Object.keys(MOCK_USD_PRICES).map(ticker => ({
+      ticker,
+      name: ticker.toUpperCase(),
+      network: ticker,
+    }));
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Pair Limits - min/max deposit amounts per route, cached per provider
+ *
+ * Providers reject deposits outside a pair's range only when the route is
+ * created, so limits are checked up front: estimateFees reports them and
+ * transfer refuses out-of-range amounts before calling the provider.
+ */
+
+import { AMOUNT_ABOVE_MAXIMUM, AMOUNT_BELOW_MINIMUM } from "@shared/const";
+import { CodedError } from "@shared/types";
+import { queueGetLimits } from "./apiQueue";
+import { getEnabledProviderIds, type ExchangeFlow, type PairLimits, type PairParams } from "./exchangeProvider";
+
+const LIMITS_TTL_MS = 5 * 60 * 1000;
+const LIMITS_MAX_ENTRIES = 1000;
+
+// provider:pair:flow -> limits (or the pending lookup, so concurrent callers share it)
+const cache = new Map<string, { expiresAt: number; limits: Promise<PairLimits> }>();
+
+function cacheKey(pair: PairParams, providerId: string, flow: ExchangeFlow): string {
+  return [providerId, pair.fromCurrency, pair.fromNetwork, pair.toCurrency, pair.toNetwork, flow]
+    .map(part => part.toLowerCase())
+    .join(":");
+}
+
+function providerLimits(pair: PairParams, providerId: string, flow: ExchangeFlow): Promise<PairLimits> {
+  const key = cacheKey(pair, providerId, flow);
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) return cached.limits;
+
+  if (cache.size >= LIMITS_MAX_ENTRIES) {
+    cache.forEach((entry, k) => {
+      if (entry.expiresAt <= now) cache.delete(k);
+    });
+  }
+
+  const limits = queueGetLimits({ ...pair, flow }, providerId);
+  cache.set(key, { expiresAt: now + LIMITS_TTL_MS, limits });
+  // Don't cache failures
+  limits.catch(() => cache.delete(key));
+  return limits;
+}
+
+/**
+ * Deposit limits for a pair and flow. With a provider, that provider's limits;
+ * without, the widest range any enabled provider accepts. Null if no limits
+ * could be fetched - callers then let the provider decide.
+ */
+export async function getPairLimits(
+  pair: PairParams,
+  providerId?: string,
+  flow: ExchangeFlow = "standard"
+): Promise<PairLimits | null> {
+  const providerIds = providerId ? [providerId] : getEnabledProviderIds();
+  const results = await Promise.allSettled(providerIds.map(id => providerLimits(pair, id, flow)));
+
+  const limits = results.flatMap(result => (result.status === "fulfilled" ? [result.value] : []));
+  if (limits.length === 0) return null;
+
+  return {
+    minAmount: Math.min(...limits.map(l => l.minAmount)),
+    maxAmount: limits.some(l => l.maxAmount === null) ? null : Math.max(...limits.map(l => l.maxAmount!)),
+  };
+}
+
+/**
+ * The error for a deposit amount outside the limits, or null if it's within
+ */
+export function checkAmountLimits(amount: number, limits: PairLimits | null, currency: string): CodedError | null {
+  if (!limits) return null;
+  const details = { minAmount: limits.minAmount, maxAmount: limits.maxAmount, currency };
+
+  if (limits.minAmount > 0 && amount < limits.minAmount) {
+    return new CodedError(
+      AMOUNT_BELOW_MINIMUM,
+      `Amount is below the minimum of ${limits.minAmount} ${currency.toUpperCase()} for this route`,
+      details
+    );
+  }
+  if (limits.maxAmount !== null && amount > limits.maxAmount) {
+    return new CodedError(
+      AMOUNT_ABOVE_MAXIMUM,
+      `Amount is above the maximum of ${limits.maxAmount} ${currency.toUpperCase()} for this route`,
+      details
+    );
+  }
+  return null;
+}
@@ -0,0 +1,104 @@
+/**
+ * Provider Callbacks - Express route for exchange provider status callbacks
+ *
+ * POST /api/callbacks/:provider
+ *
+ * Callbacks are authenticated by the provider implementation, deduplicated
+ * in `provider_callbacks` and applied through the same status transition
+ * path the reconciler uses. The reconciler keeps polling as a fallback, but
+ * less often for routes that receive callbacks.
+ */
+
+import { createHash } from "crypto";
+import express, { type Express, type Request, type Response } from "express";
+import * as db from "../db";
+import { queueGetTransactionStatus } from "./apiQueue";
+import { getExchangeProvider, type ExchangeProvider } from "./exchangeProvider";
+import { applyRoutingStatus } from "./transactionMonitor";
+
+// Fallback poll delay for a route that just received a callback
+const CALLBACK_POLL_DELAY_MS = 10 * 60 * 1000;
+
+export function callbackKey(providerId: string, rawBody: string): string {
+  return createHash("sha256").update(`${providerId}:${rawBody}`).digest("hex");
+}
+
+async function handleProviderCallback(req: Request, res: Response) {
+  let provider: ExchangeProvider;
+  try {
+    provider = await getExchangeProvider(req.params.provider);
+  } catch {
+    return res.status(404).json({ error: "Unknown provider" });
+  }
+  if (!provider.parseCallback) {
+    return res.status(404).json({ error: "Provider does not send callbacks" });
+  }
+
+  const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+  const callback = provider.parseCallback(rawBody, req.headers);
+  if (!callback) {
+    console.warn(`[Callbacks] Rejected unauthenticated ${provider.id} callback`);
+    return res.status(401).json({ error: "Invalid callback" });
+  }
+
+  const routing = await db.getTransactionRoutingByRoutingId(callback.transactionId);
+  if (!routing || routing.provider !== provider.id) {
+    // Not one of ours (or not stored yet) - acknowledge so it isn't retried forever
+    return res.status(202).json({ ok: true, ignored: true });
+  }
+
+  const key = callbackKey(provider.id, rawBody);
+  const isNew = await db.recordProviderCallback({
+    provider: provider.id,
+    callbackKey: key,
+    routingTransactionId: callback.transactionId,
+  });
+  if (!isNew) {
+    return res.status(200).json({ ok: true, duplicate: true });
+  }
+
+  try {
+    const transaction = await db.getTransactionBySignature(routing.txSignature);
+    if (!transaction) {
+      return res.status(202).json({ ok: true, ignored: true });
+    }
+
+    const status = callback.status ?? (await queueGetTransactionStatus(callback.transactionId, provider.id));
+    await applyRoutingStatus(
+      { txSignature: transaction.txSignature, status: transaction.status, provider: provider.id },
+      status,
+      "callback"
+    );
+    await db.recordRoutingCheck(routing.id, {
+      routingStatus: status.status,
+      payinHash: status.payinHash,
+      payoutHash: status.payoutHash,
+      checkAttempts: 0,
+      nextCheckAt: new Date(Date.now() + CALLBACK_POLL_DELAY_MS),
+    });
+
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    // Let the provider retry this callback
+    await db.deleteProviderCallback(key).catch(() => undefined);
+    console.error(`[Callbacks] Failed to process ${provider.id} callback:`, error);
+    return res.status(500).json({ error: "Callback processing failed" });
+  }
+}
+
+/**
+ * Mount the callback route. Must be registered before the JSON body parser:
+ * signatures are verified against the raw body.
+ */
+export function registerProviderCallbackRoutes(app: Express) {
+  app.post(
+    "/api/callbacks/:provider",
+    express.raw({ type: "*/*", limit: "1mb" }),
+    (req, res) => {
+      handleProviderCallback(req, res).catch(error => {
+        console.error("[Callbacks] Unhandled callback error:", error);
+        if (!res.headersSent) res.status(500).json({ error: "Callback processing failed" });
+      });
+    }
+  );
+}
@@ -0,0 +1,307 @@
+/**
+ * Best-Quote Routing - Fans fee estimates out to every enabled exchange
+ * provider, ranks the results and remembers each quote so a transfer can be
+ * created through exactly the route the user picked.
+ *
+ * Fixed-rate quotes additionally hold the provider's locked rate ID; they
+ * expire when the provider stops honouring the rate and can be used once.
+ *
+ * Quotes are persisted in `exchange_quotes` (multi-instance safe). If the
+ * database is unavailable they are kept in memory on this instance only.
+ */
+
+import { nanoid } from "nanoid";
+import * as db from "../db";
+import { queueEstimateFees } from "./apiQueue";
+import {
+  getDefaultProviderId,
+  getEnabledProviderIds,
+  type ExchangeFlow,
+  type PairParams,
+  type QuoteDirection,
+} from "./exchangeProvider";
+import { getPairLimits } from "./pairLimits";
+
+// How long a standard quote can be used to create a transfer
+export const QUOTE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Upper bound for fixed-rate locks if the provider doesn't report one
+export const FIXED_RATE_MAX_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export interface ExchangeQuote {
+  quoteId: string;
+  provider: string;
+  flow: ExchangeFlow;
+  direction: QuoteDirection;
+  providerRateId?: string; // Provider's locked rate ID (fixed-rate only)
+  fromCurrency: string;
+  toCurrency: string;
+  fromNetwork: string;
+  toNetwork: string;
+  sendAmount: number;
+  receiveAmount: number;
+  feeAmount: number;
+  feePercentage: number;
+  isValid: boolean;
+  transactionSpeedForecast?: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  expiresAt: Date;
+}
+
+/** Quote fields that survive persistence */
+export type StoredQuote = Pick<
+  ExchangeQuote,
+  | "quoteId"
+  | "provider"
+  | "flow"
+  | "direction"
+  | "providerRateId"
+  | "fromCurrency"
+  | "toCurrency"
+  | "fromNetwork"
+  | "toNetwork"
+  | "sendAmount"
+  | "receiveAmount"
+  | "feeAmount"
+  | "feePercentage"
+  | "expiresAt"
+>;
+
+export interface QuoteRequest extends PairParams {
+  amount: number; // Deposit amount ("send") or exact payout amount ("receive")
+  direction: QuoteDirection;
+}
+
+// Quote amounts are stored as numeric(30,12), so they don't round-trip exactly
+const AMOUNT_MATCH_TOLERANCE = 1e-9; // Relative
+
+// Fallback store for when the database is not reachable
+const memoryQuotes = new Map<string, ExchangeQuote & { consumed?: boolean }>();
+
+/**
+ * Whether a quote's amount is the amount a transfer asks for, allowing for
+ * the rounding of stored quotes
+ */
+export function isQuotedAmount(quoted: number, requested: number): boolean {
+  return Math.abs(quoted - requested) <= AMOUNT_MATCH_TOLERANCE * Math.max(Math.abs(quoted), Math.abs(requested));
+}
+
+/**
+ * Rank quotes best-first: valid quotes before invalid ones, then by the
+ * highest receive amount ("send") or lowest required deposit ("receive"),
+ * then by the lowest fee percentage
+ */
+export function rankQuotes(quotes: ExchangeQuote[], direction: QuoteDirection = "send"): ExchangeQuote[] {
+  return [...quotes].sort((a, b) => {
+    if (a.isValid !== b.isValid) return a.isValid ? -1 : 1;
+    if (direction === "receive") {
+      if (a.sendAmount !== b.sendAmount) return a.sendAmount - b.sendAmount;
+    } else if (b.receiveAmount !== a.receiveAmount) {
+      return b.receiveAmount - a.receiveAmount;
+    }
+    return a.feePercentage - b.feePercentage;
+  });
+}
+
+async function requestQuote(
+  request: QuoteRequest,
+  providerId: string,
+  flow: ExchangeFlow
+): Promise<ExchangeQuote> {
+  const pair: PairParams = {
+    fromCurrency: request.fromCurrency,
+    toCurrency: request.toCurrency,
+    fromNetwork: request.fromNetwork,
+    toNetwork: request.toNetwork,
+  };
+  const isReverse = request.direction === "receive";
+  const [estimate, limits] = await Promise.all([
+    queueEstimateFees(
+      {
+        ...pair,
+        fromAmount: isReverse ? undefined : request.amount,
+        toAmount: isReverse ? request.amount : undefined,
+        flow,
+      },
+      providerId
+    ),
+    // Limits are informational here - a failed lookup shouldn't drop the quote
+    getPairLimits(pair, providerId, flow),
+  ]);
+
+  let expiresAt = new Date(Date.now() + QUOTE_TTL_MS);
+  if (flow === "fixed-rate") {
+    if (!estimate.rateId) {
+      throw new Error("Fixed rate is not available for this route");
+    }
+    const validUntil = estimate.validUntil ? new Date(estimate.validUntil).getTime() : NaN;
+    const maxExpiry = Date.now() + FIXED_RATE_MAX_TTL_MS;
+    expiresAt = new Date(isNaN(validUntil) ? maxExpiry : Math.min(validUntil, maxExpiry));
+  }
+
+  return {
+    quoteId: `q_${nanoid(20)}`,
+    provider: providerId,
+    flow,
+    direction: request.direction,
+    providerRateId: estimate.rateId,
+    fromCurrency: request.fromCurrency,
+    toCurrency: request.toCurrency,
+    fromNetwork: request.fromNetwork,
+    toNetwork: request.toNetwork,
+    sendAmount: Number(estimate.sendAmount ?? (isReverse ? 0 : request.amount)),
+    receiveAmount: Number(estimate.receiveAmount ?? (isReverse ? request.amount : 0)),
+    feeAmount: Number(estimate.feeAmount ?? 0),
+    feePercentage: Number(estimate.feePercentage ?? 0),
+    isValid: !!estimate.isValid,
+    transactionSpeedForecast: estimate.transactionSpeedForecast,
+    minAmount: limits?.minAmount ?? null,
+    maxAmount: limits?.maxAmount ?? null,
+    expiresAt,
+  };
+}
+
+/**
+ * Request quotes from every enabled provider in parallel.
+ * Providers that fail are skipped; throws only if none succeed.
+ */
+export async function collectQuotes(request: QuoteRequest): Promise<ExchangeQuote[]> {
+  const providerIds = getEnabledProviderIds();
+
+  const results = await Promise.allSettled(
+    providerIds.map(providerId => requestQuote(request, providerId, "standard"))
+  );
+
+  const quotes: ExchangeQuote[] = [];
+  let firstError: unknown = null;
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      quotes.push(result.value);
+    } else {
+      firstError ??= result.reason;
+      console.warn(`[Quotes] Provider ${providerIds[i]} failed to quote:`,
+        result.reason instanceof Error ? result.reason.message : result.reason);
+    }
+  });
+
+  if (quotes.length === 0) {
+    throw firstError instanceof Error ? firstError : new Error("No exchange provider could quote this route");
+  }
+
+  await saveQuotes(quotes);
+  return rankQuotes(quotes, request.direction);
+}
+
+/**
+ * Lock a fixed rate with a single provider (the configured default unless
+ * one is given, e.g. the provider of the quote the user picked)
+ */
+export async function lockFixedRate(request: QuoteRequest, providerId?: string): Promise<ExchangeQuote> {
+  const quote = await requestQuote(request, providerId ?? getDefaultProviderId(), "fixed-rate");
+  await saveQuotes([quote]);
+  return quote;
+}
+
+async function saveQuotes(quotes: ExchangeQuote[]) {
+  try {
+    await db.storeExchangeQuotes(
+      quotes.map(q => ({
+        id: q.quoteId,
+        provider: q.provider,
+        flow: q.flow,
+        direction: q.direction,
+        providerRateId: q.providerRateId ?? null,
+        fromCurrency: q.fromCurrency,
+        toCurrency: q.toCurrency,
+        fromNetwork: q.fromNetwork,
+        toNetwork: q.toNetwork,
+        fromAmount: String(q.sendAmount),
+        toAmount: String(q.receiveAmount),
+        feeAmount: String(q.feeAmount),
+        feePercentage: String(q.feePercentage),
+        expiresAt: q.expiresAt,
+      }))
+    );
+  } catch (error) {
+    console.warn("[Quotes] Database unavailable, keeping quotes in memory");
+    const now = Date.now();
+    memoryQuotes.forEach((q, id) => {
+      if (q.expiresAt.getTime() < now) memoryQuotes.delete(id);
+    });
+    quotes.forEach(q => memoryQuotes.set(q.quoteId, q));
+  }
+}
+
+function toStoredQuote(record: NonNullable<Awaited<ReturnType<typeof db.getExchangeQuote>>>): StoredQuote {
+  return {
+    quoteId: record.id,
+    provider: record.provider,
+    flow: record.flow === "fixed-rate" ? "fixed-rate" : "standard",
+    direction: record.direction === "receive" ? "receive" : "send",
+    providerRateId: record.providerRateId ?? undefined,
+    fromCurrency: record.fromCurrency,
+    toCurrency: record.toCurrency,
+    fromNetwork: record.fromNetwork,
+    toNetwork: record.toNetwork,
+    sendAmount: Number(record.fromAmount),
+    receiveAmount: Number(record.toAmount),
+    feeAmount: Number(record.feeAmount),
+    feePercentage: Number(record.feePercentage),
+    expiresAt: record.expiresAt,
+  };
+}
+
+/**
+ * Look up a previously issued quote (null if unknown).
+ * Expiry is not checked here - callers decide how to treat stale quotes.
+ */
+export async function getQuote(quoteId: string): Promise<StoredQuote | null> {
+  const cached = memoryQuotes.get(quoteId);
+  if (cached) return cached;
+
+  try {
+    const record = await db.getExchangeQuote(quoteId);
+    return record ? toStoredQuote(record) : null;
+  } catch (error) {
+    console.error("[Quotes] Failed to load quote:", error);
+    return null;
+  }
+}
+
+/**
+ * Atomically claim an unexpired, unused fixed-rate quote.
+ * Returns null if the rate is unknown, expired or was already used, so the
+ * same locked rate can never back two routes.
+ */
+export async function consumeFixedRate(quoteId: string): Promise<StoredQuote | null> {
+  const cached = memoryQuotes.get(quoteId);
+  if (cached) {
+    if (cached.flow !== "fixed-rate" || cached.consumed || cached.expiresAt.getTime() < Date.now()) {
+      return null;
+    }
+    cached.consumed = true;
+    return cached;
+  }
+
+  const record = await db.consumeExchangeQuote(quoteId);
+  return record && record.flow === "fixed-rate" ? toStoredQuote(record) : null;
+}
+
+/**
+ * Undo consumeFixedRate when no route was created with the rate, so the user
+ * can still use it until it expires
+ */
+export async function releaseFixedRate(quoteId: string): Promise<void> {
+  const cached = memoryQuotes.get(quoteId);
+  if (cached) {
+    cached.consumed = false;
+    return;
+  }
+
+  try {
+    await db.releaseExchangeQuote(quoteId);
+  } catch (error) {
+    console.warn("[Quotes] Failed to release fixed rate:", error);
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Rate Alerts - notify a wallet when a route pays out enough
+ *
+ * An alert watches one route (pair + networks) for a fixed deposit amount,
+ * e.g. "10 SOL → USDC on Arbitrum yields ≥ 1500". Every couple of minutes
+ * the instance holding the `rate-alerts` lease prices the due alerts with
+ * the default provider's standard-flow estimate, through the API queue like
+ * any other estimate. Alerts on the same route and amount share one
+ * estimate. When the payout reaches the target the owner is notified (see
+ * ./walletNotifications) and the alert stays quiet for its cooldown.
+ *
+ * Alerts deactivate at expiresAt, and the owner is told so once.
+ */
+
+import { hostname } from "os";
+import { nanoid } from "nanoid";
+import type { InsertRateAlert, RateAlert } from "../../drizzle/schema";
+import * as db from "../db";
+import { queueEstimateFees } from "./apiQueue";
+import { getCurrency, getNetwork, resolveToNetwork } from "./currencies";
+import { ENV } from "./env";
+import { getDefaultProviderId } from "./exchangeProvider";
+import { notifyWallet } from "./walletNotifications";
+
+export const MAX_RATE_ALERTS_PER_WALLET = 20;
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+export const MIN_COOLDOWN_MINUTES = 15;
+export const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+const DEFAULT_ALERT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_ALERT_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+const ALERTS_LEASE = "rate-alerts";
+const EVALUATE_INTERVAL_MS = 2 * 60 * 1000;
+const LEASE_TTL_MS = 3 * EVALUATE_INTERVAL_MS;
+const CHECK_INTERVAL_MS = 5 * 60 * 1000; // An alert is priced at most this often
+const ALERT_BATCH_SIZE = 100;
+
+const instanceId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+let evaluatorTimer: ReturnType<typeof setInterval> | null = null;
+let evaluating = false;
+
+export type RateAlertInput = {
+  currency: string;
+  network: string;
+  toCurrency: string;
+  toNetwork?: string | null;
+  amount: string;
+  targetReceiveAmount: string;
+  cooldownMinutes?: number;
+  expiresAt?: Date | null;
+};
+
+export type ValidatedRateAlert = Pick<
+  InsertRateAlert,
+  "fromCurrency" | "fromNetwork" | "toCurrency" | "toNetwork" | "amount" | "targetReceiveAmount" | "cooldownMinutes" | "expiresAt"
+>;
+
+/**
+ * Normalize an alert. Without a network the route's destination network is
+ * resolved like a transfer's (see resolveToNetwork).
+ */
+export function validateRateAlert(
+  input: RateAlertInput,
+  now = new Date()
+): { alert: ValidatedRateAlert; error: null } | { alert: null; error: string } {
+  const fromCurrency = input.currency.trim().toLowerCase();
+  const fromNetwork = input.network.trim().toLowerCase();
+  const fromCurrencyConfig = getCurrency(fromCurrency);
+  if (!fromCurrencyConfig) {
+    return { alert: null, error: `Unsupported currency: ${fromCurrency}` };
+  }
+  if (!getNetwork(fromCurrency, fromNetwork)) {
+    return { alert: null, error: `Unsupported network ${fromNetwork} for ${fromCurrencyConfig.symbol}` };
+  }
+
+  const toCurrency = input.toCurrency.trim().toLowerCase();
+  const toCurrencyConfig = getCurrency(toCurrency);
+  if (!toCurrencyConfig) {
+    return { alert: null, error: `Unsupported to currency: ${toCurrency}` };
+  }
+  const toNetwork = resolveToNetwork(toCurrency, input.toNetwork, { currency: fromCurrency, network: fromNetwork });
+  if (!getNetwork(toCurrency, toNetwork)) {
+    return { alert: null, error: `Unsupported network ${toNetwork} for ${toCurrencyConfig.symbol}` };
+  }
+
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { alert: null, error: "Invalid amount" };
+  }
+  const target = Number(input.targetReceiveAmount);
+  if (!Number.isFinite(target) || target <= 0) {
+    return { alert: null, error: "Invalid target amount" };
+  }
+
+  const cooldownMinutes = input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
+  if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < MIN_COOLDOWN_MINUTES || cooldownMinutes > MAX_COOLDOWN_MINUTES) {
+    return { alert: null, error: `Cooldown must be ${MIN_COOLDOWN_MINUTES}-${MAX_COOLDOWN_MINUTES} minutes` };
+  }
+
+  const expiresAt = input.expiresAt ?? new Date(now.getTime() + DEFAULT_ALERT_TTL_MS);
+  if (expiresAt.getTime() <= now.getTime()) {
+    return { alert: null, error: "Expiry must be in the future" };
+  }
+  if (expiresAt.getTime() > now.getTime() + MAX_ALERT_TTL_MS) {
+    return { alert: null, error: "Alerts can run for at most 90 days" };
+  }
+
+  return {
+    alert: {
+      fromCurrency,
+      fromNetwork,
+      toCurrency,
+      toNetwork,
+      amount: String(amount),
+      targetReceiveAmount: String(target),
+      cooldownMinutes,
+      expiresAt,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Alerts grouped by the estimate they need (route + deposit amount)
+ */
+export function groupAlertsByRoute<T extends Pick<RateAlert, "fromCurrency" | "fromNetwork" | "toCurrency" | "toNetwork" | "amount">>(
+  alerts: T[]
+): T[][] {
+  const groups: Record<string, T[]> = {};
+  alerts.forEach(alert => {
+    const key = [alert.fromCurrency, alert.fromNetwork, alert.toCurrency, alert.toNetwork, Number(alert.amount)].join("|");
+    (groups[key] ??= []).push(alert);
+  });
+  return Object.values(groups);
+}
+
+function formatAmount(value: number | string) {
+  return String(Number(Number(value).toPrecision(8)));
+}
+
+function describeRoute(alert: RateAlert) {
+  return `${formatAmount(alert.amount)} ${alert.fromCurrency.toUpperCase()} → ${alert.toCurrency.toUpperCase()}`;
+}
+
+async function checkRoute(alerts: RateAlert[], now: Date) {
+  const route = alerts[0]!;
+
+  let receiveAmount: number | null = null;
+  let error: string | null = null;
+  try {
+    const estimate = await queueEstimateFees(
+      {
+        fromCurrency: route.fromCurrency,
+        toCurrency: route.toCurrency,
+        fromNetwork: route.fromNetwork,
+        toNetwork: route.toNetwork,
+        fromAmount: Number(route.amount),
+        flow: "standard",
+      },
+      getDefaultProviderId()
+    );
+    if (estimate.isValid) {
+      receiveAmount = estimate.receiveAmount;
+    } else {
+      error = "Route is not available for this amount";
+    }
+  } catch (estimateError) {
+    error = estimateError instanceof Error ? estimateError.message : "Estimate failed";
+  }
+
+  for (const alert of alerts) {
+    const triggered = receiveAmount !== null && receiveAmount >= Number(alert.targetReceiveAmount);
+    try {
+      await db.updateRateAlert(alert.id, alert.walletId, {
+        lastCheckedAt: now,
+        lastReceiveAmount: receiveAmount !== null ? String(receiveAmount) : alert.lastReceiveAmount,
+        lastError: error,
+        ...(triggered ? { lastTriggeredAt: now, triggerCount: alert.triggerCount + 1 } : {}),
+      });
+    } catch (updateError) {
+      // Don't notify without recording it - the cooldown would not apply
+      console.warn(`[Alerts] Failed to record check of alert ${alert.id}:`, updateError);
+      continue;
+    }
+
+    if (triggered) {
+      await notifyWallet(alert.walletId, {
+        type: "alert.triggered",
+        title: `${describeRoute(alert)} reached your target`,
+        body: `${formatAmount(alert.amount)} ${alert.fromCurrency.toUpperCase()} on ${alert.fromNetwork.toUpperCase()} now yields ${formatAmount(receiveAmount!)} ${alert.toCurrency.toUpperCase()} on ${alert.toNetwork.toUpperCase()} (target ≥ ${formatAmount(alert.targetReceiveAmount)}).`,
+        data: {
+          alertId: alert.id,
+          fromCurrency: alert.fromCurrency,
+          fromNetwork: alert.fromNetwork,
+          toCurrency: alert.toCurrency,
+          toNetwork: alert.toNetwork,
+          amount: Number(alert.amount),
+          receiveAmount,
+          targetReceiveAmount: Number(alert.targetReceiveAmount),
+        },
+      });
+    }
+  }
+}
+
+async function evaluateRateAlerts() {
+  if (evaluating) return;
+  evaluating = true;
+
+  try {
+    const isLeader = await db.acquireWorkerLease(ALERTS_LEASE, instanceId, LEASE_TTL_MS);
+    if (!isLeader) return;
+
+    for (const alert of await db.expireRateAlerts()) {
+      await notifyWallet(alert.walletId, {
+        type: "alert.expired",
+        title: `Alert on ${describeRoute(alert)} expired`,
+        body:
+          alert.triggerCount > 0
+            ? `It notified you ${alert.triggerCount} time(s). Create a new alert to keep watching this route.`
+            : `The route never reached ${formatAmount(alert.targetReceiveAmount)} ${alert.toCurrency.toUpperCase()}.`,
+        data: { alertId: alert.id },
+      });
+    }
+
+    // Due-ness is decided in the query, so alerts in their cooldown never fill the batch
+    const now = new Date();
+    const due = await db.getDueRateAlerts(new Date(now.getTime() - CHECK_INTERVAL_MS), ALERT_BATCH_SIZE, now);
+    for (const alerts of groupAlertsByRoute(due)) {
+      await checkRoute(alerts, now);
+    }
+  } catch (error) {
+    console.error("[Alerts] Rate alert evaluation failed:", error);
+  } finally {
+    evaluating = false;
+  }
+}
+
+export function startRateAlertEvaluator() {
+  if (!ENV.rateAlertsEnabled || !ENV.databaseUrl) {
+    console.log("[Alerts] Rate alert evaluator disabled");
+    return;
+  }
+  if (evaluatorTimer) return;
+
+  evaluatorTimer = setInterval(() => {
+    void evaluateRateAlerts();
+  }, EVALUATE_INTERVAL_MS);
+  evaluatorTimer.unref?.();
+  void evaluateRateAlerts();
+  console.log(`[Alerts] Rate alert evaluator started (instance ${instanceId})`);
+}
+
+export async function stopRateAlertEvaluator() {
+  if (!evaluatorTimer) return;
+  clearInterval(evaluatorTimer);
+  evaluatorTimer = null;
+  try {
+    await db.releaseWorkerLease(ALERTS_LEASE, instanceId);
+  } catch (error) {
+    console.warn("[Alerts] Failed to release alerts lease:", error);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Transaction Receipts - public view of a transfer by its NR- reference
+ *
+ * When receipt tokens are enabled, each transfer gets a random secret that
+ * has to accompany the reference (`/tx/NR-XXXXXXXX?t=<token>`), so receipts
+ * can't be found by guessing references. Transfers created without a token
+ * stay viewable by reference alone.
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { Transaction } from "../../drizzle/schema";
+import type { ExchangeStatus } from "./exchangeProvider";
+
+export function generateReceiptToken(): string {
+  return randomBytes(16).toString("base64url");
+}
+
+// Constant-time check of a token against the issued one (null = none issued)
+export function matchesToken(issued: string | null, token: string | undefined): boolean {
+  if (!issued) return true;
+  if (!token) return false;
+
+  const expected = Buffer.from(issued);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function canViewReceipt(tx: Pick<Transaction, "receiptToken">, token: string | undefined): boolean {
+  return matchesToken(tx.receiptToken, token);
+}
+
+/**
+ * Fields safe to show to anyone holding the receipt link - no wallet IDs,
+ * support notes or provider IDs
+ */
+export function toReceipt(tx: Transaction, routingStatus: ExchangeStatus | null) {
+  return {
+    reference: tx.txSignature,
+    type: tx.type,
+    status: tx.status,
+    direction: tx.direction,
+    fromCurrency: tx.fromCurrency,
+    fromNetwork: tx.fromNetwork,
+    toCurrency: tx.toCurrency,
+    toNetwork: tx.toNetwork,
+    amount: tx.amount,
+    quotedReceiveAmount: tx.quotedReceiveAmount,
+    feeAmount: tx.feeAmount,
+    feePercentage: tx.feePercentage,
+    recipientAddress: tx.recipientPublicKey,
+    payinAddress: tx.payinAddress,
+    payinExtraId: tx.payinExtraId,
+    payinHash: tx.payinHash ?? routingStatus?.payinHash ?? null,
+    payoutHash: tx.payoutHash ?? routingStatus?.payoutHash ?? null,
+    refundAddress: tx.refundAddress,
+    refundHash: tx.refundHash ?? routingStatus?.refundHash ?? null,
+    refundAmount: tx.refundAmount ?? (routingStatus?.refundAmount !== undefined ? String(routingStatus.refundAmount) : null),
+    errorMessage: tx.errorMessage,
+    createdAt: tx.createdAt,
+    updatedAt: tx.updatedAt,
+    // Live provider view while the transfer is still open
+    routingStatus: routingStatus
+      ? {
+          status: routingStatus.status,
+          fromAmount: routingStatus.fromAmount,
+          toAmount: routingStatus.toAmount,
+        }
+      : null,
+  };
+}
+
+export type Receipt = ReturnType<typeof toReceipt>;
@@ -0,0 +1,129 @@
+/**
+ * Recurrence - cron-style expressions for scheduled transfers
+ *
+ * Five fields, evaluated in UTC: minute hour day-of-month month day-of-week.
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`0-23/2`, `1-20/5`); day-of-week is 0-6 with 7 also meaning Sunday. As in
+ * cron, when both day fields are restricted a day matching either one runs.
+ *
+ * The minute must be a single value, so a schedule runs at most once an
+ * hour. The macros @hourly, @daily, @weekly and @monthly are accepted too.
+ */
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+// Give up after this long without a match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+type Field = { values: Set<number>; restricted: boolean };
+
+export type Recurrence = {
+  minute: number;
+  hours: Field;
+  daysOfMonth: Field;
+  months: Field;
+  daysOfWeek: Field;
+};
+
+function parseField(source: string, name: string, min: number, max: number): Field {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} field: ${source}`);
+    }
+
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end = match[1] === "*" ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field: ${source} (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: source !== "*" };
+}
+
+/**
+ * Parse an expression. Throws with a user-facing message when it is invalid.
+ */
+export function parseRecurrence(expression: string): Recurrence {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (MACROS[normalized] ?? normalized).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Recurrence must have 5 fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+  if (!/^\d+$/.test(minute) || Number(minute) > 59) {
+    throw new Error("Recurrence minute must be a single value (0-59) - schedules run at most hourly");
+  }
+
+  const daysOfWeek = parseField(dayOfWeek, "day-of-week", 0, 7);
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return {
+    minute: Number(minute),
+    hours: parseField(hour, "hour", 0, 23),
+    daysOfMonth: parseField(dayOfMonth, "day-of-month", 1, 31),
+    months: parseField(month, "month", 1, 12),
+    daysOfWeek,
+  };
+}
+
+function matchesDay(recurrence: Recurrence, date: Date) {
+  const { daysOfMonth, daysOfWeek } = recurrence;
+  const domMatch = daysOfMonth.values.has(date.getUTCDate());
+  const dowMatch = daysOfWeek.values.has(date.getUTCDay());
+
+  if (daysOfMonth.restricted && daysOfWeek.restricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * First run strictly after `after`, or null if the expression never matches
+ */
+export function getNextRun(recurrence: Recurrence, after: Date): Date | null {
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_MS;
+
+  while (next.getTime() <= limit) {
+    if (!recurrence.months.values.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(recurrence, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!recurrence.hours.values.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (next.getUTCMinutes() > recurrence.minute) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    next.setUTCMinutes(recurrence.minute);
+    return next;
+  }
+
+  return null;
+}
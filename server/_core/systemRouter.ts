@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { auditAdminAction } from "./admin";
 import { notifyOwner } from "./notification";
 import { adminProcedure, publicProcedure, router } from "./trpc";
 
@@ -20,8 +21,13 @@ export const systemRouter = router({
         content: z.string().min(1, "content is required"),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const delivered = await notifyOwner(input);
+      await auditAdminAction({
+        adminPublicKey: ctx.wallet.publicKey,
+        action: "system.notifyOwner",
+        detail: { title: input.title, delivered },
+      });
       return {
         success: delivered,
       } as const;
@@ -0,0 +1,161 @@
+/**
+ * Transaction Export - CSV / JSON download of a wallet's bridge transfers
+ *
+ * GET /api/export/transactions?format=csv|json&from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Scoped to the signed-in wallet (session cookie). Rows are read page by page
+ * and written as they arrive, so large histories never sit in memory.
+ */
+
+import { parse as parseCookie } from "cookie";
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { COOKIE_NAME } from "@shared/const";
+import type { Transaction } from "../../drizzle/schema";
+import * as db from "../db";
+import { OPEN_STATUSES } from "./transactionStatus";
+import { verifySessionToken } from "./walletAuth";
+
+const EXPORT_PAGE_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Column order of the CSV (and key order of the JSON objects)
+export const EXPORT_COLUMNS = [
+  "reference",
+  "createdAt",
+  "updatedAt",
+  "status",
+  "direction",
+  "fromCurrency",
+  "fromNetwork",
+  "amountSent",
+  "toCurrency",
+  "toNetwork",
+  "amountReceived",
+  "amountRefunded",
+  "feeAmount",
+  "feePercentage",
+  "recipient",
+  "payinAddress",
+  "payinHash",
+  "payoutHash",
+] as const;
+
+export type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | null>;
+
+const exportQuery = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Inclusive
+});
+
+export function toExportRow(tx: Transaction): ExportRow {
+  return {
+    reference: tx.txSignature,
+    createdAt: tx.createdAt.toISOString(),
+    updatedAt: tx.updatedAt.toISOString(),
+    status: tx.status,
+    direction: tx.direction,
+    fromCurrency: tx.fromCurrency,
+    fromNetwork: tx.fromNetwork,
+    amountSent: tx.amount,
+    toCurrency: tx.toCurrency,
+    toNetwork: tx.toNetwork,
+    // Actual payout once finished; the quote only stands in while the route is open
+    amountReceived: tx.receivedAmount ?? (OPEN_STATUSES.includes(tx.status) ? tx.quotedReceiveAmount : null),
+    amountRefunded: tx.refundAmount,
+    feeAmount: tx.feeAmount,
+    feePercentage: tx.feePercentage,
+    recipient: tx.recipientPublicKey,
+    payinAddress: tx.payinAddress,
+    payinHash: tx.payinHash,
+    payoutHash: tx.payoutHash,
+  };
+}
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would evaluate as a
+ * formula is prefixed with a quote.
+ */
+export function toCsvValue(value: string | null): string {
+  if (value === null) return "";
+  let text = value;
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(row: ExportRow): string {
+  return EXPORT_COLUMNS.map(column => toCsvValue(row[column])).join(",") + "\r\n";
+}
+
+async function handleExport(req: Request, res: Response) {
+  const session = await verifySessionToken(parseCookie(req.headers.cookie ?? "")[COOKIE_NAME]);
+  if (!session) {
+    return res.status(401).json({ error: "Sign in with your wallet to export transactions" });
+  }
+
+  const query = exportQuery.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ error: "Invalid export parameters" });
+  }
+  const { format, from, to } = query.data;
+  const fromDate = from ? new Date(`${from}T00:00:00.000Z`) : undefined;
+  const toDate = to ? new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS) : undefined;
+
+  const wallet = await db.getWalletByPublicKey(session.publicKey);
+
+  const filename = `invsol-transfers${from ? `-from-${from}` : ""}${to ? `-to-${to}` : ""}.${format}`;
+  res.status(200);
+  res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Cache-Control", "no-store");
+
+  let aborted = false;
+  req.on("close", () => {
+    aborted = true;
+  });
+
+  res.write(format === "csv" ? EXPORT_COLUMNS.join(",") + "\r\n" : "[");
+
+  let cursor: number | undefined;
+  let first = true;
+  while (wallet && !aborted) {
+    const page = await db.getTransactionHistory({
+      walletId: wallet.id,
+      type: "transfer",
+      from: fromDate,
+      to: toDate,
+      sort: "oldest",
+      cursor,
+      limit: EXPORT_PAGE_SIZE,
+    });
+
+    for (const tx of page.items) {
+      const row = toExportRow(tx);
+      if (format === "csv") {
+        res.write(toCsvLine(row));
+      } else {
+        res.write((first ? "\n" : ",\n") + JSON.stringify(row));
+        first = false;
+      }
+    }
+
+    if (page.nextCursor === null) break;
+    cursor = page.nextCursor;
+  }
+
+  res.end(format === "csv" ? "" : "\n]\n");
+}
+
+export function registerTransactionExportRoutes(app: Express) {
+  app.get("/api/export/transactions", (req, res) => {
+    handleExport(req, res).catch(error => {
+      console.error("[Export] Transaction export failed:", error);
+      // Headers are already out once streaming started - just cut the response
+      if (!res.headersSent) res.status(500).json({ error: "Export failed" });
+      else res.end();
+    });
+  });
+}
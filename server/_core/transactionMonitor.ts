@@ -1,27 +1,293 @@
 /**
  * Transaction Monitor - Stores routing transaction ID mappings in database
  * Replaces in-memory Map for multi-instance support and persistence
+ *
+ * Also runs the status reconciler: a background worker that polls the
+ * provider for every open route and drives its transaction to a terminal
+ * status. Failed routes are polled a while longer in case the provider
+ * refunds them. Only the instance holding the `status-reconciler` lease
+ * runs it, and each route is claimed in `transaction_routing` before it is
+ * checked, so two instances never poll the same route at once.
  */
 
+import { hostname } from "os";
+import { nanoid } from "nanoid";
 import * as db from "../db";
+import { queueGetTransactionStatus } from "./apiQueue";
+import { ENV } from "./env";
+import type { ExchangeStatus, ExchangeStatusValue } from "./exchangeProvider";
+import {
+  InvalidStatusTransitionError,
+  RECONCILE_STATUSES,
+  type StatusSource,
+  type TransactionStatus,
+} from "./transactionStatus";
+import { emitWebhookEvent, type WebhookEventType } from "./webhooks";
+
+const RECONCILER_LEASE = "status-reconciler";
+const RECONCILE_INTERVAL_MS = 15 * 1000;
+const LEASE_TTL_MS = 60 * 1000; // Another instance takes over if we stop renewing
+const RECONCILE_BATCH_SIZE = 25;
+const MIN_CHECK_DELAY_MS = 30 * 1000;
+const MAX_CHECK_DELAY_MS = 30 * 60 * 1000;
+// Unchanged checks after which a failed route is no longer polled for a refund
+// (about a day at the backoff cap)
+export const MAX_FAILED_CHECK_ATTEMPTS = 50;
+const CLAIM_TTL_MS = 2 * 60 * 1000; // Route is re-checked if this instance dies mid-check
+const RECONCILER_PRIORITY = 0; // Below every user-facing API call
+const RESYNC_PRIORITY = 10; // Admin-requested checks go with user-facing status checks
+
+const instanceId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+let reconcilerTimer: ReturnType<typeof setInterval> | null = null;
+let reconciling = false;
+
+/**
+ * Map a provider routing status onto our transaction status
+ * (the routing lifecycle is part of our status enum, so this is 1:1)
+ */
+export function mapRoutingStatus(status: ExchangeStatusValue): TransactionStatus {
+  return status;
+}
+
+/**
+ * Delay before the next check of a route that has gone `attempts` checks
+ * without a status change: doubles from MIN_CHECK_DELAY_MS up to the cap
+ */
+export function nextCheckDelay(attempts: number): number {
+  const exponent = Math.min(Math.max(attempts, 0), 16);
+  return Math.min(MIN_CHECK_DELAY_MS * 2 ** exponent, MAX_CHECK_DELAY_MS);
+}
+
+function failureMessage(status: ExchangeStatusValue): string | undefined {
+  switch (status) {
+    case "refunded":
+      return "Route refunded by the routing service";
+    case "expired":
+      return "Deposit not received before the route expired";
+    case "failed":
+      return "Route failed at the routing service";
+    default:
+      return undefined;
+  }
+}
+
+// Lifecycle webhook fired when a transaction reaches a status
+const STATUS_EVENTS: Partial<Record<TransactionStatus, WebhookEventType>> = {
+  finished: "transfer.finished",
+  refunded: "transfer.refunded",
+  expired: "transfer.expired",
+};
+
+// Statuses in which the provider has seen the user's deposit
+const DEPOSIT_SEEN_STATUSES: TransactionStatus[] = ["confirming", "exchanging", "sending", "finished"];
 
 /**
- * Initialize transaction monitor
+ * Apply a provider-reported status to a transaction: move it through the
+ * state machine, store the hashes and fire lifecycle webhooks.
+ * Shared by the reconciler and provider callbacks so both behave identically.
+ */
+export async function applyRoutingStatus(
+  transaction: { txSignature: string; status: TransactionStatus; provider: string },
+  routingStatus: ExchangeStatus,
+  source: StatusSource
+) {
+  const status = mapRoutingStatus(routingStatus.status);
+  // The provider's final amounts replace the quote once the route settles
+  const receivedAmount = status === "finished" && routingStatus.toAmount > 0 ? String(routingStatus.toAmount) : undefined;
+  const refundAmount = routingStatus.refundAmount === undefined ? undefined : String(routingStatus.refundAmount);
+
+  if (routingStatus.payinHash || routingStatus.payoutHash || routingStatus.refundHash || receivedAmount || refundAmount) {
+    await db.updateTransactionRouteDetails(transaction.txSignature, {
+      payinHash: routingStatus.payinHash,
+      payoutHash: routingStatus.payoutHash,
+      refundHash: routingStatus.refundHash,
+      refundAmount,
+      receivedAmount,
+    });
+  }
+
+  if (status === transaction.status) return;
+
+  try {
+    const changed = await db.updateTransactionStatus(transaction.txSignature, status, {
+      source,
+      errorMessage: failureMessage(routingStatus.status),
+      detail: `${transaction.provider} status: ${routingStatus.status}`,
+    });
+    if (!changed) return;
+    console.log(`[Monitor] ${transaction.txSignature}: ${transaction.status} -> ${status} (${source})`);
+  } catch (error) {
+    // The provider reported a state we can't move to - keep ours
+    if (!(error instanceof InvalidStatusTransitionError)) throw error;
+    console.warn(`[Monitor] ${transaction.txSignature}: ${error.message}`);
+    return;
+  }
+
+  const eventData = {
+    reference: transaction.txSignature,
+    status,
+    previousStatus: transaction.status,
+    fromCurrency: routingStatus.fromCurrency,
+    toCurrency: routingStatus.toCurrency,
+    fromAmount: routingStatus.fromAmount,
+    toAmount: routingStatus.toAmount,
+    payinHash: routingStatus.payinHash ?? null,
+    payoutHash: routingStatus.payoutHash ?? null,
+    refundHash: routingStatus.refundHash ?? null,
+  };
+  const depositJustSeen =
+    DEPOSIT_SEEN_STATUSES.includes(status) && !DEPOSIT_SEEN_STATUSES.includes(transaction.status);
+  if (depositJustSeen) {
+    await emitWebhookEvent("deposit.detected", eventData);
+  }
+  const event = STATUS_EVENTS[status];
+  if (event) {
+    await emitWebhookEvent(event, eventData);
+  }
+}
+
+type DueRoute = Awaited<ReturnType<typeof db.getRoutingDueForCheck>>[number];
+
+async function reconcileRoute(route: DueRoute) {
+  const claimed = await db.claimRoutingCheck(route.id, new Date(Date.now() + CLAIM_TTL_MS));
+  if (!claimed) return; // Another instance got there first
+
+  try {
+    const routingStatus = await queueGetTransactionStatus(
+      route.routingTransactionId,
+      route.provider,
+      RECONCILER_PRIORITY
+    );
+
+    const statusChanged = routingStatus.status !== route.routingStatus;
+    const checkAttempts = statusChanged ? 0 : route.checkAttempts + 1;
+
+    await applyRoutingStatus(route, routingStatus, "reconciler");
+    if (route.status === "failed" && checkAttempts >= MAX_FAILED_CHECK_ATTEMPTS) {
+      console.log(`[Monitor] ${route.txSignature}: no refund reported, no longer polling`);
+    }
+
+    await db.recordRoutingCheck(route.id, {
+      routingStatus: routingStatus.status,
+      payinHash: routingStatus.payinHash,
+      payoutHash: routingStatus.payoutHash,
+      checkAttempts,
+      nextCheckAt: new Date(Date.now() + nextCheckDelay(checkAttempts)),
+    });
+  } catch (error) {
+    // Keep the current status and back off - the route is retried later
+    const checkAttempts = route.checkAttempts + 1;
+    console.warn(`[Monitor] Status check failed for ${route.txSignature}:`,
+      error instanceof Error ? error.message : error);
+    await db.recordRoutingCheck(route.id, {
+      checkAttempts,
+      nextCheckAt: new Date(Date.now() + nextCheckDelay(checkAttempts)),
+    });
+  }
+}
+
+/**
+ * Check one transaction with its provider right now (admin "force re-sync").
+ * Resets the route's backoff. Returns null if the transaction has no route.
+ */
+export async function resyncTransaction(txSignature: string, source: StatusSource) {
+  const routing = await db.getTransactionRouting(txSignature);
+  const transaction = await db.getTransactionBySignature(txSignature);
+  if (!routing || !transaction) return null;
+
+  const routingStatus = await queueGetTransactionStatus(routing.routingTransactionId, routing.provider, RESYNC_PRIORITY);
+  await applyRoutingStatus(
+    { txSignature, status: transaction.status, provider: routing.provider },
+    routingStatus,
+    source
+  );
+  await db.recordRoutingCheck(routing.id, {
+    routingStatus: routingStatus.status,
+    payinHash: routingStatus.payinHash,
+    payoutHash: routingStatus.payoutHash,
+    checkAttempts: 0,
+    nextCheckAt: new Date(Date.now() + nextCheckDelay(0)),
+  });
+
+  return routingStatus;
+}
+
+/**
+ * Run one reconciliation pass if this instance holds the reconciler lease
+ */
+export async function reconcileOpenTransactions() {
+  if (reconciling) return;
+  reconciling = true;
+
+  try {
+    const isLeader = await db.acquireWorkerLease(RECONCILER_LEASE, instanceId, LEASE_TTL_MS);
+    if (!isLeader) return;
+
+    const due = await db.getRoutingDueForCheck(RECONCILE_STATUSES, MAX_FAILED_CHECK_ATTEMPTS, RECONCILE_BATCH_SIZE);
+    for (const route of due) {
+      try {
+        await reconcileRoute(route);
+      } catch (error) {
+        console.error(`[Monitor] Failed to reconcile ${route.txSignature}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Monitor] Reconciliation pass failed:", error);
+  } finally {
+    reconciling = false;
+  }
+}
+
+/**
+ * Initialize transaction monitor and start the status reconciler
  */
 export async function startTransactionMonitor() {
   console.log(`[Monitor] Transaction monitor initialized - using database for routing mappings`);
+
+  if (!ENV.statusReconcilerEnabled || !ENV.databaseUrl) {
+    console.log("[Monitor] Status reconciler disabled");
+    return;
+  }
+  if (reconcilerTimer) return;
+
+  reconcilerTimer = setInterval(() => {
+    void reconcileOpenTransactions();
+  }, RECONCILE_INTERVAL_MS);
+  // Don't keep the process alive just for the reconciler
+  reconcilerTimer.unref?.();
+  console.log(`[Monitor] Status reconciler started (instance ${instanceId})`);
+}
+
+/**
+ * Stop the status reconciler and hand the lease to another instance
+ */
+export async function stopTransactionMonitor() {
+  if (!reconcilerTimer) return;
+  clearInterval(reconcilerTimer);
+  reconcilerTimer = null;
+  try {
+    await db.releaseWorkerLease(RECONCILER_LEASE, instanceId);
+  } catch (error) {
+    console.warn("[Monitor] Failed to release reconciler lease:", error);
+  }
 }
 
 /**
  * Store routing transaction ID mapping in database
  */
-export async function storeRoutingTransactionId(transactionId: string, routingTransactionId: string) {
+export async function storeRoutingTransactionId(
+  transactionId: string,
+  routingTransactionId: string,
+  provider: string
+) {
   try {
     await db.storeTransactionRouting({
       txSignature: transactionId,
       routingTransactionId: routingTransactionId,
+      provider,
     });
-  console.log(`[Monitor] Stored routing transaction mapping: ${transactionId} -> ${routingTransactionId}`);
+  console.log(`[Monitor] Stored routing transaction mapping: ${transactionId} -> ${provider}:${routingTransactionId}`);
   } catch (error) {
     console.error(`[Monitor] Failed to store routing transaction mapping:`, error);
     throw error;
@@ -39,3 +305,32 @@ export async function getRoutingTransactionId(transactionId: string): Promise<st
     return null;
   }
 }
+
+/**
+ * Get routing transaction ID and the provider that owns it
+ */
+export async function getRoutingInfo(
+  transactionId: string
+): Promise<{ routingTransactionId: string; provider: string } | null> {
+  try {
+    const routing = await db.getTransactionRouting(transactionId);
+    if (!routing) return null;
+    return { routingTransactionId: routing.routingTransactionId, provider: routing.provider };
+  } catch (error) {
+    console.error(`[Monitor] Failed to get routing info:`, error);
+    return null;
+  }
+}
+
+/**
+ * Resolve which provider owns a routing transaction ID (null if unknown)
+ */
+export async function getProviderForRoutingId(routingTransactionId: string): Promise<string | null> {
+  try {
+    const routing = await db.getTransactionRoutingByRoutingId(routingTransactionId);
+    return routing?.provider ?? null;
+  } catch (error) {
+    console.error(`[Monitor] Failed to look up routing provider:`, error);
+    return null;
+  }
+}
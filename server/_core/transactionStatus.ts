@@ -0,0 +1,75 @@
+/**
+ * Transaction Status State Machine
+ *
+ * Routed transfers follow the provider lifecycle
+ * (pending → waiting → confirming → exchanging → sending → finished) and can
+ * drop out to failed, refunded or expired. Shield/unshield operations only
+ * use pending → confirmed | failed.
+ *
+ * Forward jumps are allowed because a poll can miss intermediate states;
+ * moving backwards or out of a terminal state is not.
+ */
+
+import type { Transaction } from "../../drizzle/schema";
+
+export type TransactionStatus = Transaction["status"];
+
+// Who caused a status change - recorded in transaction_status_history
+export type StatusSource = "shield" | "transfer" | "unshield" | "confirm" | "reconciler" | "callback" | "admin";
+
+export const TERMINAL_STATUSES: readonly TransactionStatus[] = [
+  "confirmed",
+  "finished",
+  "failed",
+  "refunded",
+  "expired",
+];
+
+// Statuses of routes still in progress
+export const OPEN_STATUSES: readonly TransactionStatus[] = [
+  "pending",
+  "waiting",
+  "confirming",
+  "exchanging",
+  "sending",
+];
+
+// Statuses the reconciler still needs to poll: open routes, plus failed ones
+// the provider may yet refund (for a limited number of checks)
+export const RECONCILE_STATUSES: readonly TransactionStatus[] = [...OPEN_STATUSES, "failed"];
+
+const ALLOWED_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  pending: ["waiting", "confirming", "exchanging", "sending", "finished", "confirmed", "failed", "refunded", "expired"],
+  waiting: ["confirming", "exchanging", "sending", "finished", "failed", "refunded", "expired"],
+  confirming: ["exchanging", "sending", "finished", "failed", "refunded"],
+  exchanging: ["sending", "finished", "failed", "refunded"],
+  sending: ["finished", "failed", "refunded"],
+  // A failed route can still be refunded by the provider
+  failed: ["refunded"],
+  confirmed: [],
+  finished: [],
+  refunded: [],
+  expired: [],
+};
+
+export function isTerminalStatus(status: TransactionStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Thrown by db.updateTransactionStatus when a status change would break the
+ * state machine (e.g. finished → waiting)
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public from: TransactionStatus,
+    public to: TransactionStatus
+  ) {
+    super(`Invalid transaction status transition: ${from} -> ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Transfer Scheduler - creates scheduled and recurring transfers when due
+ *
+ * A schedule holds the parameters of a `transaction.transfer` call plus a
+ * one-off run time or a cron-style recurrence (see ./recurrence). Every
+ * minute the instance holding the `transfer-scheduler` lease picks up the
+ * active schedules whose nextRunAt is due and, for each one:
+ *   1. claims the run by moving nextRunAt on (or completing a one-off),
+ *   2. creates the transfer through createTransfer, owned by the schedule's
+ *      wallet, exactly as if the owner had submitted it,
+ *   3. records the run and notifies the owner with the address to fund.
+ *
+ * Claiming before creating means a run is created at most once - if an
+ * instance dies mid-run the run is lost rather than paid twice. Runs missed
+ * while no scheduler was running are made once, late, and the next run is
+ * computed from the current time. A schedule is paused after
+ * MAX_CONSECUTIVE_FAILURES failed runs in a row.
+ */
+
+import { hostname } from "os";
+import { nanoid } from "nanoid";
+import type { InsertTransferSchedule, TransferSchedule } from "../../drizzle/schema";
+import * as db from "../db";
+import {
+  getAddressValidationError,
+  getCurrency,
+  getExtraIdValidationError,
+  getNetwork,
+  isValidAddress,
+  isValidExtraId,
+  resolveToNetwork,
+} from "./currencies";
+import { ENV } from "./env";
+import { getNextRun, parseRecurrence } from "./recurrence";
+import { createTransfer } from "./transfers";
+import { notifyWallet } from "./walletNotifications";
+
+export const MAX_SCHEDULES_PER_WALLET = 20;
+export const MAX_CONSECUTIVE_FAILURES = 3;
+
+const SCHEDULER_LEASE = "transfer-scheduler";
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+const LEASE_TTL_MS = 3 * SCHEDULER_INTERVAL_MS;
+const RUN_BATCH_SIZE = 20;
+
+const instanceId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+export type ScheduleInput = {
+  label: string;
+  recipientAddress: string;
+  extraId?: string | null;
+  amount: string;
+  direction?: "send" | "receive";
+  currency: string;
+  network: string;
+  toCurrency?: string | null;
+  toNetwork?: string | null;
+  refundAddress?: string | null;
+  refundExtraId?: string | null;
+  recurrence?: string | null; // Cron-style, UTC
+  runAt?: Date | null; // One-off run time
+};
+
+export type ValidatedSchedule = Omit<
+  InsertTransferSchedule,
+  "id" | "walletId" | "status" | "consecutiveFailures" | "lastRunAt" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Check a schedule with the same rules as the transfer it will create, and
+ * work out its first run. Network defaults follow transaction.transfer.
+ */
+export function validateSchedule(
+  input: ScheduleInput,
+  now = new Date()
+): { schedule: ValidatedSchedule; error: null } | { schedule: null; error: string } {
+  const label = input.label.trim();
+  if (!label || label.length > 64) {
+    return { schedule: null, error: "Label must be 1-64 characters" };
+  }
+
+  const fromCurrency = input.currency.trim().toLowerCase();
+  const fromNetwork = input.network.trim().toLowerCase();
+  const fromCurrencyConfig = getCurrency(fromCurrency);
+  if (!fromCurrencyConfig) {
+    return { schedule: null, error: `Unsupported currency: ${fromCurrency}` };
+  }
+  if (!getNetwork(fromCurrency, fromNetwork)) {
+    return { schedule: null, error: `Unsupported network ${fromNetwork} for ${fromCurrencyConfig.symbol}` };
+  }
+
+  const toCurrency = (input.toCurrency?.trim() || fromCurrency).toLowerCase();
+  const toNetwork = resolveToNetwork(toCurrency, input.toNetwork, { currency: fromCurrency, network: fromNetwork });
+  const toCurrencyConfig = getCurrency(toCurrency);
+  if (!toCurrencyConfig) {
+    return { schedule: null, error: `Unsupported to currency: ${toCurrency}` };
+  }
+  const toNetworkConfig = getNetwork(toCurrency, toNetwork);
+  if (!toNetworkConfig) {
+    return { schedule: null, error: `Unsupported network ${toNetwork} for ${toCurrencyConfig.symbol}` };
+  }
+
+  const recipientAddress = input.recipientAddress.trim();
+  if (!isValidAddress(recipientAddress, toNetwork)) {
+    return { schedule: null, error: getAddressValidationError(toNetwork) };
+  }
+  const extraId = input.extraId?.trim() || null;
+  if (!extraId && toNetworkConfig.extraId?.required) {
+    return { schedule: null, error: `${toNetworkConfig.extraId.label} is required for ${toNetwork.toUpperCase()} payouts` };
+  }
+  if (extraId && !isValidExtraId(extraId, toNetwork)) {
+    return { schedule: null, error: getExtraIdValidationError(toNetwork) };
+  }
+
+  const refundAddress = input.refundAddress?.trim() || null;
+  const refundExtraId = refundAddress ? input.refundExtraId?.trim() || null : null;
+  if (refundAddress && !isValidAddress(refundAddress, fromNetwork)) {
+    return { schedule: null, error: `Refund address: ${getAddressValidationError(fromNetwork)}` };
+  }
+  if (refundExtraId && !isValidExtraId(refundExtraId, fromNetwork)) {
+    return { schedule: null, error: `Refund tag: ${getExtraIdValidationError(fromNetwork)}` };
+  }
+
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { schedule: null, error: "Invalid amount" };
+  }
+
+  const recurrence = input.recurrence?.trim() || null;
+  if (recurrence && input.runAt) {
+    return { schedule: null, error: "Choose either a run time or a recurrence, not both" };
+  }
+
+  let nextRunAt: Date | null;
+  if (recurrence) {
+    try {
+      nextRunAt = getNextRun(parseRecurrence(recurrence), now);
+    } catch (error) {
+      return { schedule: null, error: error instanceof Error ? error.message : "Invalid recurrence" };
+    }
+    if (!nextRunAt) {
+      return { schedule: null, error: "Recurrence never matches a date" };
+    }
+  } else if (input.runAt) {
+    if (input.runAt.getTime() <= now.getTime()) {
+      return { schedule: null, error: "Run time must be in the future" };
+    }
+    nextRunAt = input.runAt;
+  } else {
+    return { schedule: null, error: "A run time or a recurrence is required" };
+  }
+
+  return {
+    schedule: {
+      label,
+      recipientAddress,
+      extraId,
+      amount: String(amount),
+      direction: input.direction === "receive" ? "receive" : "send",
+      fromCurrency,
+      fromNetwork,
+      toCurrency,
+      toNetwork,
+      refundAddress,
+      refundExtraId,
+      recurrence,
+      nextRunAt,
+    },
+    error: null,
+  };
+}
+
+/**
+ * When a paused schedule runs next once resumed. Recurring schedules skip
+ * what was missed while paused; a one-off keeps its time (and runs right
+ * away if that has passed).
+ */
+export function getResumedNextRun(schedule: Pick<TransferSchedule, "recurrence" | "nextRunAt">, now = new Date()) {
+  if (!schedule.recurrence) return schedule.nextRunAt;
+  return getNextRun(parseRecurrence(schedule.recurrence), now);
+}
+
+function describeDeposit(amount: number, currency: string, network: string) {
+  return `${amount} ${currency.toUpperCase()} on ${network.toUpperCase()}`;
+}
+
+async function runSchedule(due: TransferSchedule) {
+  const scheduledFor = due.nextRunAt!;
+  const now = new Date();
+  const nextRunAt = due.recurrence ? getNextRun(parseRecurrence(due.recurrence), now) : null;
+
+  // Run with the claimed row, which reflects any edit made since `due` was read
+  const schedule = await db.claimTransferScheduleRun(due.id, scheduledFor, {
+    nextRunAt,
+    status: nextRunAt ? "active" : "completed",
+    lastRunAt: now,
+  });
+  if (!schedule) return;
+
+  let transfer: Awaited<ReturnType<typeof createTransfer>>;
+  try {
+    transfer = await createTransfer(
+      {
+        recipientAddress: schedule.recipientAddress,
+        extraId: schedule.extraId ?? undefined,
+        amount: schedule.amount,
+        currency: schedule.fromCurrency,
+        network: schedule.fromNetwork,
+        toCurrency: schedule.toCurrency,
+        toNetwork: schedule.toNetwork,
+        direction: schedule.direction === "receive" ? "receive" : "send",
+        refundAddress: schedule.refundAddress ?? undefined,
+        refundExtraId: schedule.refundExtraId ?? undefined,
+      },
+      { walletId: schedule.walletId }
+    );
+  } catch (error) {
+    await recordFailedRun(schedule, scheduledFor, error instanceof Error ? error.message : "Transfer creation failed");
+    return;
+  }
+
+  console.log(`[Scheduler] Schedule ${schedule.id} created ${transfer.txSignature}`);
+  try {
+    await db.recordTransferScheduleRun({
+      scheduleId: schedule.id,
+      scheduledFor,
+      status: "created",
+      txSignature: transfer.txSignature,
+      payinAddress: transfer.payinAddress,
+      payinExtraId: transfer.payinExtraId,
+      depositAmount: String(transfer.amount),
+    });
+    if (schedule.consecutiveFailures > 0) {
+      await db.updateTransferSchedule(schedule.id, schedule.walletId, { consecutiveFailures: 0 });
+    }
+  } catch (error) {
+    console.warn(`[Scheduler] Run ${transfer.txSignature} of schedule ${schedule.id} not recorded:`, error);
+  }
+
+  const memo = transfer.payinExtraId ? ` with memo/tag ${transfer.payinExtraId}` : "";
+  await notifyWallet(schedule.walletId, {
+    type: "schedule.run_created",
+    title: `"${schedule.label}" is ready to fund`,
+    body: `Send ${describeDeposit(transfer.amount, schedule.fromCurrency, schedule.fromNetwork)} to ${transfer.payinAddress}${memo}. Reference ${transfer.txSignature}.`,
+    data: {
+      scheduleId: schedule.id,
+      reference: transfer.txSignature,
+      receiptToken: transfer.receiptToken,
+      payinAddress: transfer.payinAddress,
+      payinExtraId: transfer.payinExtraId,
+      amount: transfer.amount,
+      currency: schedule.fromCurrency,
+      network: schedule.fromNetwork,
+    },
+  });
+}
+
+async function recordFailedRun(schedule: TransferSchedule, scheduledFor: Date, message: string) {
+  console.warn(`[Scheduler] Schedule ${schedule.id} run failed: ${message}`);
+  const failures = schedule.consecutiveFailures + 1;
+  const pause = failures >= MAX_CONSECUTIVE_FAILURES && schedule.status === "active";
+
+  try {
+    await db.recordTransferScheduleRun({ scheduleId: schedule.id, scheduledFor, status: "failed", error: message });
+    await db.updateTransferSchedule(schedule.id, schedule.walletId, {
+      consecutiveFailures: failures,
+      ...(pause ? { status: "paused" } : {}),
+    });
+  } catch (error) {
+    console.warn(`[Scheduler] Failed run of schedule ${schedule.id} not recorded:`, error);
+  }
+
+  await notifyWallet(schedule.walletId, {
+    type: pause ? "schedule.paused" : "schedule.run_failed",
+    title: pause ? `"${schedule.label}" was paused` : `"${schedule.label}" could not run`,
+    body: pause
+      ? `The last ${failures} runs failed (latest: ${message}). Resume the schedule once the problem is fixed.`
+      : `No transfer was created: ${message}`,
+    data: { scheduleId: schedule.id, error: message },
+  });
+}
+
+/**
+ * Run every due schedule (leader only)
+ */
+async function runDueSchedules() {
+  if (running) return;
+  running = true;
+
+  try {
+    const isLeader = await db.acquireWorkerLease(SCHEDULER_LEASE, instanceId, LEASE_TTL_MS);
+    if (!isLeader) return;
+
+    const due = await db.getDueTransferSchedules(RUN_BATCH_SIZE);
+    for (const schedule of due) {
+      try {
+        await runSchedule(schedule);
+      } catch (error) {
+        console.error(`[Scheduler] Schedule ${schedule.id} failed:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Scheduler tick failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startTransferScheduler() {
+  if (!ENV.transferSchedulerEnabled || !ENV.databaseUrl) {
+    console.log("[Scheduler] Transfer scheduler disabled");
+    return;
+  }
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(() => {
+    void runDueSchedules();
+  }, SCHEDULER_INTERVAL_MS);
+  schedulerTimer.unref?.();
+  void runDueSchedules();
+  console.log(`[Scheduler] Transfer scheduler started (instance ${instanceId})`);
+}
+
+export async function stopTransferScheduler() {
+  if (!schedulerTimer) return;
+  clearInterval(schedulerTimer);
+  schedulerTimer = null;
+  try {
+    await db.releaseWorkerLease(SCHEDULER_LEASE, instanceId);
+  } catch (error) {
+    console.warn("[Scheduler] Failed to release scheduler lease:", error);
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Transfers - create a routed transfer and persist it
+ *
+ * Shared by `transaction.transfer` and the transfer scheduler, so scheduled
+ * runs go through exactly the same validation, quote/rate handling, deposit
+ * limits and persistence as a transfer the user creates by hand. Batch legs
+ * are stored through persistTransfer as well.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { nanoid } from "nanoid";
+import * as db from "../db";
+import { queueCreateTransaction } from "./apiQueue";
+import {
+  getAddressValidationError,
+  getCurrency,
+  getExtraIdValidationError,
+  getNetwork,
+  isValidAddress,
+  isValidExtraId,
+  resolveToNetwork,
+} from "./currencies";
+import { refreshCurrencyCatalog } from "./currencyCatalog";
+import { ENV } from "./env";
+import { getDefaultProviderId, type ExchangeFlow, type ExchangeTransaction } from "./exchangeProvider";
+import { checkAmountLimits, getPairLimits } from "./pairLimits";
+import { consumeFixedRate, getQuote, isQuotedAmount, lockFixedRate, releaseFixedRate } from "./quotes";
+import { generateReceiptToken } from "./receipts";
+import { storeRoutingTransactionId } from "./transactionMonitor";
+import { emitWebhookEvent } from "./webhooks";
+
+export type TransferRequest = {
+  recipientAddress: string;
+  extraId?: string;
+  amount: string;
+  currency?: string;
+  network?: string;
+  toCurrency?: string;
+  toNetwork?: string;
+  quoteId?: string;
+  rateId?: string;
+  direction?: "send" | "receive";
+  refundAddress?: string;
+  refundExtraId?: string;
+};
+
+export type PersistTransferParams = {
+  routingTx: ExchangeTransaction;
+  providerId: string;
+  walletId?: number; // Owner; the shared placeholder wallet if not given
+  batchId?: string; // NB- reference when the transfer is a batch leg
+  batchToken?: string | null; // Secret of that batch
+  direction: "send" | "receive";
+  fromCurrency: string;
+  toCurrency: string;
+  fromNetwork: string;
+  toNetwork: string;
+  depositAmount: number;
+  receiveAmount: number; // Quoted payout
+  recipientAddress: string;
+  extraId: string | null;
+  refundAddress?: string;
+  refundExtraId?: string;
+  fee: { feeAmount: number; feePercentage: number } | null; // From the quote the route was created with
+};
+
+/**
+ * Store a route the provider just created and announce it (transfer.created).
+ * Returns the user-facing reference and receipt token. Best effort: the route
+ * exists either way, so storage failures are logged, not thrown.
+ */
+export async function persistTransfer(params: PersistTransferParams) {
+  const { routingTx } = params;
+  // User-friendly reference (hides the provider's ID)
+  const reference = `NR-${nanoid(8).toUpperCase()}`;
+  const receiptToken = ENV.receiptTokensEnabled ? generateReceiptToken() : null;
+
+  try {
+    await storeRoutingTransactionId(reference, routingTx.id, params.providerId);
+
+    const placeholderWallet = params.walletId ? null : await db.getWalletByPublicKey("DEPOSIT_PLACEHOLDER");
+    const walletId = params.walletId ?? placeholderWallet?.id ?? (await db.upsertWallet("DEPOSIT_PLACEHOLDER"));
+
+    await db.createTransaction(
+      {
+        walletId,
+        type: "transfer", // Both privacy and swap use transfer type
+        amount: String(params.depositAmount),
+        // Only meaningful for SOL deposits
+        amountSol: params.fromCurrency === "sol" ? String(params.depositAmount) : null,
+        recipientPublicKey: params.recipientAddress,
+        txSignature: reference,
+        payinAddress: routingTx.payinAddress,
+        direction: params.direction,
+        fromCurrency: params.fromCurrency,
+        toCurrency: params.toCurrency,
+        fromNetwork: params.fromNetwork,
+        toNetwork: params.toNetwork,
+        quotedReceiveAmount: String(params.receiveAmount),
+        feeAmount: params.fee ? String(params.fee.feeAmount) : null,
+        feePercentage: params.fee ? String(params.fee.feePercentage) : null,
+        payinExtraId: routingTx.payinExtraId ?? null,
+        payoutExtraId: routingTx.payoutExtraId ?? params.extraId,
+        refundAddress: params.refundAddress ?? null,
+        refundExtraId: params.refundExtraId ?? null,
+        receiptToken,
+        batchId: params.batchId ?? null,
+        batchToken: params.batchToken ?? null,
+        status: "pending",
+      },
+      "transfer"
+    );
+
+    await emitWebhookEvent("transfer.created", {
+      reference,
+      ...(params.batchId ? { batchId: params.batchId } : {}),
+      status: "pending",
+      direction: params.direction,
+      fromCurrency: params.fromCurrency,
+      toCurrency: params.toCurrency,
+      fromNetwork: params.fromNetwork,
+      toNetwork: params.toNetwork,
+      depositAmount: params.depositAmount,
+      quotedReceiveAmount: params.receiveAmount,
+      payinAddress: routingTx.payinAddress,
+      recipientAddress: params.recipientAddress,
+    });
+  } catch (error) {
+    console.warn(`[Transfer] ${reference} created but not persisted:`, error);
+  }
+
+  return { reference, receiptToken };
+}
+
+/**
+ * Validate and create a transfer. Throws TRPCError for anything the caller
+ * should fix; provider failures propagate as-is.
+ */
+export async function createTransfer(payload: TransferRequest, options: { walletId?: number } = {}) {
+  // Get from currency/network with defaults
+  const fromCurrency = (payload.currency || "sol").toLowerCase();
+  const fromNetwork = (payload.network || fromCurrency).toLowerCase();
+
+  // Get to currency/network (defaults to same for privacy mode)
+  const toCurrency = (payload.toCurrency || fromCurrency).toLowerCase();
+  const toNetwork = resolveToNetwork(toCurrency, payload.toNetwork, { currency: fromCurrency, network: fromNetwork });
+
+  // Validate from currency exists
+  await refreshCurrencyCatalog();
+  const fromCurrencyConfig = getCurrency(fromCurrency);
+  if (!fromCurrencyConfig) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unsupported currency: ${fromCurrency}`,
+    });
+  }
+
+  // Validate from network exists
+  const fromNetworkConfig = getNetwork(fromCurrency, fromNetwork);
+  if (!fromNetworkConfig) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unsupported network ${fromNetwork} for ${fromCurrencyConfig.symbol}`,
+    });
+  }
+
+  // Validate to currency if different
+  let toCurrencyConfig = fromCurrencyConfig;
+  if (toCurrency !== fromCurrency) {
+    const foundToCurrency = getCurrency(toCurrency);
+    if (!foundToCurrency) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Unsupported to currency: ${toCurrency}`,
+      });
+    }
+    toCurrencyConfig = foundToCurrency;
+  }
+
+  // Validate recipient address format based on TO network (destination)
+  if (!isValidAddress(payload.recipientAddress, toNetwork)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: getAddressValidationError(toNetwork),
+    });
+  }
+
+  // Memo / tag the payout must carry, per the destination network's metadata
+  const extraIdConfig = getNetwork(toCurrency, toNetwork)?.extraId;
+  const extraId = payload.extraId?.trim() || undefined;
+  if (!extraId && extraIdConfig?.required) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${extraIdConfig.label} is required for ${toNetwork.toUpperCase()} payouts`,
+    });
+  }
+  if (extraId && !isValidExtraId(extraId, toNetwork)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: getExtraIdValidationError(toNetwork),
+    });
+  }
+
+  // Refunds return the deposit, so they go to the FROM network
+  const refundAddress = payload.refundAddress?.trim() || undefined;
+  const refundExtraId = refundAddress ? payload.refundExtraId?.trim() || undefined : undefined;
+  if (refundAddress && !isValidAddress(refundAddress, fromNetwork)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Refund address: ${getAddressValidationError(fromNetwork)}`,
+    });
+  }
+  if (refundExtraId && !isValidExtraId(refundExtraId, fromNetwork)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Refund tag: ${getExtraIdValidationError(fromNetwork)}`,
+    });
+  }
+
+  const amount = parseFloat(payload.amount);
+  if (isNaN(amount) || amount <= 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid amount",
+    });
+  }
+
+  const direction = payload.direction === "receive" ? "receive" : "send";
+  const isReverse = direction === "receive";
+  // Quotes are matched on the side of the route the user fixed
+  const matchesAmount = (q: { direction: string; sendAmount: number; receiveAmount: number }) =>
+    q.direction === direction && isQuotedAmount(isReverse ? q.receiveAmount : q.sendAmount, amount);
+
+  // Determine if this is privacy mode or cross-chain swap
+  const isPrivacyMode = fromCurrency === toCurrency;
+  const txType = isPrivacyMode ? "privacy transfer" : `swap ${fromCurrencyConfig.symbol} → ${toCurrencyConfig.symbol}`;
+  
+  // Refuse out-of-range deposits before a rate is claimed or a route created
+  const checkLimits = async (deposit: number, provider: string, routeFlow: ExchangeFlow) => {
+    const limits = await getPairLimits({ fromCurrency, toCurrency, fromNetwork, toNetwork }, provider, routeFlow);
+    const limitError = checkAmountLimits(deposit, limits, fromCurrency);
+    if (limitError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: limitError.message, cause: limitError });
+    }
+  };
+
+  // Create transaction via the quoted provider, or the configured default
+  let providerId = getDefaultProviderId();
+  let flow: ExchangeFlow = "standard";
+  let providerRateId: string | undefined;
+  // Quote the route was created from, for the persisted fee breakdown
+  let routeQuote: { sendAmount: number; feeAmount: number; feePercentage: number } | null = null;
+  let rateId: string | undefined = payload.rateId;
+  let claimedRateId: string | undefined; // Released again if no route gets created with it
+  if (!rateId && isReverse) {
+    // Providers only honour an exact payout on a locked rate - lock one now,
+    // with the provider of the picked quote if there is one
+    const sourceQuote = payload.quoteId ? await getQuote(payload.quoteId) : null;
+    const locked = await lockFixedRate(
+      { fromCurrency, toCurrency, fromNetwork, toNetwork, amount, direction },
+      sourceQuote?.provider
+    );
+    rateId = locked.quoteId;
+  }
+  if (rateId) {
+    const rate = await getQuote(rateId);
+    if (
+      rate &&
+      (rate.fromCurrency !== fromCurrency ||
+        rate.toCurrency !== toCurrency ||
+        rate.fromNetwork !== fromNetwork ||
+        rate.toNetwork !== toNetwork ||
+        !matchesAmount(rate))
+    ) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Locked rate does not match this transfer. Please lock a new rate.",
+      });
+    }
+
+    if (rate) {
+      await checkLimits(isReverse ? rate.sendAmount : amount, rate.provider, "fixed-rate");
+    }
+
+    // Claim the rate atomically so it can back only one route
+    const consumed = await consumeFixedRate(rateId);
+    if (!consumed || !consumed.providerRateId) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Locked rate has expired or was already used. Please lock a new rate.",
+      });
+    }
+    claimedRateId = rateId;
+    providerId = consumed.provider;
+    flow = "fixed-rate";
+    providerRateId = consumed.providerRateId;
+    routeQuote = consumed;
+  } else if (payload.quoteId) {
+    const quote = await getQuote(payload.quoteId);
+    if (!quote) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Quote not found. Please refresh the estimate.",
+      });
+    }
+    if (quote.expiresAt.getTime() < Date.now()) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Quote expired. Please refresh the estimate.",
+      });
+    }
+    if (
+      quote.fromCurrency !== fromCurrency ||
+      quote.toCurrency !== toCurrency ||
+      quote.fromNetwork !== fromNetwork ||
+      quote.toNetwork !== toNetwork ||
+      !matchesAmount(quote)
+    ) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Quote does not match this transfer. Please refresh the estimate.",
+      });
+    }
+    await checkLimits(amount, quote.provider, flow);
+    providerId = quote.provider;
+    routeQuote = quote;
+  } else {
+    await checkLimits(amount, providerId, flow);
+  }
+
+  let routingTx: Awaited<ReturnType<typeof queueCreateTransaction>>;
+  try {
+    const amountLabel = isReverse
+      ? `${amount} ${toCurrencyConfig.symbol} payout`
+      : `${amount} ${fromCurrencyConfig.symbol}`;
+    console.log(`[Transfer] Creating ${txType}: ${amountLabel} on ${fromNetwork} via ${providerId}`);
+    routingTx = await queueCreateTransaction({
+      fromCurrency: fromCurrency,
+      toCurrency: toCurrency,
+      fromNetwork: fromNetwork,
+      toNetwork: toNetwork,
+      fromAmount: isReverse ? undefined : amount,
+      toAmount: isReverse ? amount : undefined,
+      address: payload.recipientAddress.trim(),
+      extraId,
+      flow,
+      rateId: providerRateId,
+      refundAddress,
+      refundExtraId,
+    }, providerId);
+  } catch (error) {
+    if (claimedRateId) await releaseFixedRate(claimedRateId);
+    throw error;
+  }
+
+  // What the user has to deposit - provider-computed for "receive exactly"
+  const depositAmount = isReverse ? Number(routingTx.fromAmount) : amount;
+  const receiveAmount = isReverse ? amount : Number(routingTx.toAmount);
+
+  // Log for debugging
+  console.log("[Transfer] Transaction created successfully, ID:", routingTx.id, "Length:", routingTx.id?.length);
+
+  const { reference: userTxRef, receiptToken } = await persistTransfer({
+    routingTx,
+    providerId,
+    walletId: options.walletId,
+    direction,
+    fromCurrency,
+    toCurrency,
+    fromNetwork,
+    toNetwork,
+    depositAmount,
+    receiveAmount,
+    recipientAddress: payload.recipientAddress,
+    extraId: extraId ?? null,
+    refundAddress,
+    refundExtraId,
+    fee: routeQuote,
+  });
+
+  // Return success with sanitized data
+  return {
+    success: true,
+    txSignature: userTxRef,
+    receiptToken, // Needed (with the reference) to open the receipt page
+    payinAddress: routingTx.payinAddress,
+    payinExtraId: routingTx.payinExtraId ?? null,
+    routingTransactionId: routingTx.id,
+    amount: depositAmount,
+    receiveAmount,
+    direction,
+    currency: fromCurrencyConfig.symbol,
+    toCurrency: toCurrencyConfig.symbol,
+    network: fromNetwork,
+    toNetwork: toNetwork,
+    recipientAddress: payload.recipientAddress,
+    isSwap: !isPrivacyMode,
+    isFixedRate: flow === "fixed-rate",
+  };
+}
@@ -1,15 +1,54 @@
-import { initTRPC } from "@trpc/server";
+import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from "@shared/const";
+import { CodedError } from "@shared/types";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { isAdminWallet } from "./admin";
 import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  // Surface the code of a CodedError cause so clients can react to it
+  errorFormatter({ shape, error }) {
+    const cause = error.cause instanceof CodedError ? error.cause : null;
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        errorCode: cause?.errorCode ?? null,
+        errorDetails: cause?.details ?? null,
+      },
+    };
+  },
 });
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
 
-// For wallet-only dApp, all procedures are public
-// Authentication is handled by wallet signatures, not server-side sessions
-export const protectedProcedure = t.procedure;
-export const adminProcedure = t.procedure;
+// Requires a sign-in-with-Solana session (see walletAuth.ts)
+const requireWallet = t.middleware(async opts => {
+  const { ctx, next } = opts;
+
+  if (!ctx.wallet) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      wallet: ctx.wallet,
+    },
+  });
+});
+
+export const protectedProcedure = t.procedure.use(requireWallet);
+
+// Signed-in wallet must also be on the ADMIN_WALLETS allow-list
+export const adminProcedure = protectedProcedure.use(async opts => {
+  const { ctx, next } = opts;
+
+  if (!isAdminWallet(ctx.wallet.publicKey)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_ADMIN_ERR_MSG });
+  }
+
+  return next();
+});
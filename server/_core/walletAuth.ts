@@ -0,0 +1,150 @@
+/**
+ * Wallet Authentication - Sign-in with Solana
+ *
+ * 1. The client asks for a nonce; the server returns a one-time sign-in message
+ * 2. The wallet signs the message (`signMessage`, ed25519)
+ * 3. The server verifies the signature against the wallet's public key,
+ *    consumes the nonce and issues a session cookie (HS256 JWT)
+ *
+ * Nonces are persisted in `auth_nonces` (multi-instance safe). If the
+ * database is unavailable they are kept in memory on this instance only.
+ */
+
+import { createPublicKey, verify } from "crypto";
+import bs58 from "bs58";
+import { jwtVerify, SignJWT } from "jose";
+import { nanoid } from "nanoid";
+import * as db from "../db";
+import { ENV } from "./env";
+
+export const NONCE_TTL_MS = 5 * 60 * 1000; // 5 minutes to sign
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const SESSION_ISSUER = "invsol";
+
+export interface WalletSession {
+  publicKey: string;
+}
+
+type IssuedNonce = { nonce: string; publicKey: string; message: string; expiresAt: Date; used?: boolean };
+
+// Fallback store for when the database is not reachable
+const memoryNonces = new Map<string, IssuedNonce>();
+
+export function createSignInMessage(params: {
+  domain: string;
+  publicKey: string;
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}): string {
+  return [
+    `${params.domain} wants you to sign in with your Solana account:`,
+    params.publicKey,
+    "",
+    "Sign in to INVSOL. This request will not trigger a blockchain transaction or cost any fees.",
+    "",
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${params.issuedAt.toISOString()}`,
+    `Expiration Time: ${params.expiresAt.toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Verify an ed25519 signature made by a base58 Solana public key
+ */
+export function verifyWalletSignature(publicKey: string, message: string, signature: Uint8Array): boolean {
+  try {
+    const publicKeyBytes = bs58.decode(publicKey);
+    if (publicKeyBytes.length !== 32 || signature.length !== 64) return false;
+
+    const key = createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKeyBytes).toString("base64url") },
+      format: "jwk",
+    });
+    return verify(null, Buffer.from(message, "utf8"), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Issue a one-time nonce for `publicKey` and the message the wallet must sign
+ */
+export async function issueSignInNonce(publicKey: string, domain: string) {
+  const nonce = nanoid(24);
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+  const message = createSignInMessage({ domain, publicKey, nonce, issuedAt, expiresAt });
+
+  try {
+    await db.storeAuthNonce({ nonce, publicKey, message, expiresAt });
+  } catch (error) {
+    console.warn("[Auth] Database unavailable, keeping nonce in memory");
+    const now = Date.now();
+    memoryNonces.forEach((n, key) => {
+      if (n.expiresAt.getTime() < now) memoryNonces.delete(key);
+    });
+    memoryNonces.set(nonce, { nonce, publicKey, message, expiresAt });
+  }
+
+  return { nonce, message, expiresAt };
+}
+
+// Atomically claim an unexpired, unused nonce issued to this wallet
+async function consumeNonce(nonce: string, publicKey: string): Promise<{ message: string } | null> {
+  const cached = memoryNonces.get(nonce);
+  if (cached) {
+    if (cached.used || cached.publicKey !== publicKey || cached.expiresAt.getTime() < Date.now()) {
+      return null;
+    }
+    cached.used = true;
+    return cached;
+  }
+
+  return await db.consumeAuthNonce(nonce, publicKey);
+}
+
+/**
+ * Check a signed sign-in message. Each nonce can be used once, so a captured
+ * signature can't be replayed.
+ */
+export async function verifySignIn(publicKey: string, nonce: string, signature: Uint8Array): Promise<boolean> {
+  const issued = await consumeNonce(nonce, publicKey);
+  if (!issued) return false;
+  return verifyWalletSignature(publicKey, issued.message, signature);
+}
+
+function getSessionSecret(): Uint8Array {
+  if (!ENV.cookieSecret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return new TextEncoder().encode(ENV.cookieSecret);
+}
+
+export async function createSessionToken(publicKey: string): Promise<string> {
+  return await new SignJWT({})
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(publicKey)
+    .setIssuer(SESSION_ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(new Date(Date.now() + SESSION_TTL_MS))
+    .sign(getSessionSecret());
+}
+
+/**
+ * Resolve a session token to its wallet (null if missing, invalid or expired)
+ */
+export async function verifySessionToken(token: string | undefined | null): Promise<WalletSession | null> {
+  if (!token || !ENV.cookieSecret) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, getSessionSecret(), {
+      issuer: SESSION_ISSUER,
+      algorithms: ["HS256"],
+    });
+    return payload.sub ? { publicKey: payload.sub } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Wallet Notifications - messages for a wallet's owner
+ *
+ * A notification is delivered through every enabled channel
+ * (NOTIFICATION_CHANNELS, comma separated; defaults to `in-app`). Built in:
+ *   in-app   stored in `wallet_notifications`, read through `notifications.list`
+ *   webhook  sent to back-office webhook endpoints as `wallet.notification`,
+ *            e.g. to relay it by email or chat
+ * Other channels can be added with registerNotificationChannel.
+ *
+ * Notifying never throws: a channel that fails is logged and skipped, so a
+ * notification never fails the work that raised it.
+ */
+
+import type { WalletNotification } from "../../drizzle/schema";
+import * as db from "../db";
+import { ENV } from "./env";
+import { emitWebhookEvent } from "./webhooks";
+
+export type WalletNotificationType =
+  | "schedule.run_created" // A scheduled transfer was created and awaits its deposit
+  | "schedule.run_failed"
+  | "schedule.paused" // Paused after too many failed runs in a row
+  | "alert.triggered" // A rate alert's route reached its target
+  | "alert.expired";
+
+export type WalletNotificationInput = {
+  type: WalletNotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+};
+
+export interface NotificationChannel {
+  id: string;
+  deliver(walletId: number, notification: WalletNotificationInput): Promise<void>;
+}
+
+const channels = new Map<string, NotificationChannel>();
+
+/**
+ * Register a channel (later registrations replace earlier ones)
+ */
+export function registerNotificationChannel(channel: NotificationChannel) {
+  channels.set(channel.id, channel);
+}
+
+registerNotificationChannel({
+  id: "in-app",
+  async deliver(walletId, notification) {
+    await db.createWalletNotification({
+      walletId,
+      type: notification.type,
+      title: notification.title.slice(0, 255),
+      body: notification.body,
+      data: notification.data ? JSON.stringify(notification.data) : null,
+    });
+  },
+});
+
+registerNotificationChannel({
+  id: "webhook",
+  async deliver(walletId, notification) {
+    const wallet = await db.getWalletById(walletId);
+    await emitWebhookEvent("wallet.notification", {
+      wallet: wallet?.publicKey ?? null,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      ...(notification.data ? { details: notification.data } : {}),
+    });
+  },
+});
+
+/**
+ * Ids of the channels notifications go out on
+ */
+export function getEnabledChannelIds(): string[] {
+  const configured = ENV.notificationChannels
+    .split(",")
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? Array.from(new Set(configured)) : ["in-app"];
+}
+
+/**
+ * Deliver on every enabled channel. True if at least one channel delivered.
+ */
+export async function notifyWallet(walletId: number, notification: WalletNotificationInput): Promise<boolean> {
+  let delivered = false;
+
+  for (const id of getEnabledChannelIds()) {
+    const channel = channels.get(id);
+    if (!channel) {
+      console.warn(`[Notifications] Unknown notification channel "${id}"`);
+      continue;
+    }
+    try {
+      await channel.deliver(walletId, notification);
+      delivered = true;
+    } catch (error) {
+      console.warn(`[Notifications] ${id} failed to notify wallet ${walletId} (${notification.type}):`, error);
+    }
+  }
+
+  return delivered;
+}
+
+/**
+ * Client view of a stored notification (data parsed back to an object)
+ */
+export function toNotificationView(notification: WalletNotification) {
+  let data: Record<string, unknown> | null = null;
+  try {
+    data = notification.data ? JSON.parse(notification.data) : null;
+  } catch {
+    data = null;
+  }
+
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    data,
+    isRead: notification.readAt !== null,
+    createdAt: notification.createdAt,
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Outbound Webhooks - Signed lifecycle events for back-office integrations
+ *
+ * Events are written to `webhook_deliveries` (one row per subscribed
+ * endpoint) and delivered by a background dispatcher. Only the instance
+ * holding the `webhook-dispatcher` lease sends, and each delivery is claimed
+ * before it is attempted. Failed deliveries are retried with exponential
+ * backoff and end up `dead` once retries are exhausted; dead deliveries can be
+ * replayed.
+ *
+ * Each request carries:
+ *   X-Webhook-Id         event ID (stable across retries - use it to dedupe)
+ *   X-Webhook-Event      event type
+ *   X-Webhook-Signature  t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { hostname } from "os";
+import { nanoid } from "nanoid";
+import * as db from "../db";
+import type { WebhookEndpoint } from "../../drizzle/schema";
+import { ENV } from "./env";
+
+export const WEBHOOK_EVENTS = [
+  "transfer.created",
+  "deposit.detected",
+  "transfer.finished",
+  "transfer.refunded",
+  "transfer.expired",
+  "wallet.notification",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+const DISPATCHER_LEASE = "webhook-dispatcher";
+const DISPATCH_INTERVAL_MS = 10 * 1000;
+const LEASE_TTL_MS = 60 * 1000;
+const DISPATCH_BATCH_SIZE = 20;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const CLAIM_TTL_MS = 2 * 60 * 1000; // Delivery is retried if this instance dies mid-attempt
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const MIN_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const instanceId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+let dispatcherTimer: ReturnType<typeof setInterval> | null = null;
+let dispatching = false;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Signature header value for a body sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header against the raw request body - what a receiver runs.
+ * Rejects signatures outside the replay tolerance window.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map(part => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split("v1=")[1]!, "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Delay before retry number `attempts` (1-based): doubles up to the cap
+ */
+export function retryDelay(attempts: number): number {
+  const exponent = Math.min(Math.max(attempts - 1, 0), 16);
+  return Math.min(MIN_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+function isSubscribed(endpoint: WebhookEndpoint, type: WebhookEventType): boolean {
+  const events = endpoint.events.split(",").map(e => e.trim());
+  return events.includes("*") || events.includes(type);
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to it.
+ * Never throws - webhook problems must not break the transfer flow.
+ */
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, unknown>) {
+  try {
+    const endpoints = (await db.getWebhookEndpoints(true)).filter(e => isSubscribed(e, type));
+    if (endpoints.length === 0) return;
+
+    const event: WebhookEvent = {
+      id: `evt_${nanoid(20)}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    const payload = JSON.stringify(event);
+    await db.enqueueWebhookDeliveries(
+      endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        eventId: event.id,
+        eventType: type,
+        payload,
+      }))
+    );
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${type}:`, error);
+  }
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * POST one signed event to an endpoint. 2xx responses count as delivered.
+ */
+export async function sendWebhook(
+  endpoint: Pick<WebhookEndpoint, "url" | "secret">,
+  delivery: { eventId: string; eventType: string; payload: string }
+): Promise<DeliveryResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "INVSOL-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.eventType,
+        "X-Webhook-Signature": signWebhookPayload(endpoint.secret, delivery.payload, timestamp),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (response.ok) return { ok: true, status: response.status };
+    return { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+type DueDelivery = Awaited<ReturnType<typeof db.getDueWebhookDeliveries>>[number];
+
+async function attemptDelivery(delivery: DueDelivery, endpoints: Map<number, WebhookEndpoint>) {
+  const claimed = await db.claimWebhookDelivery(delivery.id, new Date(Date.now() + CLAIM_TTL_MS));
+  if (!claimed) return;
+
+  const endpoint = endpoints.get(delivery.endpointId);
+  const attempts = delivery.attempts + 1;
+  const result: DeliveryResult = endpoint
+    ? await sendWebhook(endpoint, delivery)
+    : { ok: false, error: "Endpoint disabled or removed" };
+
+  if (result.ok) {
+    await db.recordWebhookAttempt(delivery.id, {
+      status: "delivered",
+      attempts,
+      lastResponseStatus: result.status ?? null,
+      lastError: null,
+      deliveredAt: new Date(),
+    });
+    return;
+  }
+
+  const dead = attempts >= MAX_DELIVERY_ATTEMPTS || !endpoint;
+  await db.recordWebhookAttempt(delivery.id, {
+    status: dead ? "dead" : "pending",
+    attempts,
+    nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+    lastResponseStatus: result.status ?? null,
+    lastError: result.error ?? null,
+  });
+  console.warn(`[Webhooks] Delivery ${delivery.id} (${delivery.eventType}) failed: ${result.error}` +
+    (dead ? " - moved to dead letters" : ""));
+}
+
+/**
+ * Run one dispatch pass if this instance holds the dispatcher lease
+ */
+export async function dispatchDueWebhooks() {
+  if (dispatching) return;
+  dispatching = true;
+
+  try {
+    const isLeader = await db.acquireWorkerLease(DISPATCHER_LEASE, instanceId, LEASE_TTL_MS);
+    if (!isLeader) return;
+
+    const due = await db.getDueWebhookDeliveries(DISPATCH_BATCH_SIZE);
+    if (due.length === 0) return;
+
+    const endpoints = new Map((await db.getWebhookEndpoints(true)).map(e => [e.id, e]));
+    for (const delivery of due) {
+      try {
+        await attemptDelivery(delivery, endpoints);
+      } catch (error) {
+        console.error(`[Webhooks] Failed to process delivery ${delivery.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Webhooks] Dispatch pass failed:", error);
+  } finally {
+    dispatching = false;
+  }
+}
+
+/**
+ * Replay deliveries: specific ones (any status), or every dead letter of an
+ * endpoint (or of all endpoints). Returns the number requeued.
+ */
+export async function replayWebhookDeliveries(filter: { deliveryIds?: number[]; endpointId?: number }) {
+  if (filter.deliveryIds) {
+    return db.requeueWebhookDeliveries({ ids: filter.deliveryIds, endpointId: filter.endpointId });
+  }
+  return db.requeueWebhookDeliveries({ endpointId: filter.endpointId, status: "dead" });
+}
+
+/**
+ * Start the background dispatcher
+ */
+export function startWebhookDispatcher() {
+  if (dispatcherTimer || !ENV.databaseUrl) return;
+
+  dispatcherTimer = setInterval(() => {
+    void dispatchDueWebhooks();
+  }, DISPATCH_INTERVAL_MS);
+  dispatcherTimer.unref?.();
+  console.log(`[Webhooks] Dispatcher started (instance ${instanceId})`);
+}
+
+export async function stopWebhookDispatcher() {
+  if (!dispatcherTimer) return;
+  clearInterval(dispatcherTimer);
+  dispatcherTimer = null;
+  try {
+    await db.releaseWorkerLease(DISPATCHER_LEASE, instanceId);
+  } catch (error) {
+    console.warn("[Webhooks] Failed to release dispatcher lease:", error);
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { validateAddressBookEntry } from "./_core/addressBook";
+
+describe("Address Book Entries", () => {
+  it("should normalize a valid entry", () => {
+    const { entry, error } = validateAddressBookEntry({
+      currency: "USDC",
+      network: "ETH",
+      address: " 0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed ",
+      extraId: "",
+    });
+
+    expect(error).toBeNull();
+    expect(entry).toEqual({
+      currency: "usdc",
+      network: "eth",
+      address: "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+      extraId: null,
+    });
+  });
+
+  it("should reject an address that fails the network's checksum", () => {
+    const { entry, error } = validateAddressBookEntry({
+      currency: "btc",
+      network: "btc",
+      address: "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3",
+    });
+
+    expect(entry).toBeNull();
+    expect(error).toContain("Bitcoin");
+  });
+
+  it("should reject unsupported networks and invalid tags", () => {
+    expect(
+      validateAddressBookEntry({ currency: "btc", network: "eth", address: "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed" }).error
+    ).toContain("not a supported network");
+    expect(
+      validateAddressBookEntry({
+        currency: "xrp",
+        network: "xrp",
+        address: "rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh",
+        extraId: "not-a-tag",
+      }).error
+    ).toContain("destination tag");
+  });
+});
@@ -0,0 +1,61 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import {
+  isValidBitcoinChecksum,
+  isValidEvmChecksum,
+  isValidSolanaKey,
+  isValidTronChecksum,
+  isValidXrpChecksum,
+  keccak256,
+} from "./_core/addressValidation";
+import { isValidAddress } from "./_core/currencies";
+
+describe("Offline Address Validation", () => {
+  it("should compute Keccak-256", () => {
+    expect(Buffer.from(keccak256(new Uint8Array())).toString("hex")).toBe(
+      "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470"
+    );
+  });
+
+  it("should check EIP-55 checksums", () => {
+    expect(isValidEvmChecksum("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed")).toBe(true);
+    expect(isValidEvmChecksum("0x52908400098527886E0F7030069857D2E4169EE7")).toBe(true);
+    // Single-case addresses carry no checksum
+    expect(isValidEvmChecksum("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed")).toBe(true);
+    // One letter with the wrong case
+    expect(isValidEvmChecksum("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD")).toBe(false);
+  });
+
+  it("should check base58check and bech32 / bech32m Bitcoin addresses", () => {
+    expect(isValidBitcoinChecksum("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2")).toBe(true);
+    expect(isValidBitcoinChecksum("3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy")).toBe(true);
+    expect(isValidBitcoinChecksum("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4")).toBe(true);
+    expect(isValidBitcoinChecksum("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0")).toBe(true);
+
+    expect(isValidBitcoinChecksum("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3")).toBe(false);
+    expect(isValidBitcoinChecksum("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5")).toBe(false);
+    // Taproot program encoded with bech32 instead of bech32m
+    expect(isValidBitcoinChecksum("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpwx4ku8")).toBe(false);
+  });
+
+  it("should check XRP and Tron checksums", () => {
+    expect(isValidXrpChecksum("rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh")).toBe(true);
+    expect(isValidXrpChecksum("rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTi")).toBe(false);
+    expect(isValidTronChecksum("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t")).toBe(true);
+    expect(isValidTronChecksum("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u")).toBe(false);
+  });
+
+  it("should only accept on-curve Solana keys", () => {
+    const wallet = Keypair.generate().publicKey;
+    const [pda] = PublicKey.findProgramAddressSync([Buffer.from("vault")], wallet);
+
+    expect(isValidSolanaKey(wallet.toBase58())).toBe(true);
+    expect(isValidSolanaKey(pda.toBase58())).toBe(false);
+  });
+
+  it("should gate isValidAddress on the checksum", () => {
+    expect(isValidAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed", "eth")).toBe(true);
+    expect(isValidAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD", "eth")).toBe(false);
+    expect(isValidAddress("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3", "btc")).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from "@shared/const";
+import { isAdminWallet } from "./_core/admin";
+import type { TrpcContext } from "./_core/context";
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+
+const ADMIN = "84yqsEThuG5fphbhXBpXNMmDvZ6xc7BjFX8VZRyii2eZ";
+const USER = "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK";
+
+function createContext(walletPublicKey?: string): TrpcContext {
+  return {
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {}, cookie: () => {} } as unknown as TrpcContext["res"],
+    wallet: walletPublicKey ? { publicKey: walletPublicKey } : null,
+  };
+}
+
+describe("Admin Access", () => {
+  const originalAdmins = ENV.adminWallets;
+
+  beforeAll(() => {
+    ENV.adminWallets = ` ${ADMIN} , `;
+  });
+
+  afterAll(() => {
+    ENV.adminWallets = originalAdmins;
+  });
+
+  it("should match wallets on the allow-list only", () => {
+    expect(isAdminWallet(ADMIN)).toBe(true);
+    expect(isAdminWallet(USER)).toBe(false);
+    expect(isAdminWallet(null)).toBe(false);
+  });
+
+  it("should reject signed-out and non-admin callers", async () => {
+    await expect(appRouter.createCaller(createContext()).admin.queueHealth()).rejects.toThrow(UNAUTHED_ERR_MSG);
+    await expect(appRouter.createCaller(createContext(USER)).admin.queueHealth()).rejects.toThrow(NOT_ADMIN_ERR_MSG);
+  });
+
+  it("should serve admin procedures to admins", async () => {
+    const caller = appRouter.createCaller(createContext(ADMIN));
+
+    const health = await caller.admin.queueHealth();
+    expect(health.queueLength).toBe(0);
+    expect(health.failed).toBe(0);
+    expect(await caller.admin.me()).toEqual({ isAdmin: true });
+  });
+
+  it("should validate global history filters", async () => {
+    const caller = appRouter.createCaller(createContext(ADMIN));
+
+    await expect(caller.admin.history({ limit: 500 })).rejects.toThrow();
+    // No database in tests - an empty first page
+    expect(await caller.admin.history()).toEqual({ items: [], nextCursor: null });
+  });
+});
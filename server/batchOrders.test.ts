@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Transaction } from "../drizzle/schema";
+import { aggregateBatchStatus, parseBatchCsv, toBatchSummary, validateBatchLeg } from "./_core/batchOrders";
+import type { TrpcContext } from "./_core/context";
+import { appRouter } from "./routers";
+
+// One stored batch instead of a database
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getTransactionsByBatchId: async (batchId: string) =>
+    batchId === "NB-TEST"
+      ? [
+          {
+            txSignature: "NR-ABCD1234",
+            batchId: "NB-TEST",
+            batchToken: "batch-secret",
+            status: "waiting",
+            amount: "1.5",
+            quotedReceiveAmount: "0.07",
+            payinAddress: "PayinAddress",
+            recipientPublicKey: "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+          },
+        ]
+      : [],
+}));
+
+const EVM_ADDRESS = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const BTC_ADDRESS = "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2";
+
+describe("Batch CSV", () => {
+  it("should read positional rows", () => {
+    const { legs, errors } = parseBatchCsv(`${EVM_ADDRESS},usdc,eth,1.5\n${BTC_ADDRESS},btc,,2\n`);
+
+    expect(errors).toEqual([]);
+    expect(legs).toEqual([
+      { recipientAddress: EVM_ADDRESS, toCurrency: "usdc", toNetwork: "eth", amount: "1.5", extraId: null },
+      { recipientAddress: BTC_ADDRESS, toCurrency: "btc", toNetwork: null, amount: "2", extraId: null },
+    ]);
+  });
+
+  it("should map columns from a header row", () => {
+    const { legs } = parseBatchCsv(`Amount,Currency,Recipient,Destination Tag\r\n"1,000",xrp,rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh,42`);
+
+    expect(legs).toEqual([
+      {
+        recipientAddress: "rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh",
+        toCurrency: "xrp",
+        toNetwork: null,
+        amount: "1,000",
+        extraId: "42",
+      },
+    ]);
+  });
+
+  it("should report incomplete rows by line number", () => {
+    const { legs, errors } = parseBatchCsv(`${EVM_ADDRESS},usdc,eth,1\n\n${EVM_ADDRESS},usdc,eth\n`);
+
+    expect(legs).toHaveLength(1);
+    expect(errors).toEqual([{ line: 3, message: "Missing recipient, currency or amount" }]);
+  });
+});
+
+describe("Batch Legs", () => {
+  const source = { currency: "sol", network: "sol" };
+
+  it("should default a swap leg to the target's default network", () => {
+    const { leg } = validateBatchLeg({ recipientAddress: BTC_ADDRESS, toCurrency: "BTC", amount: "0.5" }, source);
+
+    expect(leg).toEqual({ recipientAddress: BTC_ADDRESS, toCurrency: "btc", toNetwork: "btc", amount: 0.5, extraId: null });
+  });
+
+  it("should reject invalid recipients and amounts", () => {
+    expect(validateBatchLeg({ recipientAddress: BTC_ADDRESS, toCurrency: "usdc", toNetwork: "eth", amount: "1" }, source).error).toContain(
+      "Invalid address"
+    );
+    expect(validateBatchLeg({ recipientAddress: BTC_ADDRESS, toCurrency: "btc", amount: "1,000" }, source).error).toBe("Invalid amount");
+  });
+
+  it("should aggregate leg statuses", () => {
+    expect(aggregateBatchStatus(["pending", "waiting"])).toBe("awaiting_deposit");
+    expect(aggregateBatchStatus(["finished", "exchanging"])).toBe("processing");
+    expect(aggregateBatchStatus(["finished", "finished"])).toBe("finished");
+    expect(aggregateBatchStatus(["finished", "refunded"])).toBe("partially_finished");
+    expect(aggregateBatchStatus(["expired", "failed"])).toBe("failed");
+  });
+
+  it("should not expose receipt tokens in the public summary", () => {
+    const leg = {
+      txSignature: "NR-ABCD1234",
+      receiptToken: "secret-token",
+      status: "waiting",
+      amount: "1.5",
+      quotedReceiveAmount: "0.07",
+    } as Transaction;
+
+    const summary = toBatchSummary("NB-TEST", [leg]);
+
+    expect(summary.legs[0]).toMatchObject({ reference: "NR-ABCD1234", amount: 1.5 });
+    expect(JSON.stringify(summary)).not.toContain("secret-token");
+  });
+});
+
+describe("Batch Access", () => {
+  const caller = appRouter.createCaller({
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {}, cookie: () => {} } as unknown as TrpcContext["res"],
+    wallet: null,
+  });
+
+  it("should hide a batch without its token", async () => {
+    await expect(caller.transaction.getBatch({ batchId: "NB-TEST" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.transaction.getBatch({ batchId: "NB-TEST", token: "wrong-secret" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("should show a batch with its token", async () => {
+    const summary = await caller.transaction.getBatch({ batchId: "NB-TEST", token: "batch-secret" });
+
+    expect(summary).toMatchObject({ batchId: "NB-TEST", status: "awaiting_deposit", totalDeposit: 1.5 });
+    expect(summary.legs[0]).toMatchObject({ reference: "NR-ABCD1234", payinAddress: "PayinAddress" });
+    expect(JSON.stringify(summary)).not.toContain("batch-secret");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { getNetwork, isValidExtraId, resolveToNetwork } from "./_core/currencies";
+
+describe("Extra IDs (memo / tag)", () => {
+  it("should describe which networks take a memo or tag", () => {
+    expect(getNetwork("xrp", "xrp")?.extraId).toMatchObject({ label: "Destination tag", required: false });
+    expect(getNetwork("sol", "sol")?.extraId).toBeUndefined();
+  });
+
+  it("should accept XRP destination tags in the 32-bit range", () => {
+    expect(isValidExtraId("0", "xrp")).toBe(true);
+    expect(isValidExtraId(" 123456 ", "xrp")).toBe(true);
+    expect(isValidExtraId("4294967295", "xrp")).toBe(true);
+    expect(isValidExtraId("4294967296", "xrp")).toBe(false);
+    expect(isValidExtraId("12ab", "xrp")).toBe(false);
+    expect(isValidExtraId("", "xrp")).toBe(false);
+  });
+
+  it("should reject an extra ID on networks without one", () => {
+    expect(isValidExtraId("123", "sol")).toBe(false);
+    expect(isValidExtraId("123", "eth")).toBe(false);
+  });
+});
+
+describe("Destination Network Defaults", () => {
+  const source = { currency: "sol", network: "sol" };
+
+  it("should keep an explicit network", () => {
+    expect(resolveToNetwork("usdc", " Arbitrum ", source)).toBe("arbitrum");
+  });
+
+  it("should stay on the source network for same-currency routes", () => {
+    expect(resolveToNetwork("usdc", null, { currency: "usdc", network: "bsc" })).toBe("bsc");
+  });
+
+  it("should pay out swaps on the target currency's default network", () => {
+    expect(resolveToNetwork("usdc", undefined, source)).toBe("eth");
+    expect(resolveToNetwork("BTC", "", source)).toBe("btc");
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { CurrencyCatalogEntry } from "../drizzle/schema";
+import { getCurrency, setActiveCurrencies, SUPPORTED_CURRENCIES } from "./_core/currencies";
+import { toCatalogEntries, toCurrencyConfigs } from "./_core/currencyCatalog";
+
+const syncedAt = new Date("2026-01-01T00:00:00Z");
+
+function catalogRow(overrides: Partial<CurrencyCatalogEntry>): CurrencyCatalogEntry {
+  return {
+    id: 1,
+    ticker: "sol",
+    network: "sol",
+    provider: "changenow",
+    name: "Solana",
+    networkName: null,
+    providerImage: null,
+    icon: null,
+    decimals: null,
+    hasExtraId: 0,
+    isEnabled: 1,
+    displayOrder: 0,
+    lastSyncedAt: syncedAt,
+    createdAt: syncedAt,
+    updatedAt: syncedAt,
+    ...overrides,
+  };
+}
+
+describe("Currency Catalog Sync", () => {
+  it("should seed built-in currencies enabled and the rest disabled", () => {
+    const entries = toCatalogEntries(
+      [
+        { ticker: "SOL", name: "Solana", network: "SOL", image: "https://img/sol.svg" },
+        { ticker: "doge", name: "Dogecoin", network: "doge" },
+        { ticker: "doge", name: "Dogecoin", network: "doge" }, // Duplicate from the provider
+      ],
+      "changenow",
+      syncedAt
+    );
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ ticker: "sol", network: "sol", isEnabled: 1, displayOrder: 0, decimals: 9 });
+    expect(entries[1]).toMatchObject({ ticker: "doge", isEnabled: 0, displayOrder: 1000, decimals: null });
+  });
+
+  it("should group enabled rows into currencies with their networks", () => {
+    const currencies = toCurrencyConfigs([
+      catalogRow({ ticker: "usdt", network: "trx", name: "Tether", displayOrder: 1 }),
+      catalogRow({ ticker: "usdt", network: "eth", name: "Tether", displayOrder: 2 }),
+      catalogRow({ ticker: "ton", network: "ton", name: "Toncoin", hasExtraId: 1, providerImage: "https://img/ton.svg", displayOrder: 3 }),
+    ]);
+
+    expect(currencies.map(c => c.ticker)).toEqual(["usdt", "ton"]);
+    // Built-in metadata wins where it exists
+    expect(currencies[0]).toMatchObject({ symbol: "USDT", defaultNetwork: "eth", decimals: 6 });
+    expect(currencies[0]!.networks.map(n => n.name)).toEqual(["Tron (TRC20)", "Ethereum (ERC20)"]);
+    expect(currencies[1]).toMatchObject({ symbol: "TON", decimals: 8, icon: "https://img/ton.svg" });
+    expect(currencies[1]!.networks[0]!.extraId).toMatchObject({ required: false });
+  });
+});
+
+describe("Active Currency List", () => {
+  afterEach(() => {
+    setActiveCurrencies([]);
+  });
+
+  it("should serve the catalog and fall back to the built-in list", () => {
+    setActiveCurrencies(toCurrencyConfigs([catalogRow({ ticker: "ton", network: "ton", name: "Toncoin" })]));
+    expect(getCurrency("ton")?.name).toBe("Toncoin");
+    expect(getCurrency("sol")).toBeUndefined();
+
+    setActiveCurrencies([]);
+    expect(getCurrency("sol")).toBe(SUPPORTED_CURRENCIES[0]);
+  });
+});
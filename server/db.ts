@@ -1,8 +1,14 @@
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, count, gt, gte, ilike, lt, lte, isNull, isNotNull, inArray, ne, or, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { wallets, transactions, transactionRouting, InsertWallet, InsertTransaction, InsertTransactionRouting } from "../drizzle/schema";
+import { wallets, authNonces, transactions, transactionStatusHistory, transactionRouting, exchangeQuotes, workerLeases, providerCallbacks, webhookEndpoints, webhookDeliveries, adminAuditLog, currencyCatalog, addressBook, transferSchedules, transferScheduleRuns, walletNotifications, rateAlerts, InsertWallet, InsertAuthNonce, InsertTransaction, InsertTransactionRouting, InsertExchangeQuote, InsertWebhookEndpoint, InsertWebhookDelivery, InsertAdminAuditEntry, InsertCurrencyCatalogEntry, InsertAddressBookEntry, InsertTransferSchedule, InsertTransferScheduleRun, InsertWalletNotification, InsertRateAlert } from "../drizzle/schema";
 import * as schema from "../drizzle/schema";
+import {
+  canTransition,
+  InvalidStatusTransitionError,
+  type StatusSource,
+  type TransactionStatus,
+} from "./_core/transactionStatus";
 
 let _db: ReturnType<typeof drizzle<typeof schema>> | null = null;
 let _sql: ReturnType<typeof postgres> | null = null;
@@ -85,6 +91,14 @@ export async function upsertWallet(publicKey: string): Promise<number> {
   }
 }
 
+export async function getWalletById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(wallets).where(eq(wallets.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function getWalletByPublicKey(publicKey: string) {
   const db = await getDb();
   if (!db) return undefined;
@@ -105,32 +119,130 @@ export async function getWalletsByPublicKeys(publicKeys: string[]) {
   return results.filter(r => r.length > 0).map(r => r[0]!);
 }
 
-// Transaction operations
-export async function createTransaction(tx: InsertTransaction) {
+// Auth nonce operations
+export async function storeAuthNonce(nonce: InsertAuthNonce) {
   const db = await getDb();
   if (!db) {
     throw new Error("Database not available");
   }
 
-  const result = await db.insert(transactions).values(tx).returning({ id: transactions.id });
-  
-  // PostgreSQL returns the inserted row with returning()
-  if (!result || result.length === 0) {
-    throw new Error("Failed to get insert ID from database - insert may have failed");
+  await db.insert(authNonces).values(nonce);
+}
+
+// Claims a nonce for a single sign-in; returns null if expired, used or issued to another wallet
+export async function consumeAuthNonce(nonce: string, publicKey: string) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(authNonces)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(authNonces.nonce, nonce),
+        eq(authNonces.publicKey, publicKey),
+        isNull(authNonces.usedAt),
+        gt(authNonces.expiresAt, new Date())
+      )
+    )
+    .returning();
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// Transaction operations
+export async function createTransaction(tx: InsertTransaction, source: StatusSource) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
   }
-  return result[0].id;
+
+  return await db.transaction(async (trx) => {
+    const result = await trx.insert(transactions).values(tx).returning({
+      id: transactions.id,
+      status: transactions.status,
+    });
+
+    // PostgreSQL returns the inserted row with returning()
+    if (!result || result.length === 0) {
+      throw new Error("Failed to get insert ID from database - insert may have failed");
+    }
+
+    await trx.insert(transactionStatusHistory).values({
+      txSignature: tx.txSignature,
+      fromStatus: null,
+      toStatus: result[0].status,
+      source,
+    });
+    return result[0].id;
+  });
 }
 
-export async function getTransactionsByWalletId(walletId: number) {
+// Legs of a batch order, in the order they were created
+export async function getTransactionsByBatchId(batchId: string) {
   const db = await getDb();
   if (!db) return [];
 
   return await db
     .select()
     .from(transactions)
-    .where(eq(transactions.walletId, walletId))
-    .orderBy(desc(transactions.createdAt))
-    .limit(50);
+    .where(eq(transactions.batchId, batchId))
+    .orderBy(transactions.id);
+}
+
+export type TransactionHistoryFilter = {
+  walletId?: number; // Omit for every wallet (admin)
+  status?: TransactionStatus[];
+  type?: "shield" | "transfer" | "unshield";
+  currency?: string; // Matches either side of a transfer
+  network?: string;
+  from?: Date;
+  to?: Date;
+  sort: "newest" | "oldest";
+  cursor?: number; // ID of the last row of the previous page
+  limit: number;
+};
+
+/**
+ * One page of transactions. Pages are keyed on the row ID (IDs follow
+ * creation order), so rows inserted while paging don't shift later pages.
+ */
+export async function getTransactionHistory(filter: TransactionHistoryFilter) {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null };
+
+  const newestFirst = filter.sort === "newest";
+  const currency = filter.currency?.toLowerCase();
+  const network = filter.network?.toLowerCase();
+
+  const rows = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        filter.walletId !== undefined ? eq(transactions.walletId, filter.walletId) : undefined,
+        filter.status?.length ? inArray(transactions.status, filter.status) : undefined,
+        filter.type ? eq(transactions.type, filter.type) : undefined,
+        currency ? or(eq(transactions.fromCurrency, currency), eq(transactions.toCurrency, currency)) : undefined,
+        network ? or(eq(transactions.fromNetwork, network), eq(transactions.toNetwork, network)) : undefined,
+        filter.from ? gte(transactions.createdAt, filter.from) : undefined,
+        filter.to ? lt(transactions.createdAt, filter.to) : undefined,
+        filter.cursor !== undefined
+          ? newestFirst
+            ? lt(transactions.id, filter.cursor)
+            : gt(transactions.id, filter.cursor)
+          : undefined
+      )
+    )
+    .orderBy(newestFirst ? desc(transactions.id) : transactions.id)
+    .limit(filter.limit + 1);
+
+  // The extra row only tells us whether another page exists
+  const items = rows.slice(0, filter.limit);
+  const nextCursor = rows.length > filter.limit ? items[items.length - 1]!.id : null;
+  return { items, nextCursor };
 }
 
 export async function getTransactionBySignature(txSignature: string) {
@@ -146,10 +258,61 @@ export async function getTransactionBySignature(txSignature: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+/**
+ * Move a transaction to a new status and record the change in
+ * transaction_status_history. Returns false if the transaction is unknown or
+ * already in that status; throws InvalidStatusTransitionError if the state
+ * machine doesn't allow the change.
+ */
 export async function updateTransactionStatus(
   txSignature: string,
-  status: "pending" | "confirmed" | "failed",
-  errorMessage?: string
+  status: TransactionStatus,
+  options: { source: StatusSource; errorMessage?: string; detail?: string }
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  return await db.transaction(async (trx) => {
+    // Lock the row so concurrent updates are validated against the latest status
+    const current = await trx
+      .select({ status: transactions.status })
+      .from(transactions)
+      .where(eq(transactions.txSignature, txSignature))
+      .limit(1)
+      .for("update");
+
+    const fromStatus = current[0]?.status;
+    if (!fromStatus || fromStatus === status) return false;
+    if (!canTransition(fromStatus, status)) {
+      throw new InvalidStatusTransitionError(fromStatus, status);
+    }
+
+    await trx
+      .update(transactions)
+      .set({
+        status,
+        errorMessage: options.errorMessage || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(transactions.txSignature, txSignature));
+
+    await trx.insert(transactionStatusHistory).values({
+      txSignature,
+      fromStatus,
+      toStatus: status,
+      source: options.source,
+      detail: options.detail ?? options.errorMessage ?? null,
+    });
+    return true;
+  });
+}
+
+// Hashes and amounts learned from the provider after the transfer was created
+export async function updateTransactionRouteDetails(
+  txSignature: string,
+  details: Pick<InsertTransaction, "payinHash" | "payoutHash" | "refundHash" | "refundAmount" | "receivedAmount">
 ) {
   const db = await getDb();
   if (!db) {
@@ -158,14 +321,21 @@ export async function updateTransactionStatus(
 
   await db
     .update(transactions)
-    .set({
-      status,
-      errorMessage: errorMessage || null,
-      updatedAt: new Date(),
-    })
+    .set({ ...details, updatedAt: new Date() })
     .where(eq(transactions.txSignature, txSignature));
 }
 
+export async function getTransactionStatusHistory(txSignature: string) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(transactionStatusHistory)
+    .where(eq(transactionStatusHistory.txSignature, txSignature))
+    .orderBy(transactionStatusHistory.createdAt, transactionStatusHistory.id);
+}
+
 // Transaction routing operations
 export async function storeTransactionRouting(tx: InsertTransactionRouting) {
   const db = await getDb();
@@ -183,6 +353,7 @@ export async function storeTransactionRouting(tx: InsertTransactionRouting) {
         .update(transactionRouting)
         .set({
           routingTransactionId: tx.routingTransactionId,
+          provider: tx.provider,
           updatedAt: new Date(),
         })
         .where(eq(transactionRouting.txSignature, tx.txSignature));
@@ -210,3 +381,956 @@ export async function getRoutingTransactionId(txSignature: string): Promise<stri
   const routing = await getTransactionRouting(txSignature);
   return routing?.routingTransactionId || null;
 }
+
+// Routes in one of `statuses` whose next check is due. Failed routes are only
+// polled (for a refund) until `maxFailedCheckAttempts` checks found no change.
+export function routingDueCondition(statuses: readonly TransactionStatus[], maxFailedCheckAttempts: number, now: Date) {
+  return and(
+    inArray(transactions.status, [...statuses]),
+    or(ne(transactions.status, "failed"), lt(transactionRouting.checkAttempts, maxFailedCheckAttempts)),
+    isNull(transactions.resolvedAt),
+    lte(transactionRouting.nextCheckAt, now)
+  );
+}
+
+// Routes due for a check (see routingDueCondition), oldest first
+export async function getRoutingDueForCheck(
+  statuses: readonly TransactionStatus[],
+  maxFailedCheckAttempts: number,
+  limit: number
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      id: transactionRouting.id,
+      txSignature: transactionRouting.txSignature,
+      routingTransactionId: transactionRouting.routingTransactionId,
+      provider: transactionRouting.provider,
+      routingStatus: transactionRouting.routingStatus,
+      checkAttempts: transactionRouting.checkAttempts,
+      status: transactions.status,
+    })
+    .from(transactionRouting)
+    .innerJoin(transactions, eq(transactions.txSignature, transactionRouting.txSignature))
+    .where(routingDueCondition(statuses, maxFailedCheckAttempts, new Date()))
+    .orderBy(transactionRouting.nextCheckAt)
+    .limit(limit);
+}
+
+// Claims a due route by moving its next check forward; returns false if another
+// instance claimed it first (its next check is no longer due)
+export async function claimRoutingCheck(id: number, claimUntil: Date) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(transactionRouting)
+    .set({ nextCheckAt: claimUntil })
+    .where(and(eq(transactionRouting.id, id), lte(transactionRouting.nextCheckAt, new Date())))
+    .returning({ id: transactionRouting.id });
+
+  return result.length > 0;
+}
+
+export async function recordRoutingCheck(
+  id: number,
+  check: {
+    routingStatus?: string;
+    payinHash?: string;
+    payoutHash?: string;
+    checkAttempts: number;
+    nextCheckAt: Date;
+  }
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const now = new Date();
+  await db
+    .update(transactionRouting)
+    .set({
+      ...check,
+      lastCheckedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(transactionRouting.id, id));
+}
+
+export async function getTransactionRoutingByRoutingId(routingTransactionId: string) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(transactionRouting)
+    .where(eq(transactionRouting.routingTransactionId, routingTransactionId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// Exchange quote operations
+export async function storeExchangeQuotes(quotes: InsertExchangeQuote[]) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  if (quotes.length === 0) return;
+
+  await db.insert(exchangeQuotes).values(quotes);
+}
+
+export async function getExchangeQuote(quoteId: string) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(exchangeQuotes)
+    .where(eq(exchangeQuotes.id, quoteId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// Claims a quote for a single transfer; returns null if expired or already used
+export async function consumeExchangeQuote(quoteId: string) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(exchangeQuotes)
+    .set({ consumedAt: new Date() })
+    .where(
+      and(
+        eq(exchangeQuotes.id, quoteId),
+        isNull(exchangeQuotes.consumedAt),
+        gt(exchangeQuotes.expiresAt, new Date())
+      )
+    )
+    .returning();
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// Hands a claimed quote back, e.g. when the route it was claimed for couldn't be created
+export async function releaseExchangeQuote(quoteId: string) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(exchangeQuotes).set({ consumedAt: null }).where(eq(exchangeQuotes.id, quoteId));
+}
+
+// Worker lease operations
+
+// Acquires or renews a named lease; returns true if `holder` is now the leader
+export async function acquireWorkerLease(name: string, holder: string, ttlMs: number) {
+  const db = await getDb();
+  if (!db) return false;
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  const result = await db
+    .insert(workerLeases)
+    .values({ name, holder, expiresAt, updatedAt: now })
+    .onConflictDoUpdate({
+      target: workerLeases.name,
+      set: { holder, expiresAt, updatedAt: now },
+      // Take over only an expired lease, or renew our own
+      setWhere: or(eq(workerLeases.holder, holder), lt(workerLeases.expiresAt, now)),
+    })
+    .returning({ holder: workerLeases.holder });
+
+  return result.length > 0 && result[0]!.holder === holder;
+}
+
+export async function releaseWorkerLease(name: string, holder: string) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .delete(workerLeases)
+    .where(and(eq(workerLeases.name, name), eq(workerLeases.holder, holder)));
+}
+
+// Webhook operations
+export async function createWebhookEndpoint(endpoint: InsertWebhookEndpoint) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(webhookEndpoints).values(endpoint).returning();
+  return result[0]!;
+}
+
+export async function updateWebhookEndpoint(
+  id: number,
+  changes: Partial<Pick<InsertWebhookEndpoint, "url" | "events" | "description" | "isActive" | "secret">>
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(webhookEndpoints)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(webhookEndpoints.id, id))
+    .returning();
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function deleteWebhookEndpoint(id: number) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.delete(webhookDeliveries).where(eq(webhookDeliveries.endpointId, id));
+  await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+}
+
+export async function getWebhookEndpoints(activeOnly = false) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(webhookEndpoints)
+    .where(activeOnly ? eq(webhookEndpoints.isActive, 1) : undefined)
+    .orderBy(webhookEndpoints.id);
+}
+
+export async function getWebhookEndpoint(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function enqueueWebhookDeliveries(deliveries: InsertWebhookDelivery[]) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  if (deliveries.length === 0) return;
+
+  await db.insert(webhookDeliveries).values(deliveries);
+}
+
+// Pending deliveries whose next attempt is due, oldest first
+export async function getDueWebhookDeliveries(limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(limit);
+}
+
+// Claims a due delivery by moving its next attempt forward; false if already claimed
+export async function claimWebhookDelivery(id: number, claimUntil: Date) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: claimUntil })
+    .where(
+      and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      )
+    )
+    .returning({ id: webhookDeliveries.id });
+
+  return result.length > 0;
+}
+
+export async function recordWebhookAttempt(
+  id: number,
+  attempt: Pick<InsertWebhookDelivery, "status" | "attempts" | "nextAttemptAt" | "lastResponseStatus" | "lastError" | "deliveredAt">
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .update(webhookDeliveries)
+    .set({ ...attempt, updatedAt: new Date() })
+    .where(eq(webhookDeliveries.id, id));
+}
+
+export async function getWebhookDeliveries(filter: { endpointId?: number; status?: string; limit: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        filter.endpointId !== undefined ? eq(webhookDeliveries.endpointId, filter.endpointId) : undefined,
+        filter.status ? eq(webhookDeliveries.status, filter.status) : undefined
+      )
+    )
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(filter.limit);
+}
+
+// Puts deliveries back in the queue with a fresh retry budget
+export async function requeueWebhookDeliveries(filter: { ids?: number[]; endpointId?: number; status?: string }) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const now = new Date();
+  const result = await db
+    .update(webhookDeliveries)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: now, lastError: null, updatedAt: now })
+    .where(
+      and(
+        filter.status ? eq(webhookDeliveries.status, filter.status) : undefined,
+        filter.ids ? inArray(webhookDeliveries.id, filter.ids) : undefined,
+        filter.endpointId !== undefined ? eq(webhookDeliveries.endpointId, filter.endpointId) : undefined
+      )
+    )
+    .returning({ id: webhookDeliveries.id });
+
+  return result.length;
+}
+
+// Provider callback operations
+
+// Records a callback; returns false if the same callback was already recorded
+export async function recordProviderCallback(callback: {
+  provider: string;
+  callbackKey: string;
+  routingTransactionId: string;
+}) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .insert(providerCallbacks)
+    .values(callback)
+    .onConflictDoNothing({ target: providerCallbacks.callbackKey })
+    .returning({ id: providerCallbacks.id });
+
+  return result.length > 0;
+}
+
+// Forgets a callback so the provider's retry of it is processed
+export async function deleteProviderCallback(callbackKey: string) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(providerCallbacks).where(eq(providerCallbacks.callbackKey, callbackKey));
+}
+
+// Currency catalog operations
+
+const CATALOG_UPSERT_CHUNK = 200;
+
+// Inserts new currencies and refreshes the provider fields of known ones;
+// admin-curated fields (enabled, order, icon, decimals) are left alone
+export async function upsertCatalogCurrencies(entries: InsertCurrencyCatalogEntry[]) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  for (let i = 0; i < entries.length; i += CATALOG_UPSERT_CHUNK) {
+    await db
+      .insert(currencyCatalog)
+      .values(entries.slice(i, i + CATALOG_UPSERT_CHUNK))
+      .onConflictDoUpdate({
+        target: [currencyCatalog.ticker, currencyCatalog.network],
+        set: {
+          provider: sql`excluded."provider"`,
+          name: sql`excluded."name"`,
+          providerImage: sql`excluded."providerImage"`,
+          hasExtraId: sql`excluded."hasExtraId"`,
+          lastSyncedAt: sql`excluded."lastSyncedAt"`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+}
+
+// Catalog rows in display order
+export async function getCatalogCurrencies(filter: { enabledOnly?: boolean } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(currencyCatalog)
+    .where(filter.enabledOnly ? eq(currencyCatalog.isEnabled, 1) : undefined)
+    .orderBy(currencyCatalog.displayOrder, currencyCatalog.ticker, currencyCatalog.network);
+}
+
+export async function updateCatalogCurrency(
+  id: number,
+  changes: Partial<Pick<InsertCurrencyCatalogEntry, "isEnabled" | "displayOrder" | "icon" | "decimals" | "networkName">>
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(currencyCatalog)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(currencyCatalog.id, id))
+    .returning();
+  return result.length > 0 ? result[0] : null;
+}
+
+// Address book operations (always scoped to the owning wallet)
+export async function getAddressBookEntries(walletId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(addressBook)
+    .where(eq(addressBook.walletId, walletId))
+    .orderBy(addressBook.label);
+}
+
+export async function createAddressBookEntry(entry: InsertAddressBookEntry) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(addressBook).values(entry).returning();
+  return result[0]!;
+}
+
+export async function updateAddressBookEntry(
+  id: number,
+  walletId: number,
+  changes: Partial<Pick<InsertAddressBookEntry, "label" | "currency" | "network" | "address" | "extraId">>
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(addressBook)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(and(eq(addressBook.id, id), eq(addressBook.walletId, walletId)))
+    .returning();
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function deleteAddressBookEntry(id: number, walletId: number) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .delete(addressBook)
+    .where(and(eq(addressBook.id, id), eq(addressBook.walletId, walletId)))
+    .returning({ id: addressBook.id });
+  return result.length > 0;
+}
+
+// Transfer schedule operations (scoped to the owning wallet, except for the scheduler)
+export async function getTransferSchedules(walletId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(transferSchedules)
+    .where(eq(transferSchedules.walletId, walletId))
+    .orderBy(desc(transferSchedules.createdAt));
+}
+
+export async function getTransferSchedule(id: number, walletId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(transferSchedules)
+    .where(and(eq(transferSchedules.id, id), eq(transferSchedules.walletId, walletId)))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createTransferSchedule(schedule: InsertTransferSchedule) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(transferSchedules).values(schedule).returning();
+  return result[0]!;
+}
+
+export async function updateTransferSchedule(
+  id: number,
+  walletId: number,
+  changes: Partial<Omit<InsertTransferSchedule, "id" | "walletId" | "createdAt" | "updatedAt">>
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(transferSchedules)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(and(eq(transferSchedules.id, id), eq(transferSchedules.walletId, walletId)))
+    .returning();
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function deleteTransferSchedule(id: number, walletId: number) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .delete(transferSchedules)
+    .where(and(eq(transferSchedules.id, id), eq(transferSchedules.walletId, walletId)))
+    .returning({ id: transferSchedules.id });
+  if (result.length === 0) return false;
+
+  await db.delete(transferScheduleRuns).where(eq(transferScheduleRuns.scheduleId, id));
+  return true;
+}
+
+// Active schedules whose next run is due, oldest first
+export async function getDueTransferSchedules(limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(transferSchedules)
+    .where(and(eq(transferSchedules.status, "active"), lte(transferSchedules.nextRunAt, new Date())))
+    .orderBy(transferSchedules.nextRunAt)
+    .limit(limit);
+}
+
+// Claims a due run by moving the schedule past it; null if it was paused, edited or already claimed
+export async function claimTransferScheduleRun(
+  id: number,
+  scheduledFor: Date,
+  changes: Pick<InsertTransferSchedule, "nextRunAt" | "status" | "lastRunAt">
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(transferSchedules)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(
+      and(
+        eq(transferSchedules.id, id),
+        eq(transferSchedules.status, "active"),
+        eq(transferSchedules.nextRunAt, scheduledFor)
+      )
+    )
+    .returning();
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function recordTransferScheduleRun(run: InsertTransferScheduleRun) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(transferScheduleRuns).values(run).returning();
+  return result[0]!;
+}
+
+export async function getTransferScheduleRuns(scheduleId: number, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(transferScheduleRuns)
+    .where(eq(transferScheduleRuns.scheduleId, scheduleId))
+    .orderBy(desc(transferScheduleRuns.scheduledFor))
+    .limit(limit);
+}
+
+// Wallet notification operations
+export async function createWalletNotification(notification: InsertWalletNotification) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(walletNotifications).values(notification).returning();
+  return result[0]!;
+}
+
+export async function getWalletNotifications(walletId: number, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(walletNotifications)
+    .where(eq(walletNotifications.walletId, walletId))
+    .orderBy(desc(walletNotifications.createdAt))
+    .limit(limit);
+}
+
+// Marks the given notifications (or all of them) read; returns how many changed
+export async function markWalletNotificationsRead(walletId: number, ids?: number[]) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const conditions = [eq(walletNotifications.walletId, walletId), isNull(walletNotifications.readAt)];
+  if (ids) {
+    if (ids.length === 0) return 0;
+    conditions.push(inArray(walletNotifications.id, ids));
+  }
+
+  const result = await db
+    .update(walletNotifications)
+    .set({ readAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: walletNotifications.id });
+  return result.length;
+}
+
+// Rate alert operations (scoped to the owning wallet, except for the evaluator)
+export async function getRateAlerts(walletId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(rateAlerts)
+    .where(eq(rateAlerts.walletId, walletId))
+    .orderBy(desc(rateAlerts.createdAt));
+}
+
+export async function getRateAlert(id: number, walletId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(rateAlerts)
+    .where(and(eq(rateAlerts.id, id), eq(rateAlerts.walletId, walletId)))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createRateAlert(alert: InsertRateAlert) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(rateAlerts).values(alert).returning();
+  return result[0]!;
+}
+
+export async function updateRateAlert(
+  id: number,
+  walletId: number,
+  changes: Partial<Omit<InsertRateAlert, "id" | "walletId" | "createdAt" | "updatedAt">>
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(rateAlerts)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(and(eq(rateAlerts.id, id), eq(rateAlerts.walletId, walletId)))
+    .returning();
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function deleteRateAlert(id: number, walletId: number) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .delete(rateAlerts)
+    .where(and(eq(rateAlerts.id, id), eq(rateAlerts.walletId, walletId)))
+    .returning({ id: rateAlerts.id });
+  return result.length > 0;
+}
+
+// Active, unexpired alerts not checked since `checkedBefore` and past the cooldown of their last notification
+export function dueRateAlertsCondition(checkedBefore: Date, now: Date) {
+  return and(
+    eq(rateAlerts.isActive, 1),
+    gt(rateAlerts.expiresAt, now),
+    or(isNull(rateAlerts.lastCheckedAt), lte(rateAlerts.lastCheckedAt, checkedBefore)),
+    or(
+      isNull(rateAlerts.lastTriggeredAt),
+      sql`${rateAlerts.lastTriggeredAt} + ${rateAlerts.cooldownMinutes} * interval '1 minute' <= ${sql.param(now, rateAlerts.lastTriggeredAt)}`
+    )
+  );
+}
+
+// Alerts due for a check - least recently checked first
+export async function getDueRateAlerts(checkedBefore: Date, limit: number, now = new Date()) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(rateAlerts)
+    .where(dueRateAlertsCondition(checkedBefore, now))
+    .orderBy(sql`${rateAlerts.lastCheckedAt} ASC NULLS FIRST`)
+    .limit(limit);
+}
+
+// Deactivates active alerts past their expiry and returns them
+export async function expireRateAlerts() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  return await db
+    .update(rateAlerts)
+    .set({ isActive: 0, updatedAt: new Date() })
+    .where(and(eq(rateAlerts.isActive, 1), lte(rateAlerts.expiresAt, new Date())))
+    .returning();
+}
+
+// Admin console operations
+
+export type TransactionSearchFilter = {
+  query?: string; // Reference, wallet, recipient, deposit address, hash or routing ID
+  status?: TransactionStatus;
+  type?: "shield" | "transfer" | "unshield";
+  provider?: string;
+  resolved?: boolean;
+  limit: number;
+  offset: number;
+};
+
+// Every transaction matching the filter (newest first) with its wallet and route
+export async function searchTransactions(filter: TransactionSearchFilter) {
+  const db = await getDb();
+  if (!db) return { items: [], total: 0 };
+
+  const pattern = filter.query ? `%${filter.query.replace(/[%_\\]/g, "\\$&")}%` : undefined;
+  const where = and(
+    pattern
+      ? or(
+          ilike(transactions.txSignature, pattern),
+          ilike(wallets.publicKey, pattern),
+          ilike(transactions.recipientPublicKey, pattern),
+          ilike(transactions.payinAddress, pattern),
+          ilike(transactions.payinHash, pattern),
+          ilike(transactions.payoutHash, pattern),
+          ilike(transactionRouting.routingTransactionId, pattern)
+        )
+      : undefined,
+    filter.status ? eq(transactions.status, filter.status) : undefined,
+    filter.type ? eq(transactions.type, filter.type) : undefined,
+    filter.provider ? eq(transactionRouting.provider, filter.provider) : undefined,
+    filter.resolved === undefined
+      ? undefined
+      : filter.resolved
+        ? isNotNull(transactions.resolvedAt)
+        : isNull(transactions.resolvedAt)
+  );
+
+  const items = await db
+    .select({
+      transaction: transactions,
+      walletPublicKey: wallets.publicKey,
+      provider: transactionRouting.provider,
+      routingTransactionId: transactionRouting.routingTransactionId,
+      routingStatus: transactionRouting.routingStatus,
+      lastCheckedAt: transactionRouting.lastCheckedAt,
+    })
+    .from(transactions)
+    .leftJoin(wallets, eq(wallets.id, transactions.walletId))
+    .leftJoin(transactionRouting, eq(transactionRouting.txSignature, transactions.txSignature))
+    .where(where)
+    .orderBy(desc(transactions.createdAt), desc(transactions.id))
+    .limit(filter.limit)
+    .offset(filter.offset);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(transactions)
+    .leftJoin(wallets, eq(wallets.id, transactions.walletId))
+    .leftJoin(transactionRouting, eq(transactionRouting.txSignature, transactions.txSignature))
+    .where(where);
+
+  return { items, total };
+}
+
+// Sets (or clears, with null) the support note on a transaction
+export async function annotateTransaction(txSignature: string, note: string | null) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .update(transactions)
+    .set({ adminNote: note, updatedAt: new Date() })
+    .where(eq(transactions.txSignature, txSignature))
+    .returning({ id: transactions.id });
+
+  return result.length > 0;
+}
+
+// Flags a transaction as handled by support; the reconciler stops polling it
+export async function markTransactionResolved(txSignature: string, adminPublicKey: string) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const now = new Date();
+  const result = await db
+    .update(transactions)
+    .set({ resolvedAt: now, resolvedBy: adminPublicKey, updatedAt: now })
+    .where(eq(transactions.txSignature, txSignature))
+    .returning({ id: transactions.id });
+
+  return result.length > 0;
+}
+
+export async function recordAdminAction(entry: InsertAdminAuditEntry) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.insert(adminAuditLog).values(entry);
+}
+
+export async function getAdminAuditLog(filter: { targetType?: string; targetId?: string; limit: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(adminAuditLog)
+    .where(
+      and(
+        filter.targetType ? eq(adminAuditLog.targetType, filter.targetType) : undefined,
+        filter.targetId ? eq(adminAuditLog.targetId, filter.targetId) : undefined
+      )
+    )
+    .orderBy(desc(adminAuditLog.createdAt), desc(adminAuditLog.id))
+    .limit(filter.limit);
+}
+
+// Admin dashboard aggregates (transactions created since `since`)
+
+// Transfer count and deposit volume per source currency/network
+export async function getTransferVolume(since: Date) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      currency: transactions.fromCurrency,
+      network: transactions.fromNetwork,
+      count: count(),
+      volume: sql<string>`coalesce(sum(${transactions.amount}), 0)`,
+    })
+    .from(transactions)
+    .where(and(eq(transactions.type, "transfer"), gte(transactions.createdAt, since)))
+    .groupBy(transactions.fromCurrency, transactions.fromNetwork)
+    .orderBy(desc(count()));
+}
+
+export async function getStatusCounts(since: Date) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({ status: transactions.status, count: count() })
+    .from(transactions)
+    .where(gte(transactions.createdAt, since))
+    .groupBy(transactions.status);
+}
+
+// Outcome counts per exchange provider (routed transfers only)
+export async function getProviderStatusCounts(since: Date) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({ provider: transactionRouting.provider, status: transactions.status, count: count() })
+    .from(transactionRouting)
+    .innerJoin(transactions, eq(transactions.txSignature, transactionRouting.txSignature))
+    .where(gte(transactions.createdAt, since))
+    .groupBy(transactionRouting.provider, transactions.status);
+}
+
+// Open, unresolved transactions that haven't changed since `staleBefore`
+export async function getStuckTransactions(openStatuses: readonly TransactionStatus[], staleBefore: Date, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      transaction: transactions,
+      provider: transactionRouting.provider,
+      routingStatus: transactionRouting.routingStatus,
+      checkAttempts: transactionRouting.checkAttempts,
+      lastCheckedAt: transactionRouting.lastCheckedAt,
+    })
+    .from(transactions)
+    .leftJoin(transactionRouting, eq(transactionRouting.txSignature, transactions.txSignature))
+    .where(
+      and(
+        inArray(transactions.status, [...openStatuses]),
+        isNull(transactions.resolvedAt),
+        lt(transactions.updatedAt, staleBefore)
+      )
+    )
+    .orderBy(transactions.updatedAt)
+    .limit(limit);
+}
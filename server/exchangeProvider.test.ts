@@ -0,0 +1,281 @@
+import { createHmac } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import {
+  getExchangeProvider,
+  registerExchangeProvider,
+  type ExchangeProvider,
+} from "./_core/exchangeProvider";
+import {
+  consumeFixedRate,
+  isQuotedAmount,
+  lockFixedRate,
+  rankQuotes,
+  releaseFixedRate,
+  type ExchangeQuote,
+} from "./_core/quotes";
+
+describe("Exchange Provider Registry", () => {
+  it("should resolve the built-in providers by id", async () => {
+    const changenow = await getExchangeProvider("changenow");
+    const mock = await getExchangeProvider("mock");
+
+    expect(changenow.id).toBe("changenow");
+    expect(mock.id).toBe("mock");
+  });
+
+  it("should reject unknown providers", async () => {
+    await expect(getExchangeProvider("does-not-exist")).rejects.toThrow("not available");
+  });
+
+  it("should allow registering a custom provider", async () => {
+    const custom: ExchangeProvider = {
+      id: "custom",
+      createExchange: async () => {
+        throw new Error("not implemented");
+      },
+      getStatus: async () => {
+        throw new Error("not implemented");
+      },
+      estimate: async params => ({
+        sendAmount: params.fromAmount ?? 0,
+        receiveAmount: params.fromAmount ?? 0,
+        feeAmount: 0,
+        feePercentage: 0,
+        isValid: true,
+        toCurrency: params.toCurrency.toUpperCase(),
+      }),
+      getLimits: async () => ({ minAmount: 0, maxAmount: null }),
+      validateAddress: async () => ({ result: true }),
+      listCurrencies: async () => [],
+    };
+
+    registerExchangeProvider(custom);
+    const provider = await getExchangeProvider("custom");
+    const estimate = await provider.estimate({
+      fromCurrency: "sol",
+      toCurrency: "sol",
+      fromNetwork: "sol",
+      toNetwork: "sol",
+      fromAmount: 2,
+    });
+
+    expect(estimate.receiveAmount).toBe(2);
+  });
+});
+
+describe("Mock Exchange Provider", () => {
+  it("should create a route and report it as waiting", async () => {
+    const provider = await getExchangeProvider("mock");
+    const route = await provider.createExchange({
+      fromCurrency: "sol",
+      toCurrency: "usdc",
+      fromNetwork: "sol",
+      toNetwork: "eth",
+      fromAmount: 1,
+      address: "0x52908400098527886E0F7030069857D2E4169EE7",
+    });
+
+    expect(route.payinAddress).toBeTruthy();
+    expect(route.payoutAddress).toBe("0x52908400098527886E0F7030069857D2E4169EE7");
+
+    const status = await provider.getStatus(route.id);
+    expect(status.status).toBe("waiting");
+    expect(status.payoutHash).toBeUndefined();
+  });
+
+  it("should quote a receive amount net of fees", async () => {
+    const provider = await getExchangeProvider("mock");
+    const estimate = await provider.estimate({
+      fromCurrency: "sol",
+      toCurrency: "sol",
+      fromNetwork: "sol",
+      toNetwork: "sol",
+      fromAmount: 10,
+    });
+
+    expect(estimate.receiveAmount).toBeLessThan(10);
+    expect(estimate.feeAmount).toBeGreaterThan(0);
+    expect(estimate.isValid).toBe(true);
+  });
+
+  it("should quote the deposit needed to receive an exact amount", async () => {
+    const provider = await getExchangeProvider("mock");
+    const estimate = await provider.estimate({
+      fromCurrency: "sol",
+      toCurrency: "sol",
+      fromNetwork: "sol",
+      toNetwork: "sol",
+      toAmount: 10,
+    });
+
+    expect(estimate.receiveAmount).toBe(10);
+    expect(estimate.sendAmount).toBeGreaterThan(10);
+    expect(estimate.rateId).toBeTruthy();
+  });
+});
+
+describe("Quote Ranking", () => {
+  function makeQuote(overrides: Partial<ExchangeQuote>): ExchangeQuote {
+    return {
+      quoteId: "q_test",
+      provider: "mock",
+      flow: "standard",
+      direction: "send",
+      fromCurrency: "sol",
+      toCurrency: "usdc",
+      fromNetwork: "sol",
+      toNetwork: "eth",
+      sendAmount: 1,
+      receiveAmount: 100,
+      feeAmount: 0,
+      feePercentage: 0.5,
+      isValid: true,
+      minAmount: null,
+      maxAmount: null,
+      expiresAt: new Date(),
+      ...overrides,
+    };
+  }
+
+  it("should rank the highest receive amount first", () => {
+    const ranked = rankQuotes([
+      makeQuote({ quoteId: "low", receiveAmount: 98 }),
+      makeQuote({ quoteId: "high", receiveAmount: 101 }),
+    ]);
+
+    expect(ranked.map(q => q.quoteId)).toEqual(["high", "low"]);
+  });
+
+  it("should rank invalid quotes last", () => {
+    const ranked = rankQuotes([
+      makeQuote({ quoteId: "invalid", receiveAmount: 500, isValid: false }),
+      makeQuote({ quoteId: "valid", receiveAmount: 90 }),
+    ]);
+
+    expect(ranked[0]?.quoteId).toBe("valid");
+  });
+
+  it("should break ties on the lower fee percentage", () => {
+    const ranked = rankQuotes([
+      makeQuote({ quoteId: "pricey", feePercentage: 1 }),
+      makeQuote({ quoteId: "cheap", feePercentage: 0.25 }),
+    ]);
+
+    expect(ranked[0]?.quoteId).toBe("cheap");
+  });
+
+  it("should rank the lowest deposit first for receive quotes", () => {
+    const ranked = rankQuotes(
+      [
+        makeQuote({ quoteId: "expensive", direction: "receive", sendAmount: 1.2 }),
+        makeQuote({ quoteId: "cheap", direction: "receive", sendAmount: 1.1 }),
+      ],
+      "receive"
+    );
+
+    expect(ranked[0]?.quoteId).toBe("cheap");
+  });
+
+  it("should match stored quote amounts despite numeric rounding", () => {
+    // 0.1 + 0.2 as typed vs. the amount read back from numeric(30,12)
+    expect(isQuotedAmount(Number("0.300000000000"), 0.1 + 0.2)).toBe(true);
+    expect(isQuotedAmount(Number("1.123456789012"), 1.1234567890123456)).toBe(true);
+    expect(isQuotedAmount(1.5, 1.6)).toBe(false);
+    expect(isQuotedAmount(100, 100.001)).toBe(false);
+  });
+});
+
+describe("Fixed-Rate Quotes", () => {
+  const request = {
+    fromCurrency: "sol",
+    toCurrency: "usdc",
+    fromNetwork: "sol",
+    toNetwork: "eth",
+    amount: 1,
+    direction: "send" as const,
+  };
+
+  it("should lock a rate with an expiry", async () => {
+    const locked = await lockFixedRate(request, "mock");
+
+    expect(locked.flow).toBe("fixed-rate");
+    expect(locked.providerRateId).toBeTruthy();
+    expect(locked.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("should only allow a locked rate to be consumed once", async () => {
+    const locked = await lockFixedRate(request, "mock");
+
+    const first = await consumeFixedRate(locked.quoteId);
+    const second = await consumeFixedRate(locked.quoteId);
+
+    expect(first?.providerRateId).toBe(locked.providerRateId);
+    expect(second).toBeNull();
+  });
+
+  it("should make a released rate usable again", async () => {
+    const locked = await lockFixedRate(request, "mock");
+
+    await consumeFixedRate(locked.quoteId);
+    await releaseFixedRate(locked.quoteId);
+
+    expect((await consumeFixedRate(locked.quoteId))?.providerRateId).toBe(locked.providerRateId);
+  });
+
+  it("should lock a receive-exactly rate for the requested payout", async () => {
+    const locked = await lockFixedRate({ ...request, amount: 100, direction: "receive" }, "mock");
+
+    expect(locked.direction).toBe("receive");
+    expect(locked.receiveAmount).toBe(100);
+    expect(locked.sendAmount).toBeGreaterThan(0);
+  });
+
+  it("should reject a stale rate", async () => {
+    const locked = await lockFixedRate(request, "mock");
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(locked.expiresAt.getTime() + 1000);
+
+    expect(await consumeFixedRate(locked.quoteId)).toBeNull();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+});
+
+describe("Provider Callbacks", () => {
+  const body = JSON.stringify({ id: "cn_123", status: "verifying", payinHash: "0xabc" });
+
+  afterEach(() => {
+    ENV.changenowCallbackSecret = "";
+  });
+
+  it("should accept a correctly signed ChangeNow callback", async () => {
+    ENV.changenowCallbackSecret = "callback-secret";
+    const provider = await getExchangeProvider("changenow");
+    const signature = createHmac("sha512", "callback-secret").update(body).digest("hex");
+
+    const callback = provider.parseCallback!(body, { "x-changenow-signature": signature });
+
+    expect(callback?.transactionId).toBe("cn_123");
+    // ChangeNow's "verifying" means the deposit is being checked
+    expect(callback?.status?.status).toBe("confirming");
+    expect(callback?.status?.payinHash).toBe("0xabc");
+  });
+
+  it("should reject a ChangeNow callback with a bad signature", async () => {
+    ENV.changenowCallbackSecret = "callback-secret";
+    const provider = await getExchangeProvider("changenow");
+
+    expect(provider.parseCallback!(body, { "x-changenow-signature": "deadbeef" })).toBeNull();
+    expect(provider.parseCallback!(body, {})).toBeNull();
+  });
+
+  it("should refuse ChangeNow callbacks when no secret is configured", async () => {
+    const provider = await getExchangeProvider("changenow");
+
+    expect(provider.parseCallback!(body, {})).toBeNull();
+  });
+});
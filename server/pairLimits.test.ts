@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { AMOUNT_ABOVE_MAXIMUM, AMOUNT_BELOW_MINIMUM } from "@shared/const";
+import { registerExchangeProvider, type ExchangeProvider } from "./_core/exchangeProvider";
+import { checkAmountLimits, getPairLimits } from "./_core/pairLimits";
+
+describe("Pair Limits", () => {
+  it("should cache a provider's limits per pair", async () => {
+    let calls = 0;
+    const provider: ExchangeProvider = {
+      id: "limits-test",
+      createExchange: async () => {
+        throw new Error("not implemented");
+      },
+      getStatus: async () => {
+        throw new Error("not implemented");
+      },
+      estimate: async () => {
+        throw new Error("not implemented");
+      },
+      getLimits: async () => {
+        calls++;
+        return { minAmount: 0.5, maxAmount: 100 };
+      },
+      validateAddress: async () => ({ result: true }),
+      listCurrencies: async () => [],
+    };
+    registerExchangeProvider(provider);
+    const pair = { fromCurrency: "btc", toCurrency: "eth", fromNetwork: "btc", toNetwork: "eth" };
+
+    const first = await getPairLimits(pair, "limits-test");
+    const second = await getPairLimits({ ...pair, fromCurrency: "BTC" }, "limits-test");
+
+    expect(first).toEqual({ minAmount: 0.5, maxAmount: 100 });
+    expect(second).toEqual(first);
+    expect(calls).toBe(1);
+  });
+
+  it("should look up fixed-rate limits separately", async () => {
+    const provider: ExchangeProvider = {
+      id: "flow-limits-test",
+      createExchange: async () => {
+        throw new Error("not implemented");
+      },
+      getStatus: async () => {
+        throw new Error("not implemented");
+      },
+      estimate: async () => {
+        throw new Error("not implemented");
+      },
+      getLimits: async params =>
+        params.flow === "fixed-rate" ? { minAmount: 1, maxAmount: 50 } : { minAmount: 0.5, maxAmount: 100 },
+      validateAddress: async () => ({ result: true }),
+      listCurrencies: async () => [],
+    };
+    registerExchangeProvider(provider);
+    const pair = { fromCurrency: "btc", toCurrency: "eth", fromNetwork: "btc", toNetwork: "eth" };
+
+    expect(await getPairLimits(pair, "flow-limits-test")).toEqual({ minAmount: 0.5, maxAmount: 100 });
+    expect(await getPairLimits(pair, "flow-limits-test", "fixed-rate")).toEqual({ minAmount: 1, maxAmount: 50 });
+  });
+
+  it("should report amounts below the minimum with a code and the limits", () => {
+    const error = checkAmountLimits(0.1, { minAmount: 0.5, maxAmount: 100 }, "btc");
+
+    expect(error?.errorCode).toBe(AMOUNT_BELOW_MINIMUM);
+    expect(error?.message).toContain("0.5 BTC");
+    expect(error?.details).toEqual({ minAmount: 0.5, maxAmount: 100, currency: "btc" });
+  });
+
+  it("should report amounts above the maximum", () => {
+    const error = checkAmountLimits(150, { minAmount: 0.5, maxAmount: 100 }, "btc");
+
+    expect(error?.errorCode).toBe(AMOUNT_ABOVE_MAXIMUM);
+  });
+
+  it("should accept amounts in range or without known limits", () => {
+    expect(checkAmountLimits(1, { minAmount: 0.5, maxAmount: null }, "btc")).toBeNull();
+    expect(checkAmountLimits(0.1, null, "btc")).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { drizzle } from "drizzle-orm/postgres-js";
+import { describe, expect, it } from "vitest";
+import { rateAlerts } from "../drizzle/schema";
+import { groupAlertsByRoute, validateRateAlert } from "./_core/rateAlerts";
+import { dueRateAlertsCondition } from "./db";
+
+describe("Rate Alert Validation", () => {
+  const now = new Date("2026-03-15T12:00:00Z");
+
+  it("should normalize an alert with default cooldown and expiry", () => {
+    const { alert, error } = validateRateAlert(
+      { currency: "SOL", network: "sol", toCurrency: "usdc", toNetwork: "ETH", amount: "10", targetReceiveAmount: "1500" },
+      now
+    );
+
+    expect(error).toBeNull();
+    expect(alert).toEqual({
+      fromCurrency: "sol",
+      fromNetwork: "sol",
+      toCurrency: "usdc",
+      toNetwork: "eth",
+      amount: "10",
+      targetReceiveAmount: "1500",
+      cooldownMinutes: 60,
+      expiresAt: new Date("2026-04-14T12:00:00Z"),
+    });
+  });
+
+  it("should reject bad amounts, cooldowns and expiries", () => {
+    const base = { currency: "sol", network: "sol", toCurrency: "btc", amount: "10", targetReceiveAmount: "0.01" };
+
+    expect(validateRateAlert({ ...base, targetReceiveAmount: "0" }, now).error).toBe("Invalid target amount");
+    expect(validateRateAlert({ ...base, cooldownMinutes: 5 }, now).error).toContain("Cooldown");
+    expect(validateRateAlert({ ...base, expiresAt: new Date("2026-03-01T00:00:00Z") }, now).error).toBe("Expiry must be in the future");
+    expect(validateRateAlert({ ...base, expiresAt: new Date("2026-12-01T00:00:00Z") }, now).error).toContain("90 days");
+  });
+});
+
+describe("Rate Alert Evaluation", () => {
+  const now = new Date("2026-03-15T12:00:00Z");
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  it("should leave alerts in their check interval or cooldown out of the batch query", () => {
+    const checkedBefore = minutesAgo(5);
+    const query = drizzle
+      .mock()
+      .select()
+      .from(rateAlerts)
+      .where(dueRateAlertsCondition(checkedBefore, now))
+      .toSQL();
+
+    expect(query.sql).toContain(`("rate_alerts"."lastCheckedAt" is null or "rate_alerts"."lastCheckedAt" <= $3)`);
+    expect(query.sql).toContain(
+      `("rate_alerts"."lastTriggeredAt" is null or "rate_alerts"."lastTriggeredAt" + "rate_alerts"."cooldownMinutes" * interval '1 minute' <= $4)`
+    );
+    expect(query.params.slice(2)).toEqual([checkedBefore.toISOString(), now.toISOString()]);
+  });
+
+  it("should share one estimate between alerts on the same route and amount", () => {
+    const route = { fromCurrency: "sol", fromNetwork: "sol", toCurrency: "usdc", toNetwork: "arbitrum" };
+    const groups = groupAlertsByRoute([
+      { id: 1, ...route, amount: "10" },
+      { id: 2, ...route, amount: "10.000000000000" },
+      { id: 3, ...route, amount: "20" },
+    ]);
+
+    expect(groups.map(group => group.map(alert => alert.id))).toEqual([[1, 2], [3]]);
+  });
+});
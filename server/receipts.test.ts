@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { Transaction } from "../drizzle/schema";
+import { canViewReceipt, generateReceiptToken, toReceipt } from "./_core/receipts";
+
+const transfer = {
+  id: 7,
+  walletId: 3,
+  type: "transfer",
+  amount: "2",
+  txSignature: "NR-RECEIPT1",
+  status: "waiting",
+  direction: "send",
+  fromCurrency: "sol",
+  toCurrency: "sol",
+  adminNote: "customer called support",
+  resolvedBy: null,
+  receiptToken: "secret-token",
+  payinHash: null,
+  payoutHash: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as unknown as Transaction;
+
+describe("Transaction Receipts", () => {
+  it("should generate distinct URL-safe tokens", () => {
+    const token = generateReceiptToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(generateReceiptToken()).not.toBe(token);
+  });
+
+  it("should require the token when one was issued", () => {
+    expect(canViewReceipt(transfer, "secret-token")).toBe(true);
+    expect(canViewReceipt(transfer, "secret-tokeN")).toBe(false);
+    expect(canViewReceipt(transfer, undefined)).toBe(false);
+    // Older transfers without a token are viewable by reference
+    expect(canViewReceipt({ receiptToken: null }, undefined)).toBe(true);
+  });
+
+  it("should leave internal fields out of the receipt", () => {
+    const receipt = toReceipt(transfer, null);
+
+    expect(receipt.reference).toBe("NR-RECEIPT1");
+    expect(receipt).not.toHaveProperty("walletId");
+    expect(receipt).not.toHaveProperty("receiptToken");
+    expect(JSON.stringify(receipt)).not.toContain("customer called support");
+  });
+
+  it("should show refund details once a route is refunded", () => {
+    const refunded = { ...transfer, status: "refunded", refundAddress: "RefundAddr111", refundHash: null, refundAmount: null } as Transaction;
+    const receipt = toReceipt(refunded, {
+      id: "route_1",
+      status: "refunded",
+      payinAddress: "Payin111",
+      payoutAddress: "Payout111",
+      fromCurrency: "sol",
+      toCurrency: "sol",
+      fromAmount: 2,
+      toAmount: 0,
+      refundHash: "refund_hash",
+      refundAmount: 1.99,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    expect(receipt.refundAddress).toBe("RefundAddr111");
+    // Falls back to the provider until the reconciler has stored them
+    expect(receipt.refundHash).toBe("refund_hash");
+    expect(receipt.refundAmount).toBe("1.99");
+  });
+});
@@ -1,18 +1,179 @@
 import { z } from "zod";
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import * as db from "./db";
 import * as solana from "./solana";
 import { TRPCError } from "@trpc/server";
 import { 
-  SUPPORTED_CURRENCIES, 
+  getActiveCurrencies, 
   getCurrency, 
   getNetwork, 
   isValidAddress, 
-  getAddressValidationError 
+  getAddressValidationError,
+  isValidExtraId,
+  getExtraIdValidationError,
+  resolveToNetwork,
 } from "./_core/currencies";
-import { NULL_TOKEN_MINT, NULL_REQUIRED_BALANCE, NULL_TOKEN_DECIMALS } from "@shared/const";
+import { refreshCurrencyCatalog, syncCurrencyCatalog } from "./_core/currencyCatalog";
+import { checkAmountLimits, getPairLimits } from "./_core/pairLimits";
+import { createTransfer } from "./_core/transfers";
+import { COOKIE_NAME, NULL_TOKEN_MINT, NULL_REQUIRED_BALANCE, NULL_TOKEN_DECIMALS } from "@shared/const";
+import { auditAdminAction } from "./_core/admin";
+import { getSessionCookieOptions } from "./_core/cookies";
+
+const TRANSACTION_STATUSES = [
+  "pending",
+  "waiting",
+  "confirming",
+  "exchanging",
+  "sending",
+  "finished",
+  "confirmed",
+  "failed",
+  "refunded",
+  "expired",
+] as const;
+
+// Filters and paging shared by the wallet and admin history procedures
+const historyFilterInput = z
+  .object({
+    status: z.array(z.enum(TRANSACTION_STATUSES)).max(TRANSACTION_STATUSES.length).optional(),
+    type: z.enum(["shield", "transfer", "unshield"]).optional(),
+    currency: z.string().min(1).max(16).optional(),
+    network: z.string().min(1).max(32).optional(),
+    from: z.date().optional(),
+    to: z.date().optional(),
+    sort: z.enum(["newest", "oldest"]).default("newest"),
+    cursor: z.number().int().positive().optional(),
+    limit: z.number().int().min(1).max(100).default(25),
+  });
+
+// Fields of a saved recipient (address rules are checked in addressBook.ts)
+const addressBookEntryInput = z.object({
+  label: z.string().trim().min(1).max(64),
+  currency: z.string().min(1).max(16),
+  network: z.string().min(1).max(32),
+  address: z.string().min(20).max(128),
+  extraId: z.string().max(64).nullish(),
+});
+
+// Transfer parameters and timing of a schedule (see transferScheduler)
+const scheduleInput = z.object({
+  label: z.string().trim().min(1).max(64),
+  recipientAddress: z.string().min(20).max(128),
+  extraId: z.string().max(64).nullish(),
+  amount: z.string().min(1).max(32),
+  direction: z.enum(["send", "receive"]).default("send"),
+  currency: z.string().min(1).max(16),
+  network: z.string().min(1).max(32),
+  toCurrency: z.string().max(16).nullish(),
+  toNetwork: z.string().max(32).nullish(),
+  refundAddress: z.string().max(128).nullish(),
+  refundExtraId: z.string().max(64).nullish(),
+  recurrence: z.string().max(64).nullish(), // Cron-style (UTC), e.g. "0 9 1 * *"
+  runAt: z.date().nullish(), // One-off run time
+});
+
+// Route, deposit and target of a rate alert (see rateAlerts)
+const rateAlertInput = z.object({
+  currency: z.string().min(1).max(16),
+  network: z.string().min(1).max(32),
+  toCurrency: z.string().min(1).max(16),
+  toNetwork: z.string().max(32).nullish(),
+  amount: z.string().min(1).max(32),
+  targetReceiveAmount: z.string().min(1).max(32), // Notify when the payout is at least this
+  cooldownMinutes: z.number().int().optional(),
+  expiresAt: z.date().nullish(), // Defaults to 30 days
+});
+
+// Per-wallet data (address book, schedules, notifications) hangs off the signed-in wallet's row
+async function getSignedInWallet(publicKey: string) {
+  const wallet = await db.getWalletByPublicKey(publicKey);
+  if (!wallet) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Wallet not found" });
+  }
+  return wallet;
+}
 
 export const appRouter = router({
+  // Sign-in-with-Solana sessions
+  auth: router({
+    // Issue a one-time message for the wallet to sign
+    nonce: publicProcedure
+      .input(
+        z.object({
+          publicKey: z.string().min(32).max(64),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (!solana.isValidPublicKey(input.publicKey)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid Solana public key format",
+          });
+        }
+
+        const { issueSignInNonce } = await import("./_core/walletAuth");
+        const domain = ctx.req.get("host") ?? "localhost";
+        return await issueSignInNonce(input.publicKey, domain);
+      }),
+
+    // Verify the signed message and start a session
+    verify: publicProcedure
+      .input(
+        z.object({
+          publicKey: z.string().min(32).max(64),
+          nonce: z.string().min(1).max(32),
+          signature: z.string().min(64).max(128), // base58
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const bs58 = (await import("bs58")).default;
+        const { verifySignIn, createSessionToken, SESSION_TTL_MS } = await import("./_core/walletAuth");
+
+        let signature: Uint8Array;
+        try {
+          signature = bs58.decode(input.signature);
+        } catch {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid signature encoding" });
+        }
+
+        const valid = await verifySignIn(input.publicKey, input.nonce, signature);
+        if (!valid) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Signature verification failed. Please sign in again.",
+          });
+        }
+
+        try {
+          await db.upsertWallet(input.publicKey);
+        } catch (error) {
+          console.warn("[Auth] Failed to record wallet:", error);
+        }
+
+        const token = await createSessionToken(input.publicKey);
+        ctx.res.cookie(COOKIE_NAME, token, {
+          ...getSessionCookieOptions(ctx.req),
+          maxAge: SESSION_TTL_MS,
+        });
+
+        console.log(`[Auth] Signed in wallet: ${input.publicKey.slice(0, 8)}...`);
+
+        return {
+          success: true,
+          publicKey: input.publicKey,
+        };
+      }),
+
+    // Current session wallet (null when signed out)
+    me: publicProcedure.query(({ ctx }) => ctx.wallet),
+
+    logout: publicProcedure.mutation(({ ctx }) => {
+      ctx.res.clearCookie(COOKIE_NAME, { ...getSessionCookieOptions(ctx.req), maxAge: -1 });
+      return { success: true };
+    }),
+  }),
+
   // Wallet operations
   wallet: router({
     // Connect a wallet (upsert)
@@ -88,40 +249,19 @@ export const appRouter = router({
         }
       }),
 
-    // List connected wallets (for a given public key)
-    list: publicProcedure
-      .input(
-        z.object({
-          publicKey: z.string().optional(),
-        }).optional()
-      )
-      .query(async ({ input }) => {
-        if (!input?.publicKey) {
-          return [];
-        }
-
-        const wallet = await db.getWalletByPublicKey(input.publicKey);
+    // List connected wallets (the signed-in wallet)
+    list: protectedProcedure
+      .query(async ({ ctx }) => {
+        const wallet = await db.getWalletByPublicKey(ctx.wallet.publicKey);
         return wallet ? [wallet] : [];
       }),
 
-    // Disconnect a wallet (mark as inactive)
-    disconnect: publicProcedure
-      .input(
-        z.object({
-          publicKey: z.string().min(32).max(64),
-        })
-      )
-      .mutation(async ({ input }) => {
+    // Disconnect the signed-in wallet (mark as inactive)
+    disconnect: protectedProcedure
+      .mutation(async ({ ctx }) => {
+        const publicKey = ctx.wallet.publicKey;
         try {
-          // Validate Solana public key format
-          if (!solana.isValidPublicKey(input.publicKey)) {
-            throw new TRPCError({
-              code: "BAD_REQUEST",
-              message: "Invalid Solana public key format",
-            });
-          }
-
-          const wallet = await db.getWalletByPublicKey(input.publicKey);
+          const wallet = await db.getWalletByPublicKey(publicKey);
           
           if (!wallet) {
             throw new TRPCError({
@@ -144,9 +284,9 @@ export const appRouter = router({
           
           await (dbInstance as any).update(wallets as any)
             .set({ isActive: 0, updatedAt: new Date() })
-            .where(eq(wallets.publicKey, input.publicKey));
+            .where(eq(wallets.publicKey, publicKey));
 
-          console.log(`[Wallet] Disconnected wallet: ${input.publicKey.slice(0, 8)}...`);
+          console.log(`[Wallet] Disconnected wallet: ${publicKey.slice(0, 8)}...`);
 
           return {
             success: true,
@@ -276,14 +416,21 @@ export const appRouter = router({
   // Transaction operations
   transaction: router({
     // Shield operation (public -> private)
-    shield: publicProcedure
+    shield: protectedProcedure
       .input(
         z.object({
           publicKey: z.string().min(32).max(64),
           amountSol: z.string(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        if (input.publicKey !== ctx.wallet.publicKey) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Signed-in wallet does not match the requested wallet",
+          });
+        }
+
         try {
           // Ensure wallet exists
           const wallet = await db.getWalletByPublicKey(input.publicKey);
@@ -315,7 +462,7 @@ export const appRouter = router({
             txSignature,
             status: "pending",
             recipientPublicKey: null,
-          });
+          }, "shield");
 
           return {
             success: true,
@@ -330,13 +477,16 @@ export const appRouter = router({
       }),
 
     // Get supported currencies and their networks
-    getSupportedCurrencies: publicProcedure.query(() => {
-      return SUPPORTED_CURRENCIES.map(c => ({
+    getSupportedCurrencies: publicProcedure.query(async () => {
+      await refreshCurrencyCatalog();
+      return getActiveCurrencies().map(c => ({
         ticker: c.ticker,
         name: c.name,
         symbol: c.symbol,
         networks: c.networks,
         defaultNetwork: c.defaultNetwork,
+        decimals: c.decimals,
+        icon: c.icon ?? null,
       }));
     }),
 
@@ -349,6 +499,8 @@ export const appRouter = router({
           network: z.string().default("sol"),
           toCurrency: z.string().optional(), // For cross-chain swaps
           toNetwork: z.string().optional(),
+          // "receive" treats amount as the exact payout and quotes the deposit needed
+          direction: z.enum(["send", "receive"]).default("send"),
         })
       )
       .query(async ({ input }) => {
@@ -362,6 +514,7 @@ export const appRouter = router({
           }
 
           // Validate from currency exists
+          await refreshCurrencyCatalog();
           const currencyConfig = getCurrency(input.currency);
           if (!currencyConfig) {
             throw new TRPCError({
@@ -381,7 +534,7 @@ export const appRouter = router({
 
           // Determine to currency/network (defaults to same as from for privacy mode)
           const toCurrency = input.toCurrency || input.currency;
-          const toNetwork = input.toNetwork || input.network;
+          const toNetwork = resolveToNetwork(toCurrency, input.toNetwork, input);
 
           // Validate to currency if different from from currency
           let toCurrencyConfig = currencyConfig;
@@ -396,25 +549,63 @@ export const appRouter = router({
             toCurrencyConfig = foundToCurrency;
           }
 
-          // Exchange API estimate with selected currency/network
-          const { estimateTransactionFees } = await import("./_core/changenow");
-          const feeEstimate = await estimateTransactionFees(
-            input.currency.toLowerCase(),
-            toCurrency.toLowerCase(),
-            input.network.toLowerCase(),
-            toNetwork.toLowerCase(),
-            amount
-          );
+          const pair = {
+            fromCurrency: input.currency.toLowerCase(),
+            toCurrency: toCurrency.toLowerCase(),
+            fromNetwork: input.network.toLowerCase(),
+            toNetwork: toNetwork.toLowerCase(),
+          };
+
+          // Out-of-range deposits fail before any provider is asked to quote
+          const limits = await getPairLimits(pair);
+          if (input.direction === "send") {
+            const limitError = checkAmountLimits(amount, limits, pair.fromCurrency);
+            if (limitError) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: limitError.message, cause: limitError });
+            }
+          }
+
+          // Ask every enabled provider for a quote, ranked best-first
+          const { collectQuotes } = await import("./_core/quotes");
+          const quotes = await collectQuotes({ ...pair, amount, direction: input.direction });
+          const best = quotes[0]!;
+
+          // A "receive exactly" amount is only known to be in range once the deposit is quoted
+          if (input.direction === "receive") {
+            const limitError = checkAmountLimits(best.sendAmount, limits, pair.fromCurrency);
+            if (limitError) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: limitError.message, cause: limitError });
+            }
+          }
 
           return {
-            sendAmount: Number(feeEstimate.sendAmount ?? amount),
-            receiveAmount: Number(feeEstimate.receiveAmount ?? amount),
-            feeAmount: Number(feeEstimate.feeAmount ?? 0),
-            feePercentage: Number(feeEstimate.feePercentage ?? 0),
-            isValid: !!feeEstimate.isValid,
+            // Top-level fields describe the best quote
+            quoteId: best.quoteId,
+            direction: input.direction,
+            sendAmount: best.sendAmount,
+            receiveAmount: best.receiveAmount,
+            feeAmount: best.feeAmount,
+            feePercentage: best.feePercentage,
+            isValid: best.isValid,
             currency: currencyConfig.symbol,
             toCurrency: toCurrencyConfig.symbol,
-            transactionSpeedForecast: feeEstimate.transactionSpeedForecast,
+            transactionSpeedForecast: best.transactionSpeedForecast,
+            // Deposit range across all providers, in the source currency
+            minAmount: limits?.minAmount ?? null,
+            maxAmount: limits?.maxAmount ?? null,
+            quotes: quotes.map(q => ({
+              quoteId: q.quoteId,
+              provider: q.provider,
+              sendAmount: q.sendAmount,
+              receiveAmount: q.receiveAmount,
+              feeAmount: q.feeAmount,
+              feePercentage: q.feePercentage,
+              isValid: q.isValid,
+              transactionSpeedForecast: q.transactionSpeedForecast,
+              minAmount: q.minAmount,
+              maxAmount: q.maxAmount,
+              expiresAt: q.expiresAt.toISOString(),
+            })),
           };
         } catch (error) {
           if (error instanceof TRPCError) throw error;
@@ -425,17 +616,89 @@ export const appRouter = router({
         }
       }),
 
-    // Validate address via exchange API (more accurate than local regex)
+    // Lock a fixed rate - returns a rate ID the transfer must use before it expires
+    lockRate: publicProcedure
+      .input(
+        z.object({
+          amount: z.string(),
+          currency: z.string().default("sol"),
+          network: z.string().default("sol"),
+          toCurrency: z.string().optional(),
+          toNetwork: z.string().optional(),
+          quoteId: z.string().max(32).optional(), // Lock with the provider of this quote
+          direction: z.enum(["send", "receive"]).default("send"),
+        })
+      )
+      .mutation(async ({ input }) => {
+        try {
+          const amount = parseFloat(input.amount);
+          if (isNaN(amount) || amount <= 0) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "Invalid amount",
+            });
+          }
+
+          await refreshCurrencyCatalog();
+          const toCurrency = input.toCurrency || input.currency;
+          const toNetwork = resolveToNetwork(toCurrency, input.toNetwork, input);
+          if (!getNetwork(input.currency, input.network) || !getNetwork(toCurrency, toNetwork)) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "Unsupported currency or network",
+            });
+          }
+
+          const { getQuote, lockFixedRate } = await import("./_core/quotes");
+          const sourceQuote = input.quoteId ? await getQuote(input.quoteId) : null;
+          const locked = await lockFixedRate(
+            {
+              fromCurrency: input.currency.toLowerCase(),
+              toCurrency: toCurrency.toLowerCase(),
+              fromNetwork: input.network.toLowerCase(),
+              toNetwork: toNetwork.toLowerCase(),
+              amount,
+              direction: input.direction,
+            },
+            sourceQuote?.provider
+          );
+
+          return {
+            rateId: locked.quoteId,
+            direction: locked.direction,
+            expiresAt: locked.expiresAt.toISOString(),
+            sendAmount: locked.sendAmount,
+            receiveAmount: locked.receiveAmount,
+            feeAmount: locked.feeAmount,
+            feePercentage: locked.feePercentage,
+            isValid: locked.isValid,
+            transactionSpeedForecast: locked.transactionSpeedForecast,
+          };
+        } catch (error) {
+          if (error instanceof TRPCError) throw error;
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : "Failed to lock rate",
+          });
+        }
+      }),
+
+    // Validate an address - offline checksum first (when the network is known), then the exchange API
     validateAddress: publicProcedure
       .input(
         z.object({
           currency: z.string(),
           address: z.string(),
+          network: z.string().optional(),
         })
       )
       .query(async ({ input }) => {
-        const { validateAddress } = await import("./_core/changenow");
-        return validateAddress(input.currency, input.address);
+        if (input.network && !isValidAddress(input.address, input.network)) {
+          return { result: false, message: getAddressValidationError(input.network) };
+        }
+        const { getExchangeProvider } = await import("./_core/exchangeProvider");
+        const provider = await getExchangeProvider();
+        return provider.validateAddress(input.currency, input.address);
       }),
 
     // Create transfer - user sends crypto to deposit wallet via exchange routing
@@ -445,11 +708,19 @@ export const appRouter = router({
         z
           .object({
             recipientAddress: z.string().min(20).max(100),
+            extraId: z.string().max(64).optional(), // Memo / destination tag for the recipient
             amount: z.string(),
             currency: z.string().default("sol"),
             network: z.string().default("sol"),
             toCurrency: z.string().optional(), // For cross-chain swaps
             toNetwork: z.string().optional(),
+            quoteId: z.string().max(32).optional(), // Route the user picked from estimateFees
+            rateId: z.string().max(32).optional(), // Locked fixed rate from lockRate
+            // "receive" treats amount as the exact payout (always fixed-rate)
+            direction: z.enum(["send", "receive"]).default("send"),
+            // Where a failed route is refunded - an address on the source network
+            refundAddress: z.string().min(20).max(100).optional(),
+            refundExtraId: z.string().max(64).optional(),
           })
           .nullish()
       )
@@ -468,143 +739,180 @@ export const appRouter = router({
             });
           }
 
-          // Get from currency/network with defaults
-          const fromCurrency = (payload.currency || "sol").toLowerCase();
-          const fromNetwork = (payload.network || fromCurrency).toLowerCase();
+          // Signed-in transfers belong to the session wallet (history, export)
+          const wallet = ctx.wallet ? await db.getWalletByPublicKey(ctx.wallet.publicKey) : null;
+          return await createTransfer(payload, { walletId: wallet?.id });
+        } catch (error) {
+          if (error instanceof TRPCError) {
+            throw error;
+          }
+          const errorMessage = error instanceof Error ? error.message : "Transfer operation failed";
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: errorMessage,
+          });
+        }
+      }),
 
-          // Get to currency/network (defaults to same for privacy mode)
-          const toCurrency = (payload.toCurrency || fromCurrency).toLowerCase();
-          const toNetwork = (payload.toNetwork || toCurrency).toLowerCase();
+    // Read uploaded CSV into batch legs (validated when the batch is created)
+    parseBatchCsv: publicProcedure
+      .input(z.object({ csv: z.string().max(100_000) }))
+      .mutation(async ({ input }) => {
+        const { parseBatchCsv } = await import("./_core/batchOrders");
+        return parseBatchCsv(input.csv);
+      }),
 
-          // Validate from currency exists
+    // Batch order - one route per leg, all funded from the same source currency
+    createBatch: publicProcedure
+      .input(
+        z.object({
+          currency: z.string().default("sol"),
+          network: z.string().default("sol"),
+          legs: z
+            .array(
+              z.object({
+                recipientAddress: z.string().min(20).max(100),
+                toCurrency: z.string().min(1).max(16),
+                toNetwork: z.string().max(32).nullish(),
+                amount: z.string().max(32),
+                extraId: z.string().max(64).nullish(),
+              })
+            )
+            .min(1),
+          refundAddress: z.string().min(20).max(100).optional(),
+          refundExtraId: z.string().max(64).optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { MAX_BATCH_LEGS, createBatchOrder, validateBatchLeg } = await import("./_core/batchOrders");
+        if (input.legs.length > MAX_BATCH_LEGS) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `A batch can have at most ${MAX_BATCH_LEGS} legs`,
+          });
+        }
+
+        try {
+          const fromCurrency = input.currency.toLowerCase();
+          const fromNetwork = input.network.toLowerCase();
+
+          await refreshCurrencyCatalog();
           const fromCurrencyConfig = getCurrency(fromCurrency);
-          if (!fromCurrencyConfig) {
+          if (!fromCurrencyConfig || !getNetwork(fromCurrency, fromNetwork)) {
             throw new TRPCError({
               code: "BAD_REQUEST",
-              message: `Unsupported currency: ${fromCurrency}`,
+              message: `Unsupported source ${fromCurrency} on ${fromNetwork}`,
             });
           }
 
-          // Validate from network exists
-          const fromNetworkConfig = getNetwork(fromCurrency, fromNetwork);
-          if (!fromNetworkConfig) {
+          const refundAddress = input.refundAddress?.trim() || undefined;
+          const refundExtraId = refundAddress ? input.refundExtraId?.trim() || undefined : undefined;
+          if (refundAddress && !isValidAddress(refundAddress, fromNetwork)) {
             throw new TRPCError({
               code: "BAD_REQUEST",
-              message: `Unsupported network ${fromNetwork} for ${fromCurrencyConfig.symbol}`,
+              message: `Refund address: ${getAddressValidationError(fromNetwork)}`,
             });
           }
-
-          // Validate to currency if different
-          let toCurrencyConfig = fromCurrencyConfig;
-          if (toCurrency !== fromCurrency) {
-            const foundToCurrency = getCurrency(toCurrency);
-            if (!foundToCurrency) {
-              throw new TRPCError({
-                code: "BAD_REQUEST",
-                message: `Unsupported to currency: ${toCurrency}`,
-              });
-            }
-            toCurrencyConfig = foundToCurrency;
-          }
-
-          // Validate recipient address format based on TO network (destination)
-          if (!isValidAddress(payload.recipientAddress, toNetwork)) {
+          if (refundExtraId && !isValidExtraId(refundExtraId, fromNetwork)) {
             throw new TRPCError({
               code: "BAD_REQUEST",
-              message: getAddressValidationError(toNetwork),
+              message: `Refund tag: ${getExtraIdValidationError(fromNetwork)}`,
             });
           }
 
-          const amount = parseFloat(payload.amount);
-          if (isNaN(amount) || amount <= 0) {
-            throw new TRPCError({
-              code: "BAD_REQUEST",
-              message: "Invalid amount",
-            });
+          // Every leg must pass before any route is created
+          const { getDefaultProviderId } = await import("./_core/exchangeProvider");
+          const providerId = getDefaultProviderId();
+          const legs = [];
+          const errors: string[] = [];
+          for (let i = 0; i < input.legs.length; i++) {
+            const { leg, error } = validateBatchLeg(input.legs[i]!, { currency: fromCurrency, network: fromNetwork });
+            if (!leg) {
+              errors.push(`Leg ${i + 1}: ${error}`);
+              continue;
+            }
+            const limits = await getPairLimits(
+              { fromCurrency, toCurrency: leg.toCurrency, fromNetwork, toNetwork: leg.toNetwork },
+              providerId
+            );
+            const limitError = checkAmountLimits(leg.amount, limits, fromCurrency);
+            if (limitError) {
+              errors.push(`Leg ${i + 1}: ${limitError.message}`);
+              continue;
+            }
+            legs.push(leg);
+          }
+          if (errors.length > 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
           }
 
-          // Determine if this is privacy mode or cross-chain swap
-          const isPrivacyMode = fromCurrency === toCurrency;
-          const txType = isPrivacyMode ? "privacy transfer" : `swap ${fromCurrencyConfig.symbol} → ${toCurrencyConfig.symbol}`;
-          
-          // Create transaction via exchange API
-          console.log(`[Transfer] Creating ${txType}: ${amount} ${fromCurrencyConfig.symbol} on ${fromNetwork}`);
-          const { queueCreateTransaction } = await import("./_core/apiQueue");
-          const routingTx: any = await queueCreateTransaction({
-            fromCurrency: fromCurrency,
-            toCurrency: toCurrency,
-            fromNetwork: fromNetwork,
-            toNetwork: toNetwork,
-            fromAmount: amount,
-            address: payload.recipientAddress.trim(),
-            flow: "standard",
-          });
-
-          // Generate user-friendly transaction reference (hide internal IDs)
-          const { nanoid } = await import("nanoid");
-          const userTxRef = `NR-${nanoid(8).toUpperCase()}`;
-          
-          // Log for debugging
-          console.log("[Transfer] Transaction created successfully, ID:", routingTx.id, "Length:", routingTx.id?.length);
-
-          // Try to store in database (optional - don't fail if DB unavailable)
-          try {
-            const { storeRoutingTransactionId } = await import("./_core/transactionMonitor");
-            await storeRoutingTransactionId(userTxRef, routingTx.id);
-            
-            const placeholderWallet = await db.getWalletByPublicKey("DEPOSIT_PLACEHOLDER");
-            const walletId = placeholderWallet?.id || (await db.upsertWallet("DEPOSIT_PLACEHOLDER").catch(() => 1));
-            
-            await db.createTransaction({
-              walletId: typeof walletId === 'number' ? walletId : 1,
-              type: "transfer", // Both privacy and swap use transfer type
-              amount: String(amount),
-              amountSol: String(amount), // Legacy field
-              recipientPublicKey: payload.recipientAddress,
-              txSignature: userTxRef,
-              payinAddress: routingTx.payinAddress,
-              status: "pending",
+          // Signed-in batches belong to the session wallet, like single transfers
+          const wallet = ctx.wallet ? await db.getWalletByPublicKey(ctx.wallet.publicKey) : null;
+          const batch = await createBatchOrder({
+            fromCurrency,
+            fromNetwork,
+            legs,
+            refundAddress,
+            refundExtraId,
+            walletId: wallet?.id,
+          });
+          if (batch.legs.length === 0) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `No route could be created: ${batch.failed.map(f => f.error).join("; ")}`,
             });
-            console.log("[Transfer] Transaction saved to database");
-          } catch (dbError) {
-            console.warn("[Transfer] Database unavailable, transaction created but not persisted");
           }
 
-          // Return success with sanitized data
           return {
-            success: true,
-            txSignature: userTxRef,
-            payinAddress: routingTx.payinAddress,
-            routingTransactionId: routingTx.id,
-            amount: amount,
+            ...batch,
             currency: fromCurrencyConfig.symbol,
-            toCurrency: toCurrencyConfig.symbol,
             network: fromNetwork,
-            toNetwork: toNetwork,
-            recipientAddress: payload.recipientAddress,
-            isSwap: !isPrivacyMode,
+            totalDeposit: batch.legs.reduce((sum, leg) => sum + leg.amount, 0),
           };
         } catch (error) {
-          if (error instanceof TRPCError) {
-            throw error;
-          }
-          const errorMessage = error instanceof Error ? error.message : "Transfer operation failed";
+          if (error instanceof TRPCError) throw error;
           throw new TRPCError({
             code: "INTERNAL_SERVER_ERROR",
-            message: errorMessage,
+            message: error instanceof Error ? error.message : "Batch creation failed",
           });
         }
       }),
 
+    // Aggregate status and deposit checklist of a batch order - needs the
+    // batch token if one was issued
+    getBatch: publicProcedure
+      .input(
+        z.object({
+          batchId: z.string().max(32),
+          token: z.string().max(64).optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        const { canViewBatch, toBatchSummary } = await import("./_core/batchOrders");
+        const transactions = await db.getTransactionsByBatchId(input.batchId);
+        // Same error for a wrong token, so batch IDs can't be probed
+        if (transactions.length === 0 || !canViewBatch(transactions, input.token)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Batch not found" });
+        }
+        return toBatchSummary(input.batchId, transactions);
+      }),
+
     // Unshield operation (private -> public)
-    unshield: publicProcedure
+    unshield: protectedProcedure
       .input(
         z.object({
           publicKey: z.string().min(32).max(64),
           amountSol: z.string(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        if (input.publicKey !== ctx.wallet.publicKey) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Signed-in wallet does not match the requested wallet",
+          });
+        }
+
         try {
           // Ensure wallet exists
           const wallet = await db.getWalletByPublicKey(input.publicKey);
@@ -637,7 +945,7 @@ export const appRouter = router({
             txSignature,
             status: "pending",
             recipientPublicKey: null,
-          });
+          }, "unshield");
 
           return {
             success: true,
@@ -651,50 +959,31 @@ export const appRouter = router({
         }
       }),
 
-    // Get recent transactions (last 50)
-    getRecent: publicProcedure
-      .query(async () => {
-        const dbInstance = await db.getDb();
-        if (!dbInstance) {
-          return [];
-        }
-
-          const { transactions } = await import("../drizzle/schema");
-          const { desc } = await import("drizzle-orm");
-
-          return await (dbInstance as any)
-            .select()
-            .from(transactions as any)
-            .orderBy(desc((transactions as any).createdAt))
-            .limit(50);
-      }),
-
-    // Get transaction history for a specific wallet
-    history: publicProcedure
-      .input(
-        z.object({
-          publicKey: z.string().min(32).max(64),
-        })
-      )
-      .query(async ({ input }) => {
-        const wallet: any = await db.getWalletByPublicKey(input.publicKey);
+    // Transaction history of the signed-in wallet, one page at a time
+    history: protectedProcedure
+      .input(historyFilterInput.prefault({}))
+      .query(async ({ ctx, input }) => {
+        const wallet = await db.getWalletByPublicKey(ctx.wallet.publicKey);
         if (!wallet) {
-          return [];
+          return { items: [], nextCursor: null };
         }
 
-        return await db.getTransactionsByWalletId(wallet.id);
+        return await db.getTransactionHistory({ ...input, walletId: wallet.id });
       }),
 
-    // Get single transaction by signature
+    // Receipt view of a transaction - needs the receipt token if one was issued
     getTransaction: publicProcedure
       .input(
         z.object({
-          txSignature: z.string(),
+          txSignature: z.string().max(128),
+          token: z.string().max(64).optional(),
         })
       )
       .query(async ({ input }) => {
-        const tx: any = await db.getTransactionBySignature(input.txSignature);
-        if (!tx) {
+        const { canViewReceipt, toReceipt } = await import("./_core/receipts");
+        const tx = await db.getTransactionBySignature(input.txSignature);
+        // Same error for a wrong token, so references can't be probed
+        if (!tx || !canViewReceipt(tx, input.token)) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Transaction not found",
@@ -703,23 +992,21 @@ export const appRouter = router({
         
         // Get routing status (internal routing service) via queue
         let routingStatus = null;
-        if (tx.payinAddress && tx.status === "pending") {
+        const { isTerminalStatus } = await import("./_core/transactionStatus");
+        if (tx.payinAddress && !isTerminalStatus(tx.status)) {
           try {
-            const { getRoutingTransactionId } = await import("./_core/transactionMonitor");
-            const routingTxId = await getRoutingTransactionId(input.txSignature);
-            if (routingTxId) {
+            const { getRoutingInfo } = await import("./_core/transactionMonitor");
+            const routing = await getRoutingInfo(input.txSignature);
+            if (routing) {
               const { queueGetTransactionStatus } = await import("./_core/apiQueue");
-              routingStatus = await queueGetTransactionStatus(routingTxId);
+              routingStatus = await queueGetTransactionStatus(routing.routingTransactionId, routing.provider);
             }
           } catch (error) {
             console.warn(`[GetTransaction] Could not get routing status:`, error);
           }
         }
         
-        return {
-          ...tx,
-          routingStatus,
-        };
+        return toReceipt(tx, routingStatus);
       }),
 
     // Get routing transaction status (internal) - uses queue to prevent rate limits
@@ -731,18 +1018,20 @@ export const appRouter = router({
       )
       .query(async ({ input }) => {
         try {
+          const { getProviderForRoutingId } = await import("./_core/transactionMonitor");
+          const providerId = await getProviderForRoutingId(input.routingTransactionId);
           const { queueGetTransactionStatus } = await import("./_core/apiQueue");
-          const rawStatus: any = await queueGetTransactionStatus(input.routingTransactionId);
+          const rawStatus = await queueGetTransactionStatus(input.routingTransactionId, providerId ?? undefined);
           
           // Return only sanitized status info - hide internal details
           return {
             status: rawStatus.status as string,
-            fromAmount: rawStatus.fromAmount as number,
-            toAmount: rawStatus.toAmount as number,
+            fromAmount: rawStatus.fromAmount,
+            toAmount: rawStatus.toAmount,
             // Only show truncated payout hash when completed (for user verification)
             payoutHash: rawStatus.payoutHash ? `${String(rawStatus.payoutHash).slice(0, 16)}...` : undefined,
-            createdAt: rawStatus.createdAt as string,
-            updatedAt: rawStatus.updatedAt as string,
+            createdAt: rawStatus.createdAt,
+            updatedAt: rawStatus.updatedAt,
           };
         } catch (error) {
           // If transaction not found yet (404) or API error, return waiting status
@@ -778,11 +1067,10 @@ export const appRouter = router({
 
         try {
           const confirmed = await solana.confirmTransaction(input.txSignature);
-          await db.updateTransactionStatus(
-            input.txSignature,
-            confirmed ? "confirmed" : "failed",
-            confirmed ? undefined : "Transaction failed to confirm"
-          );
+          await db.updateTransactionStatus(input.txSignature, confirmed ? "confirmed" : "failed", {
+            source: "confirm",
+            errorMessage: confirmed ? undefined : "Transaction failed to confirm",
+          });
 
           return {
             success: true,
@@ -796,6 +1084,732 @@ export const appRouter = router({
         }
       }),
   }),
+
+  // Saved recipients of the signed-in wallet
+  addressBook: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const wallet = await db.getWalletByPublicKey(ctx.wallet.publicKey);
+      return wallet ? await db.getAddressBookEntries(wallet.id) : [];
+    }),
+
+    create: protectedProcedure
+      .input(addressBookEntryInput)
+      .mutation(async ({ ctx, input }) => {
+        const { MAX_ADDRESS_BOOK_ENTRIES, validateAddressBookEntry } = await import("./_core/addressBook");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+
+        await refreshCurrencyCatalog();
+        const { entry, error } = validateAddressBookEntry(input);
+        if (!entry) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error });
+        }
+
+        const label = input.label;
+        const existing = await db.getAddressBookEntries(wallet.id);
+        if (existing.length >= MAX_ADDRESS_BOOK_ENTRIES) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Address book is full (${MAX_ADDRESS_BOOK_ENTRIES} entries)`,
+          });
+        }
+        if (existing.some(e => e.label.toLowerCase() === label.toLowerCase())) {
+          throw new TRPCError({ code: "CONFLICT", message: `An entry named "${label}" already exists` });
+        }
+
+        return await db.createAddressBookEntry({ ...entry, label, walletId: wallet.id });
+      }),
+
+    update: protectedProcedure
+      .input(addressBookEntryInput.extend({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const { validateAddressBookEntry } = await import("./_core/addressBook");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+
+        await refreshCurrencyCatalog();
+        const { entry, error } = validateAddressBookEntry(input);
+        if (!entry) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error });
+        }
+
+        const label = input.label;
+        const existing = await db.getAddressBookEntries(wallet.id);
+        if (existing.some(e => e.id !== input.id && e.label.toLowerCase() === label.toLowerCase())) {
+          throw new TRPCError({ code: "CONFLICT", message: `An entry named "${label}" already exists` });
+        }
+
+        const updated = await db.updateAddressBookEntry(input.id, wallet.id, { ...entry, label });
+        if (!updated) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Address book entry not found" });
+        }
+        return updated;
+      }),
+
+    remove: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        if (!(await db.deleteAddressBookEntry(input.id, wallet.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Address book entry not found" });
+        }
+        return { success: true };
+      }),
+  }),
+
+  // Scheduled and recurring transfers of the signed-in wallet
+  schedules: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+      return db.getTransferSchedules(wallet.id);
+    }),
+
+    create: protectedProcedure
+      .input(scheduleInput)
+      .mutation(async ({ ctx, input }) => {
+        const { MAX_SCHEDULES_PER_WALLET, validateSchedule } = await import("./_core/transferScheduler");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+
+        await refreshCurrencyCatalog();
+        const { schedule, error } = validateSchedule(input);
+        if (!schedule) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error });
+        }
+
+        const existing = await db.getTransferSchedules(wallet.id);
+        if (existing.filter(s => s.status !== "completed").length >= MAX_SCHEDULES_PER_WALLET) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `You can have at most ${MAX_SCHEDULES_PER_WALLET} open schedules`,
+          });
+        }
+
+        return db.createTransferSchedule({ ...schedule, walletId: wallet.id });
+      }),
+
+    // Replace a schedule's transfer and timing. A paused schedule stays
+    // paused; a completed one-off is re-armed by giving it a new run time.
+    update: protectedProcedure
+      .input(scheduleInput.extend({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const { validateSchedule } = await import("./_core/transferScheduler");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+
+        const current = await db.getTransferSchedule(input.id, wallet.id);
+        if (!current) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+        }
+
+        await refreshCurrencyCatalog();
+        const { schedule, error } = validateSchedule(input);
+        if (!schedule) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error });
+        }
+
+        const updated = await db.updateTransferSchedule(current.id, wallet.id, {
+          ...schedule,
+          status: current.status === "completed" ? "active" : current.status,
+          consecutiveFailures: 0,
+        });
+        if (!updated) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+        }
+        return updated;
+      }),
+
+    setPaused: protectedProcedure
+      .input(z.object({ id: z.number().int(), paused: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const { getResumedNextRun } = await import("./_core/transferScheduler");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+
+        const current = await db.getTransferSchedule(input.id, wallet.id);
+        if (!current) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+        }
+        if (current.status === "completed") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Schedule has already completed" });
+        }
+
+        if (input.paused) {
+          return db.updateTransferSchedule(current.id, wallet.id, { status: "paused" });
+        }
+
+        const nextRunAt = getResumedNextRun(current);
+        if (!nextRunAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Schedule has no future run" });
+        }
+        return db.updateTransferSchedule(current.id, wallet.id, { status: "active", nextRunAt, consecutiveFailures: 0 });
+      }),
+
+    remove: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        if (!(await db.deleteTransferSchedule(input.id, wallet.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+        }
+        return { success: true };
+      }),
+
+    // Run history, newest first
+    runs: protectedProcedure
+      .input(z.object({ id: z.number().int(), limit: z.number().int().min(1).max(100).default(50) }))
+      .query(async ({ ctx, input }) => {
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        const schedule = await db.getTransferSchedule(input.id, wallet.id);
+        if (!schedule) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+        }
+        return db.getTransferScheduleRuns(schedule.id, input.limit);
+      }),
+  }),
+
+  // Rate alerts of the signed-in wallet
+  alerts: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+      return db.getRateAlerts(wallet.id);
+    }),
+
+    create: protectedProcedure
+      .input(rateAlertInput)
+      .mutation(async ({ ctx, input }) => {
+        const { MAX_RATE_ALERTS_PER_WALLET, validateRateAlert } = await import("./_core/rateAlerts");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+
+        await refreshCurrencyCatalog();
+        const { alert, error } = validateRateAlert(input);
+        if (!alert) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error });
+        }
+
+        const existing = await db.getRateAlerts(wallet.id);
+        if (existing.filter(a => a.isActive === 1).length >= MAX_RATE_ALERTS_PER_WALLET) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `You can have at most ${MAX_RATE_ALERTS_PER_WALLET} active alerts`,
+          });
+        }
+
+        return db.createRateAlert({ ...alert, walletId: wallet.id });
+      }),
+
+    // Turn an alert off or back on (expired alerts stay off)
+    setActive: protectedProcedure
+      .input(z.object({ id: z.number().int(), active: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        const alert = await db.getRateAlert(input.id, wallet.id);
+        if (!alert) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Alert not found" });
+        }
+        if (input.active && alert.expiresAt.getTime() <= Date.now()) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Alert has expired" });
+        }
+
+        return db.updateRateAlert(alert.id, wallet.id, { isActive: input.active ? 1 : 0 });
+      }),
+
+    remove: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        if (!(await db.deleteRateAlert(input.id, wallet.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Alert not found" });
+        }
+        return { success: true };
+      }),
+  }),
+
+  // In-app notifications of the signed-in wallet (the `in-app` channel)
+  notifications: router({
+    list: protectedProcedure
+      .input(z.object({ limit: z.number().int().min(1).max(100).default(30) }).optional())
+      .query(async ({ ctx, input }) => {
+        const { toNotificationView } = await import("./_core/walletNotifications");
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        const notifications = await db.getWalletNotifications(wallet.id, input?.limit ?? 30);
+        return notifications.map(toNotificationView);
+      }),
+
+    // Mark the given notifications read, or all of them without ids
+    markRead: protectedProcedure
+      .input(z.object({ ids: z.array(z.number().int()).max(100).optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const wallet = await getSignedInWallet(ctx.wallet.publicKey);
+        const updated = await db.markWalletNotificationsRead(wallet.id, input.ids);
+        return { updated };
+      }),
+  }),
+
+  // Admin console (ADMIN_WALLETS only) - every mutation is audited
+  admin: router({
+    // Whether the signed-in wallet is an admin (public so the client can hide the console)
+    me: publicProcedure.query(async ({ ctx }) => {
+      const { isAdminWallet } = await import("./_core/admin");
+      return { isAdmin: isAdminWallet(ctx.wallet?.publicKey) };
+    }),
+
+    // List or search all transactions
+    transactions: adminProcedure
+      .input(
+        z.object({
+          query: z.string().trim().min(1).max(128).optional(),
+          status: z.enum(TRANSACTION_STATUSES).optional(),
+          type: z.enum(["shield", "transfer", "unshield"]).optional(),
+          provider: z.string().max(32).optional(),
+          resolved: z.boolean().optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
+      .query(async ({ input }) => {
+        return await db.searchTransactions(input);
+      }),
+
+    // Full record of one transaction: row, route, status history and admin actions
+    transaction: adminProcedure
+      .input(z.object({ txSignature: z.string().min(1).max(128) }))
+      .query(async ({ input }) => {
+        const transaction = await db.getTransactionBySignature(input.txSignature);
+        if (!transaction) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Transaction not found",
+          });
+        }
+
+        const [routing, history, audit] = await Promise.all([
+          db.getTransactionRouting(input.txSignature),
+          db.getTransactionStatusHistory(input.txSignature),
+          db.getAdminAuditLog({ targetType: "transaction", targetId: input.txSignature, limit: 100 }),
+        ]);
+        return { transaction, routing, history, audit };
+      }),
+
+    // Check the provider now instead of waiting for the reconciler
+    resync: adminProcedure
+      .input(z.object({ txSignature: z.string().min(1).max(128) }))
+      .mutation(async ({ ctx, input }) => {
+        const { resyncTransaction } = await import("./_core/transactionMonitor");
+
+        let routingStatus;
+        try {
+          routingStatus = await resyncTransaction(input.txSignature, "admin");
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : "Status check failed",
+          });
+        }
+        if (!routingStatus) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Transaction has no exchange route to re-sync",
+          });
+        }
+
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "transaction.resync",
+          targetType: "transaction",
+          targetId: input.txSignature,
+          detail: { routingStatus: routingStatus.status },
+        });
+
+        const transaction = await db.getTransactionBySignature(input.txSignature);
+        return { routingStatus: routingStatus.status, status: transaction?.status };
+      }),
+
+    // Set or clear (empty note) the support note
+    annotate: adminProcedure
+      .input(
+        z.object({
+          txSignature: z.string().min(1).max(128),
+          note: z.string().max(2000),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const note = input.note.trim() || null;
+        const updated = await db.annotateTransaction(input.txSignature, note);
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Transaction not found",
+          });
+        }
+
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "transaction.annotate",
+          targetType: "transaction",
+          targetId: input.txSignature,
+          detail: { note },
+        });
+        return { success: true };
+      }),
+
+    // Mark a transaction as handled by support, optionally closing it with a
+    // final status. Resolved transactions are no longer reconciled.
+    resolve: adminProcedure
+      .input(
+        z.object({
+          txSignature: z.string().min(1).max(128),
+          status: z.enum(["finished", "confirmed", "failed", "refunded", "expired"]).optional(),
+          note: z.string().max(2000).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const transaction = await db.getTransactionBySignature(input.txSignature);
+        if (!transaction) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Transaction not found",
+          });
+        }
+
+        if (input.status && input.status !== transaction.status) {
+          const { InvalidStatusTransitionError } = await import("./_core/transactionStatus");
+          try {
+            await db.updateTransactionStatus(input.txSignature, input.status, {
+              source: "admin",
+              detail: `Resolved by ${ctx.wallet.publicKey}${input.note ? `: ${input.note}` : ""}`,
+            });
+          } catch (error) {
+            if (error instanceof InvalidStatusTransitionError) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+            }
+            throw error;
+          }
+        }
+
+        await db.markTransactionResolved(input.txSignature, ctx.wallet.publicKey);
+        if (input.note) {
+          await db.annotateTransaction(input.txSignature, input.note);
+        }
+
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "transaction.resolve",
+          targetType: "transaction",
+          targetId: input.txSignature,
+          detail: { previousStatus: transaction.status, status: input.status ?? transaction.status, note: input.note },
+        });
+        return { success: true };
+      }),
+
+    // Dashboard aggregates: volume, status breakdown, provider outcomes, stuck transactions
+    stats: adminProcedure
+      .input(
+        z.object({
+          days: z.number().int().min(1).max(365).default(30),
+          stuckAfterMinutes: z.number().int().min(5).max(7 * 24 * 60).default(120),
+        })
+      )
+      .query(async ({ input }) => {
+        const { OPEN_STATUSES } = await import("./_core/transactionStatus");
+        const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+        const staleBefore = new Date(Date.now() - input.stuckAfterMinutes * 60 * 1000);
+
+        const [volume, statusCounts, providerCounts, stuck] = await Promise.all([
+          db.getTransferVolume(since),
+          db.getStatusCounts(since),
+          db.getProviderStatusCounts(since),
+          db.getStuckTransactions(OPEN_STATUSES, staleBefore, 100),
+        ]);
+
+        // Error rate = (failed + refunded) / settled routes; expired routes never got a deposit
+        const providers = new Map<string, { provider: string; total: number; finished: number; failed: number; refunded: number; expired: number; open: number }>();
+        for (const row of providerCounts) {
+          const entry = providers.get(row.provider) ??
+            { provider: row.provider, total: 0, finished: 0, failed: 0, refunded: 0, expired: 0, open: 0 };
+          entry.total += row.count;
+          if (row.status === "finished" || row.status === "failed" || row.status === "refunded" || row.status === "expired") {
+            entry[row.status] += row.count;
+          } else {
+            entry.open += row.count;
+          }
+          providers.set(row.provider, entry);
+        }
+
+        return {
+          since,
+          volume,
+          statusCounts,
+          providers: Array.from(providers.values()).map(p => {
+            const settled = p.finished + p.failed + p.refunded;
+            return { ...p, errorRate: settled > 0 ? (p.failed + p.refunded) / settled : 0 };
+          }),
+          stuck,
+        };
+      }),
+
+    // Transaction history across every wallet (optionally one wallet)
+    history: adminProcedure
+      .input(
+        historyFilterInput.extend({
+          walletPublicKey: z.string().min(32).max(64).optional(),
+        }).prefault({})
+      )
+      .query(async ({ input }) => {
+        const { walletPublicKey, ...filter } = input;
+        if (!walletPublicKey) {
+          return await db.getTransactionHistory(filter);
+        }
+
+        const wallet = await db.getWalletByPublicKey(walletPublicKey);
+        if (!wallet) {
+          return { items: [], nextCursor: null };
+        }
+        return await db.getTransactionHistory({ ...filter, walletId: wallet.id });
+      }),
+
+    // Every synced currency/network, including disabled ones
+    currencies: adminProcedure.query(async () => {
+      return await db.getCatalogCurrencies();
+    }),
+
+    // Curate a catalog row: offer it or not, order, icon and decimals
+    updateCurrency: adminProcedure
+      .input(
+        z.object({
+          id: z.number().int().positive(),
+          isEnabled: z.boolean().optional(),
+          displayOrder: z.number().int().min(0).max(100000).optional(),
+          icon: z.string().url().max(512).nullable().optional(), // null = use the provider's icon
+          decimals: z.number().int().min(0).max(30).nullable().optional(),
+          networkName: z.string().trim().min(1).max(64).nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, isEnabled, ...changes } = input;
+        const updated = await db.updateCatalogCurrency(id, {
+          ...changes,
+          ...(isEnabled === undefined ? {} : { isEnabled: isEnabled ? 1 : 0 }),
+        });
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Currency not found",
+          });
+        }
+
+        await refreshCurrencyCatalog(true);
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "currency.update",
+          targetType: "currency",
+          targetId: `${updated.ticker}:${updated.network}`,
+          detail: input,
+        });
+        return updated;
+      }),
+
+    // Pull the provider's currency list now instead of waiting for the next sync
+    syncCurrencies: adminProcedure.mutation(async ({ ctx }) => {
+      try {
+        const result = await syncCurrencyCatalog();
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "currency.sync",
+          targetType: "currency",
+          detail: result,
+        });
+        return result;
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Currency sync failed",
+        });
+      }
+    }),
+
+    // Provider API queue health on this instance
+    queueHealth: adminProcedure.query(async () => {
+      const { getQueueStatus } = await import("./_core/apiQueue");
+      return getQueueStatus();
+    }),
+
+    auditLog: adminProcedure
+      .input(
+        z.object({
+          targetType: z.string().max(32).optional(),
+          targetId: z.string().max(128).optional(),
+          limit: z.number().int().min(1).max(500).default(100),
+        })
+      )
+      .query(async ({ input }) => {
+        return await db.getAdminAuditLog(input);
+      }),
+  }),
+
+  // Outbound webhook endpoints for back-office integrations
+  webhooks: router({
+    list: adminProcedure.query(async () => {
+      const endpoints = await db.getWebhookEndpoints();
+      // Secrets are only shown once, when the endpoint is created
+      return endpoints.map(({ secret: _secret, ...endpoint }) => endpoint);
+    }),
+
+    create: adminProcedure
+      .input(
+        z.object({
+          url: z.string().url().max(512),
+          events: z.array(z.string()).min(1).default(["*"]),
+          description: z.string().max(255).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { WEBHOOK_EVENTS, generateWebhookSecret } = await import("./_core/webhooks");
+        const unknown = input.events.filter(e => e !== "*" && !(WEBHOOK_EVENTS as readonly string[]).includes(e));
+        if (unknown.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown webhook events: ${unknown.join(", ")}`,
+          });
+        }
+
+        const endpoint = await db.createWebhookEndpoint({
+          url: input.url,
+          secret: generateWebhookSecret(),
+          events: input.events.join(","),
+          description: input.description ?? null,
+        });
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "webhooks.create",
+          targetType: "webhook_endpoint",
+          targetId: endpoint.id,
+          detail: { url: input.url, events: input.events },
+        });
+        return endpoint;
+      }),
+
+    update: adminProcedure
+      .input(
+        z.object({
+          id: z.number().int(),
+          url: z.string().url().max(512).optional(),
+          events: z.array(z.string()).min(1).optional(),
+          description: z.string().max(255).optional(),
+          isActive: z.boolean().optional(),
+          rotateSecret: z.boolean().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { WEBHOOK_EVENTS, generateWebhookSecret } = await import("./_core/webhooks");
+        const unknown = (input.events ?? []).filter(e => e !== "*" && !(WEBHOOK_EVENTS as readonly string[]).includes(e));
+        if (unknown.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown webhook events: ${unknown.join(", ")}`,
+          });
+        }
+
+        const endpoint = await db.updateWebhookEndpoint(input.id, {
+          url: input.url,
+          events: input.events?.join(","),
+          description: input.description,
+          isActive: input.isActive === undefined ? undefined : input.isActive ? 1 : 0,
+          secret: input.rotateSecret ? generateWebhookSecret() : undefined,
+        });
+        if (!endpoint) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Webhook endpoint not found",
+          });
+        }
+        const { id, ...changes } = input;
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "webhooks.update",
+          targetType: "webhook_endpoint",
+          targetId: id,
+          detail: changes,
+        });
+        // Only return the secret when it was just rotated
+        const { secret: _secret, ...rest } = endpoint;
+        return input.rotateSecret ? endpoint : rest;
+      }),
+
+    remove: adminProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteWebhookEndpoint(input.id);
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "webhooks.remove",
+          targetType: "webhook_endpoint",
+          targetId: input.id,
+        });
+        return { success: true };
+      }),
+
+    deliveries: adminProcedure
+      .input(
+        z.object({
+          endpointId: z.number().int().optional(),
+          status: z.enum(["pending", "delivered", "dead"]).optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+      )
+      .query(async ({ input }) => {
+        return await db.getWebhookDeliveries(input);
+      }),
+
+    // Requeue specific deliveries, or every dead letter (optionally of one endpoint)
+    replay: adminProcedure
+      .input(
+        z.object({
+          deliveryIds: z.array(z.number().int()).min(1).optional(),
+          endpointId: z.number().int().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { replayWebhookDeliveries } = await import("./_core/webhooks");
+        const requeued = await replayWebhookDeliveries(input);
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "webhooks.replay",
+          targetType: input.endpointId !== undefined ? "webhook_endpoint" : undefined,
+          targetId: input.endpointId,
+          detail: { ...input, requeued },
+        });
+        return { requeued };
+      }),
+
+    // Send a signed test event straight to an endpoint (bypasses the queue)
+    test: adminProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const endpoint = await db.getWebhookEndpoint(input.id);
+        if (!endpoint) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Webhook endpoint not found",
+          });
+        }
+
+        const { nanoid } = await import("nanoid");
+        const { sendWebhook } = await import("./_core/webhooks");
+        const eventId = `evt_test_${nanoid(12)}`;
+        await auditAdminAction({
+          adminPublicKey: ctx.wallet.publicKey,
+          action: "webhooks.test",
+          targetType: "webhook_endpoint",
+          targetId: input.id,
+        });
+        return await sendWebhook(endpoint, {
+          eventId,
+          eventType: "transfer.created",
+          payload: JSON.stringify({
+            id: eventId,
+            type: "transfer.created",
+            createdAt: new Date().toISOString(),
+            data: { test: true },
+          }),
+        });
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,184 @@
+import type { Express, Request, Response } from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { COOKIE_NAME } from "@shared/const";
+import type { InsertTransaction, Transaction } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+import { ENV } from "./_core/env";
+import {
+  EXPORT_COLUMNS,
+  registerTransactionExportRoutes,
+  toCsvLine,
+  toCsvValue,
+  toExportRow,
+} from "./_core/transactionExport";
+import { createSessionToken } from "./_core/walletAuth";
+import { appRouter } from "./routers";
+
+const USER = "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK";
+
+// In-memory wallets and transactions instead of a database
+const store = vi.hoisted(() => ({ transactions: [] as Transaction[] }));
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getWalletByPublicKey: async (publicKey: string) =>
+    publicKey === "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK" ? { id: 7, publicKey } : undefined,
+  upsertWallet: async () => 1,
+  storeTransactionRouting: async () => {},
+  createTransaction: async (tx: InsertTransaction) => {
+    const now = new Date();
+    store.transactions.push({ id: store.transactions.length + 1, createdAt: now, updatedAt: now, ...tx } as Transaction);
+  },
+  getTransactionHistory: async (filter: { walletId?: number; type?: string }) => ({
+    items: store.transactions.filter(tx => tx.walletId === filter.walletId && tx.type === filter.type),
+    nextCursor: null,
+  }),
+}));
+
+vi.mock("./_core/apiQueue", async importOriginal => ({
+  ...(await importOriginal<typeof import("./_core/apiQueue")>()),
+  queueCreateTransaction: async () => ({
+    id: "routing-1",
+    payinAddress: "PayinAddress",
+    fromAmount: 1.5,
+    toAmount: 1.49,
+  }),
+}));
+
+vi.mock("./_core/pairLimits", async importOriginal => ({
+  ...(await importOriginal<typeof import("./_core/pairLimits")>()),
+  getPairLimits: async () => null,
+}));
+
+vi.mock("./_core/webhooks", async importOriginal => ({
+  ...(await importOriginal<typeof import("./_core/webhooks")>()),
+  emitWebhookEvent: async () => {},
+}));
+
+const transfer = {
+  id: 1,
+  walletId: 1,
+  type: "transfer",
+  amount: "1.500000000",
+  amountSol: "1.500000000",
+  recipientPublicKey: "0xRecipient",
+  txSignature: "NR-ABCD1234",
+  payinAddress: "PayinAddress",
+  direction: "send",
+  fromCurrency: "sol",
+  toCurrency: "eth",
+  fromNetwork: "sol",
+  toNetwork: "eth",
+  quotedReceiveAmount: "0.070000000000",
+  receivedAmount: "0.069500000000",
+  feeAmount: "0.010000000000",
+  feePercentage: "0.6600",
+  payinHash: "payin-hash",
+  payoutHash: null,
+  payinExtraId: null,
+  payoutExtraId: null,
+  refundAddress: null,
+  refundAmount: null,
+  status: "finished",
+  errorMessage: null,
+  adminNote: "internal",
+  resolvedAt: null,
+  resolvedBy: null,
+  createdAt: new Date("2025-01-02T03:04:05.000Z"),
+  updatedAt: new Date("2025-01-02T04:00:00.000Z"),
+} as Transaction;
+
+describe("Transaction Export", () => {
+  it("should map a transfer to the export columns", () => {
+    const row = toExportRow(transfer);
+
+    expect(Object.keys(row)).toEqual([...EXPORT_COLUMNS]);
+    expect(row).toMatchObject({
+      reference: "NR-ABCD1234",
+      createdAt: "2025-01-02T03:04:05.000Z",
+      amountSent: "1.500000000",
+      amountReceived: "0.069500000000",
+      payoutHash: null,
+    });
+    // Support-only fields never leave the server
+    expect(JSON.stringify(row)).not.toContain("internal");
+  });
+
+  it("should export the quote as the payout only while the route is open", () => {
+    const unsettled = { ...transfer, receivedAmount: null };
+
+    expect(toExportRow({ ...unsettled, status: "exchanging" }).amountReceived).toBe("0.070000000000");
+    expect(toExportRow({ ...unsettled, status: "refunded", refundAmount: "1.490000000000" })).toMatchObject({
+      amountReceived: null,
+      amountRefunded: "1.490000000000",
+    });
+  });
+
+  it("should escape CSV values", () => {
+    expect(toCsvValue(null)).toBe("");
+    expect(toCsvValue("plain")).toBe("plain");
+    expect(toCsvValue('a,"b"')).toBe('"a,""b"""');
+    expect(toCsvValue("line\nbreak")).toBe('"line\nbreak"');
+  });
+
+  it("should neutralize spreadsheet formulas but keep negative numbers", () => {
+    expect(toCsvValue("=HYPERLINK(1)")).toBe("'=HYPERLINK(1)");
+    expect(toCsvValue("-1.5")).toBe("-1.5");
+  });
+
+  it("should write one CRLF-terminated line per row", () => {
+    const line = toCsvLine(toExportRow(transfer));
+
+    expect(line.endsWith("\r\n")).toBe(true);
+    expect(line.split(",")).toHaveLength(EXPORT_COLUMNS.length);
+  });
+});
+
+describe("Transaction Export of Signed-In Transfers", () => {
+  const originalSecret = ENV.cookieSecret;
+
+  beforeAll(() => {
+    ENV.cookieSecret = "test-secret";
+  });
+
+  afterAll(() => {
+    ENV.cookieSecret = originalSecret;
+  });
+
+  // Run GET /api/export/transactions for a session cookie, return the body
+  async function exportAs(publicKey: string): Promise<string> {
+    let handler: ((req: Request, res: Response) => void) | undefined;
+    registerTransactionExportRoutes({ get: (_path: string, fn: typeof handler) => (handler = fn) } as unknown as Express);
+
+    const token = await createSessionToken(publicKey);
+    const chunks: string[] = [];
+    return new Promise(resolve => {
+      const res = {
+        headersSent: false,
+        status: () => res,
+        setHeader: () => {},
+        json: (body: unknown) => resolve(JSON.stringify(body)),
+        write: (chunk: string) => chunks.push(chunk),
+        end: (chunk = "") => resolve(chunks.join("") + chunk),
+      };
+      handler!(
+        { headers: { cookie: `${COOKIE_NAME}=${token}` }, query: { format: "json" }, on: () => {} } as unknown as Request,
+        res as unknown as Response
+      );
+    });
+  }
+
+  it("should export a transfer created while signed in", async () => {
+    const caller = appRouter.createCaller({
+      req: { protocol: "https", headers: {} } as TrpcContext["req"],
+      res: { clearCookie: () => {}, cookie: () => {} } as unknown as TrpcContext["res"],
+      wallet: { publicKey: USER },
+    });
+
+    const transfer = await caller.transaction.transfer({ recipientAddress: USER, amount: "1.5" });
+    const rows = JSON.parse(await exportAs(USER));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ reference: transfer.txSignature, amountSent: "1.5", payinAddress: "PayinAddress" });
+  });
+});
@@ -0,0 +1,67 @@
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { describe, expect, it } from "vitest";
+import { transactionRouting, transactions } from "../drizzle/schema";
+import { MAX_FAILED_CHECK_ATTEMPTS, mapRoutingStatus, nextCheckDelay } from "./_core/transactionMonitor";
+import { canTransition, isTerminalStatus, RECONCILE_STATUSES } from "./_core/transactionStatus";
+import { routingDueCondition } from "./db";
+
+describe("Status Reconciler", () => {
+  it("should map routing states onto transaction statuses", () => {
+    for (const status of ["waiting", "confirming", "exchanging", "sending", "finished", "refunded", "expired"] as const) {
+      expect(mapRoutingStatus(status)).toBe(status);
+    }
+  });
+
+  it("should back off exponentially up to a cap", () => {
+    expect(nextCheckDelay(1)).toBe(nextCheckDelay(0) * 2);
+    expect(nextCheckDelay(2)).toBe(nextCheckDelay(0) * 4);
+    expect(nextCheckDelay(100)).toBe(30 * 60 * 1000);
+  });
+
+  it("should drop a failed route from the due checks once its check limit is reached", () => {
+    const now = new Date("2026-03-15T12:00:00Z");
+    const query = drizzle
+      .mock()
+      .select()
+      .from(transactionRouting)
+      .innerJoin(transactions, eq(transactions.txSignature, transactionRouting.txSignature))
+      .where(routingDueCondition(RECONCILE_STATUSES, MAX_FAILED_CHECK_ATTEMPTS, now))
+      .toSQL();
+
+    const statusCount = RECONCILE_STATUSES.length;
+    expect(query.sql).toContain(
+      `("transactions"."status" <> $${statusCount + 1} or "transaction_routing"."checkAttempts" < $${statusCount + 2})`
+    );
+    expect(query.params.slice(statusCount, statusCount + 2)).toEqual(["failed", MAX_FAILED_CHECK_ATTEMPTS]);
+  });
+});
+
+describe("Transaction Status Transitions", () => {
+  it("should allow forward jumps through the routing lifecycle", () => {
+    expect(canTransition("pending", "waiting")).toBe(true);
+    expect(canTransition("waiting", "exchanging")).toBe(true);
+    expect(canTransition("sending", "finished")).toBe(true);
+  });
+
+  it("should reject moving backwards", () => {
+    expect(canTransition("exchanging", "waiting")).toBe(false);
+    expect(canTransition("sending", "confirming")).toBe(false);
+  });
+
+  it("should only let a failed route be refunded", () => {
+    expect(canTransition("failed", "refunded")).toBe(true);
+    expect(canTransition("failed", "finished")).toBe(false);
+    // ...so the reconciler keeps polling failed routes
+    expect(RECONCILE_STATUSES).toContain("failed");
+    expect(RECONCILE_STATUSES).not.toContain("refunded");
+  });
+
+  it("should treat finished, refunded and expired as terminal", () => {
+    for (const status of ["finished", "refunded", "expired", "confirmed"] as const) {
+      expect(isTerminalStatus(status)).toBe(true);
+      expect(canTransition(status, "pending")).toBe(false);
+    }
+    expect(isTerminalStatus("waiting")).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { getNextRun, parseRecurrence } from "./_core/recurrence";
+import { getResumedNextRun, validateSchedule } from "./_core/transferScheduler";
+
+const EVM_ADDRESS = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+const nextRun = (expression: string, after: string) => getNextRun(parseRecurrence(expression), new Date(after))?.toISOString();
+
+describe("Recurrence", () => {
+  it("should find the next monthly run", () => {
+    expect(nextRun("0 9 1 * *", "2026-03-15T12:00:00Z")).toBe("2026-04-01T09:00:00.000Z");
+    expect(nextRun("@monthly", "2026-12-01T00:00:00Z")).toBe("2027-01-01T00:00:00.000Z");
+  });
+
+  it("should run strictly after the given time", () => {
+    expect(nextRun("30 8 * * *", "2026-03-15T08:30:00Z")).toBe("2026-03-16T08:30:00.000Z");
+    expect(nextRun("30 8 * * *", "2026-03-15T08:29:59Z")).toBe("2026-03-15T08:30:00.000Z");
+  });
+
+  it("should support ranges, lists and steps", () => {
+    // Weekdays at 17:00 - Friday evening goes to Monday
+    expect(nextRun("0 17 * * 1-5", "2026-03-13T18:00:00Z")).toBe("2026-03-16T17:00:00.000Z");
+    expect(nextRun("0 0-23/6 * * *", "2026-03-15T07:00:00Z")).toBe("2026-03-15T12:00:00.000Z");
+    expect(nextRun("15 12 1,15 * *", "2026-03-02T00:00:00Z")).toBe("2026-03-15T12:15:00.000Z");
+    // Sunday as 7
+    expect(nextRun("0 0 * * 7", "2026-03-16T00:00:00Z")).toBe("2026-03-22T00:00:00.000Z");
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 1st, or any Monday
+    expect(nextRun("0 0 1 * 1", "2026-03-24T00:00:00Z")).toBe("2026-03-30T00:00:00.000Z");
+  });
+
+  it("should skip months without the day and report impossible dates", () => {
+    expect(nextRun("0 0 31 * *", "2026-04-01T00:00:00Z")).toBe("2026-05-31T00:00:00.000Z");
+    expect(nextRun("0 0 30 2 *", "2026-01-01T00:00:00Z")).toBeUndefined();
+  });
+
+  it("should reject malformed and sub-hourly expressions", () => {
+    expect(() => parseRecurrence("0 9 1 *")).toThrow("5 fields");
+    expect(() => parseRecurrence("*/5 * * * *")).toThrow("at most hourly");
+    expect(() => parseRecurrence("0 24 * * *")).toThrow("hour");
+    expect(() => parseRecurrence("0 0 0 * *")).toThrow("day-of-month");
+  });
+});
+
+describe("Schedule Validation", () => {
+  const now = new Date("2026-03-15T12:00:00Z");
+  const payroll = {
+    label: " Payroll ",
+    recipientAddress: EVM_ADDRESS,
+    amount: "250",
+    currency: "sol",
+    network: "sol",
+    toCurrency: "USDC",
+    toNetwork: "eth",
+  };
+
+  it("should normalize a recurring schedule and compute its first run", () => {
+    const { schedule, error } = validateSchedule({ ...payroll, recurrence: "0 9 1 * *" }, now);
+
+    expect(error).toBeNull();
+    expect(schedule).toMatchObject({
+      label: "Payroll",
+      toCurrency: "usdc",
+      toNetwork: "eth",
+      amount: "250",
+      direction: "send",
+      recurrence: "0 9 1 * *",
+      nextRunAt: new Date("2026-04-01T09:00:00Z"),
+    });
+  });
+
+  it("should require exactly one future run time or recurrence", () => {
+    expect(validateSchedule(payroll, now).error).toBe("A run time or a recurrence is required");
+    expect(validateSchedule({ ...payroll, runAt: new Date("2026-03-01T00:00:00Z") }, now).error).toBe(
+      "Run time must be in the future"
+    );
+    expect(
+      validateSchedule({ ...payroll, runAt: new Date("2026-04-01T00:00:00Z"), recurrence: "@daily" }, now).error
+    ).toContain("not both");
+  });
+
+  it("should reject recipients the transfer would reject", () => {
+    const runAt = new Date("2026-04-01T00:00:00Z");
+
+    expect(validateSchedule({ ...payroll, toCurrency: "btc", toNetwork: "btc", runAt }, now).error).toContain("Invalid Bitcoin address");
+    expect(validateSchedule({ ...payroll, amount: "-1", runAt }, now).error).toBe("Invalid amount");
+  });
+
+  it("should skip runs missed while paused when resuming", () => {
+    const missed = new Date("2026-03-01T09:00:00Z");
+
+    expect(getResumedNextRun({ recurrence: "0 9 1 * *", nextRunAt: missed }, now)).toEqual(new Date("2026-04-01T09:00:00Z"));
+    expect(getResumedNextRun({ recurrence: null, nextRunAt: missed }, now)).toBe(missed);
+  });
+});
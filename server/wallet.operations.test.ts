@@ -3,8 +3,8 @@ import { appRouter } from "./routers";
 import type { TrpcContext } from "./_core/context";
 import * as solana from "./solana";
 
-// Mock Express request/response
-function createMockContext(): TrpcContext {
+// Mock Express request/response, optionally signed in as `walletPublicKey`
+function createMockContext(walletPublicKey?: string): TrpcContext {
   return {
     req: {
       protocol: "https",
@@ -14,6 +14,7 @@ function createMockContext(): TrpcContext {
       clearCookie: () => {},
       cookie: () => {},
     } as TrpcContext["res"],
+    wallet: walletPublicKey ? { publicKey: walletPublicKey } : null,
   };
 }
 
@@ -55,7 +56,7 @@ describe("Wallet Operations", () => {
   });
 
   it("should list connected wallets", async () => {
-    const ctx = createMockContext();
+    const ctx = createMockContext("7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK");
     const caller = appRouter.createCaller(ctx);
 
     const validPublicKey = "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK";
@@ -64,7 +65,7 @@ describe("Wallet Operations", () => {
     await caller.wallet.connect({ publicKey: validPublicKey });
 
     // Then list wallets
-    const wallets = await caller.wallet.list({ publicKey: validPublicKey });
+    const wallets = await caller.wallet.list();
 
     expect(wallets).toBeDefined();
     expect(wallets.length).toBeGreaterThan(0);
@@ -73,8 +74,25 @@ describe("Wallet Operations", () => {
 });
 
 describe("Transaction Operations", () => {
+  it("should require a signed-in wallet for history", async () => {
+    const caller = appRouter.createCaller(createMockContext());
+
+    await expect(caller.transaction.history()).rejects.toThrow("Please login");
+  });
+
+  it("should reject shielding for a wallet other than the signed-in one", async () => {
+    const caller = appRouter.createCaller(createMockContext("84yqsEThuG5fphbhXBpXNMmDvZ6xc7BjFX8VZRyii2eZ"));
+
+    await expect(
+      caller.transaction.shield({
+        publicKey: "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK",
+        amountSol: "1",
+      })
+    ).rejects.toThrow("does not match");
+  });
+
   it("should fail shield operation without Light Protocol setup", async () => {
-    const ctx = createMockContext();
+    const ctx = createMockContext("7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK");
     const caller = appRouter.createCaller(ctx);
 
     const validPublicKey = "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK";
@@ -112,7 +130,7 @@ describe("Transaction Operations", () => {
   });
 
   it("should fail unshield operation without Light Protocol setup", async () => {
-    const ctx = createMockContext();
+    const ctx = createMockContext("7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK");
     const caller = appRouter.createCaller(ctx);
 
     const validPublicKey = "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK";
@@ -130,7 +148,7 @@ describe("Transaction Operations", () => {
   });
 
   it("should return empty transaction history for new wallet", async () => {
-    const ctx = createMockContext();
+    const ctx = createMockContext("84yqsEThuG5fphbhXBpXNMmDvZ6xc7BjFX8VZRyii2eZ");
     const caller = appRouter.createCaller(ctx);
 
     const validPublicKey = "84yqsEThuG5fphbhXBpXNMmDvZ6xc7BjFX8VZRyii2eZ";
@@ -139,14 +157,15 @@ describe("Transaction Operations", () => {
     await caller.wallet.connect({ publicKey: validPublicKey });
 
     // Get transaction history
-    const history = await caller.transaction.history({ publicKey: validPublicKey });
+    const history = await caller.transaction.history();
 
     expect(history).toBeDefined();
-    expect(Array.isArray(history)).toBe(true);
+    expect(Array.isArray(history.items)).toBe(true);
+    expect(history.nextCursor).toBeNull();
   });
 
   it("should validate transaction amounts", async () => {
-    const ctx = createMockContext();
+    const ctx = createMockContext("7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK");
     const caller = appRouter.createCaller(ctx);
 
     const validPublicKey = "7EqQdEUwJNVRhNjNs8H6z8Z5K8h3vZ8yC8yKqKqKqKqK";
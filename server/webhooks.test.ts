@@ -0,0 +1,81 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  retryDelay,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./_core/webhooks";
+
+const secret = "whsec_test";
+
+describe("Webhook Signatures", () => {
+  it("should verify a signature made with the same secret", () => {
+    const body = JSON.stringify({ id: "evt_1" });
+    const now = Math.floor(Date.now() / 1000);
+    const header = signWebhookPayload(secret, body, now);
+
+    expect(verifyWebhookSignature(secret, body, header, now)).toBe(true);
+    expect(verifyWebhookSignature("whsec_other", body, header, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, body + " ", header, now)).toBe(false);
+  });
+
+  it("should reject signatures outside the tolerance window", () => {
+    const body = "{}";
+    const header = signWebhookPayload(secret, body, 1_000_000);
+
+    expect(verifyWebhookSignature(secret, body, header, 1_000_000 + 10 * 60)).toBe(false);
+  });
+
+  it("should back off exponentially up to a cap", () => {
+    expect(retryDelay(2)).toBe(retryDelay(1) * 2);
+    expect(retryDelay(100)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe("Webhook Delivery", () => {
+  let server: Server;
+  let url: string;
+  let responseStatus = 200;
+  const received: Array<{ headers: IncomingMessage["headers"]; body: string }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should deliver a signed event to a local receiver", async () => {
+    responseStatus = 200;
+    const payload = JSON.stringify({ id: "evt_local", type: "transfer.created", data: {} });
+    const result = await sendWebhook({ url, secret }, { eventId: "evt_local", eventType: "transfer.created", payload });
+
+    expect(result.ok).toBe(true);
+    const request = received.at(-1)!;
+    expect(request.body).toBe(payload);
+    expect(request.headers["x-webhook-id"]).toBe("evt_local");
+    expect(request.headers["x-webhook-event"]).toBe("transfer.created");
+    expect(verifyWebhookSignature(secret, request.body, String(request.headers["x-webhook-signature"]))).toBe(true);
+  });
+
+  it("should report non-2xx responses as failures", async () => {
+    responseStatus = 500;
+    const result = await sendWebhook({ url, secret }, { eventId: "evt_fail", eventType: "transfer.finished", payload: "{}" });
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(500);
+  });
+});
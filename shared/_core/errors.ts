@@ -17,3 +17,19 @@ export const BadRequestError = (msg: string) => new HttpError(400, msg);
 export const UnauthorizedError = (msg: string) => new HttpError(401, msg);
 export const ForbiddenError = (msg: string) => new HttpError(403, msg);
 export const NotFoundError = (msg: string) => new HttpError(404, msg);
+
+/**
+ * Error with a stable machine-readable code. Attach it as the `cause` of a
+ * TRPCError and the client receives `error.data.errorCode` and
+ * `error.data.errorDetails` alongside the message.
+ */
+export class CodedError extends Error {
+  constructor(
+    public errorCode: string,
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "CodedError";
+  }
+}
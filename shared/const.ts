@@ -4,6 +4,10 @@ export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
 
+// Structured error codes (TRPC `error.data.errorCode`)
+export const AMOUNT_BELOW_MINIMUM = "AMOUNT_BELOW_MINIMUM";
+export const AMOUNT_ABOVE_MAXIMUM = "AMOUNT_ABOVE_MAXIMUM";
+
 // Token Gate Configuration
 export const TOKEN_GATE_ENABLED = false; // Set to true to enable token gate
 export const NULL_TOKEN_MINT = "B7tP6jNAcSmnvcuKsTFdvTAJHMkEQaXse8TMxoq2pump";